@@ -0,0 +1,61 @@
+/**
+ * Fits the slippage regression on a recorded NDJSON session and writes the
+ * versioned coefficients as JSON, ready to load in the simulator.
+ *
+ * Usage: npm run calibrate-slippage -- recording.ndjson --kind quantile --quantile 0.9 --out slippage-model.json
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import {
+  BookSample,
+  CalibrationOptions,
+  calibrateSlippageModel,
+  slippageFeatureNames
+} from '../src/lib/slippageCalibration';
+
+function parseArgs(argv: string[]): { input: string; out: string; options: CalibrationOptions } {
+  const args = new Map<string, string>();
+  const positional: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      args.set(argv[i].slice(2), argv[i + 1] && !argv[i + 1].startsWith('--') ? argv[++i] : 'true');
+    } else {
+      positional.push(argv[i]);
+    }
+  }
+
+  if (positional.length === 0) {
+    throw new Error('Usage: calibrate-slippage <recording.ndjson> [--kind linear|quantile] [--quantile 0.9] [--quantities 100,1000] [--stride 1] [--out model.json]');
+  }
+
+  return {
+    input: positional[0],
+    out: args.get('out') ?? 'slippage-model.json',
+    options: {
+      kind: (args.get('kind') as CalibrationOptions['kind']) ?? 'linear',
+      quantile: args.has('quantile') ? Number(args.get('quantile')) : undefined,
+      quantities: args.get('quantities')?.split(',').map(Number),
+      stride: args.has('stride') ? Number(args.get('stride')) : undefined
+    }
+  };
+}
+
+const { input, out, options } = parseArgs(process.argv.slice(2));
+
+const records: BookSample[] = readFileSync(input, 'utf8')
+  .split('\n')
+  .filter((line) => line.trim().length > 0)
+  .map((line) => JSON.parse(line) as BookSample)
+  .sort((a, b) => a.receivedAt - b.receivedAt);
+
+const model = calibrateSlippageModel(records, options);
+writeFileSync(out, JSON.stringify(model, null, 2) + '\n');
+
+console.log(`${model.version}: ${model.stats.observations} observations from ${model.training.books} books (${model.training.symbols.join(', ')})`);
+console.log(`R² ${model.stats.r2.toFixed(4)}  adj. R² ${model.stats.adjustedR2.toFixed(4)}  RMSE ${model.stats.rmse.toFixed(6)}%  MAE ${model.stats.mae.toFixed(6)}%`);
+console.log(`  intercept         ${model.intercept.toExponential(4)}${model.standardErrors ? `  ± ${model.standardErrors.intercept.toExponential(2)}` : ''}`);
+for (const name of slippageFeatureNames) {
+  const error = model.standardErrors ? `  ± ${model.standardErrors[name].toExponential(2)}` : '';
+  const note = model.excludedFeatures.includes(name) ? '  (constant in training data, excluded)' : '';
+  console.log(`  ${name.padEnd(17)} ${model.coefficients[name].toExponential(4)}${error}${note}`);
+}
+console.log(`Wrote ${out}`);
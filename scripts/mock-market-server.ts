@@ -0,0 +1,309 @@
+/**
+ * Local mock market-data server for offline development.
+ *
+ * Streams synthetic L2 books in the GoMarket OrderBookData format on
+ * ws://localhost:<port>/ws/l2-orderbook/<exchange>/<symbol>, driven by a
+ * random-walk mid price with a configurable spread and depth shape. Faults can
+ * be scripted from a scenario file, injected at random, or triggered by a
+ * connected client sending {"op":"fault","type":"<fault>"}. Perpetual (-SWAP)
+ * instruments also get {"type":"funding",...} frames on the same socket every
+ * --funding-interval milliseconds, with a random-walk funding rate settled on
+ * the usual 8-hour UTC grid.
+ *
+ * Usage: npm run mock-server -- --port 8765 --scenario scripts/scenarios/faults.json
+ */
+import { readFileSync } from 'node:fs';
+import { IncomingMessage } from 'node:http';
+import { WebSocket, WebSocketServer } from 'ws';
+import type { OrderBookData } from '../src/lib/types';
+
+type FaultType = 'disconnect' | 'malformed' | 'stale' | 'crossed';
+type DepthShape = 'flat' | 'linear' | 'exponential';
+
+interface ScenarioStep {
+  /** Milliseconds after the client connected */
+  at: number;
+  type: FaultType;
+  /** Number of consecutive messages affected (ignored for disconnect) */
+  count?: number;
+}
+
+interface Scenario {
+  steps: ScenarioStep[];
+  /** Restart the script from the beginning after the last step */
+  repeat?: boolean;
+}
+
+interface ServerOptions {
+  port: number;
+  intervalMs: number;
+  levels: number;
+  spreadBps: number;
+  tickSize: number;
+  volatilityBps: number;
+  baseSize: number;
+  depthShape: DepthShape;
+  faultRate: number;
+  staleMs: number;
+  fundingIntervalMs: number;
+  scenario: Scenario | null;
+}
+
+interface FundingFrame {
+  type: 'funding';
+  timestamp: string;
+  exchange: string;
+  symbol: string;
+  fundingRate: number;
+  predictedRate: number;
+  nextFundingTime: number;
+  intervalHours: number;
+}
+
+// Funding settles every 8 hours on OKX, Binance and Bybit perpetuals
+const fundingIntervalHours = 8;
+const baseFundingRate = 0.0001;
+
+const faultTypes: FaultType[] = ['disconnect', 'malformed', 'stale', 'crossed'];
+
+// Starting mid prices for the instruments offered in the UI
+const initialMids: Record<string, number> = {
+  'BTC-USDT-SWAP': 95000,
+  'ETH-USDT-SWAP': 3500,
+  'SOL-USDT-SWAP': 180,
+  'BNB-USDT-SWAP': 600
+};
+
+function parseArgs(argv: string[]): ServerOptions {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      args.set(argv[i].slice(2), argv[i + 1] && !argv[i + 1].startsWith('--') ? argv[++i] : 'true');
+    }
+  }
+
+  const number = (key: string, fallback: number) => (args.has(key) ? Number(args.get(key)) : fallback);
+  const scenarioPath = args.get('scenario');
+
+  return {
+    port: number('port', 8765),
+    intervalMs: number('interval', 250),
+    levels: number('levels', 50),
+    spreadBps: number('spread-bps', 1),
+    tickSize: number('tick', 0.1),
+    volatilityBps: number('volatility-bps', 2),
+    baseSize: number('base-size', 5),
+    depthShape: (args.get('depth-shape') as DepthShape) || 'exponential',
+    faultRate: number('fault-rate', 0),
+    staleMs: number('stale-ms', 60000),
+    fundingIntervalMs: number('funding-interval', 5000),
+    scenario: scenarioPath ? (JSON.parse(readFileSync(scenarioPath, 'utf8')) as Scenario) : null
+  };
+}
+
+/** Standard normal sample (Box-Muller) */
+function gaussian(): number {
+  const u = 1 - Math.random();
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function depthWeight(shape: DepthShape, level: number, levels: number): number {
+  switch (shape) {
+    case 'flat':
+      return 1;
+    case 'linear':
+      return 1 + (level / levels) * 4;
+    case 'exponential':
+      return Math.exp(level / (levels / 3));
+  }
+}
+
+/**
+ * Random-walk mid price per symbol, shared by every client so that several
+ * connections see a consistent market.
+ */
+class SyntheticMarket {
+  private mids = new Map<string, number>();
+  private fundingRates = new Map<string, number>();
+
+  constructor(private readonly options: ServerOptions) {}
+
+  step(symbol: string): number {
+    const mid = this.mids.get(symbol) ?? initialMids[symbol] ?? 100;
+    const next = mid * Math.exp((this.options.volatilityBps / 10000) * gaussian());
+    this.mids.set(symbol, next);
+    return next;
+  }
+
+  /**
+   * Funding frame in the GoMarket format, with the rate drifting around the
+   * venues' 0.01% baseline
+   */
+  funding(symbol: string, exchange: string): FundingFrame {
+    const rate = this.fundingRates.get(symbol) ?? baseFundingRate;
+    const next = Math.max(-0.0075, Math.min(0.0075, rate + 0.00002 * gaussian()));
+    this.fundingRates.set(symbol, next);
+
+    const interval = fundingIntervalHours * 3600 * 1000;
+    const now = Date.now();
+    return {
+      type: 'funding',
+      timestamp: new Date(now).toISOString(),
+      exchange,
+      symbol,
+      fundingRate: rate,
+      predictedRate: next,
+      nextFundingTime: Math.floor(now / interval) * interval + interval,
+      intervalHours: fundingIntervalHours
+    };
+  }
+
+  book(symbol: string, exchange: string): OrderBookData {
+    const { levels, spreadBps, baseSize, depthShape } = this.options;
+    const mid = this.step(symbol);
+    // Keep the tick proportional to price so cheap instruments still have depth
+    const tick = Math.max(this.options.tickSize * (mid / 95000), 0.0001);
+    const decimals = Math.max(0, Math.ceil(-Math.log10(tick)));
+    const halfSpread = Math.max((mid * spreadBps) / 20000, tick / 2);
+
+    const level = (price: number, index: number): [string, string] => {
+      const size = baseSize * depthWeight(depthShape, index, levels) * (0.5 + Math.random());
+      return [price.toFixed(decimals), size.toFixed(4)];
+    };
+
+    const asks: [string, string][] = [];
+    const bids: [string, string][] = [];
+    for (let i = 0; i < levels; i++) {
+      asks.push(level(mid + halfSpread + i * tick, i));
+      bids.push(level(mid - halfSpread - i * tick, i));
+    }
+
+    return {
+      timestamp: new Date().toISOString(),
+      exchange,
+      symbol,
+      asks,
+      bids
+    };
+  }
+}
+
+/**
+ * Applies a message-level fault to an outgoing book
+ * @returns Frame to send, or null if the connection should be dropped
+ */
+function applyFault(fault: FaultType, book: OrderBookData, options: ServerOptions): string | null {
+  switch (fault) {
+    case 'disconnect':
+      return null;
+    case 'malformed':
+      return JSON.stringify(book).slice(0, 40);
+    case 'stale':
+      return JSON.stringify({
+        ...book,
+        timestamp: new Date(Date.now() - options.staleMs).toISOString()
+      });
+    case 'crossed': {
+      // Best bid moves through the best ask
+      const [askPrice] = book.asks[0];
+      const crossedBid: [string, string] = [(parseFloat(askPrice) * 1.001).toFixed(askPrice.split('.')[1]?.length ?? 0), book.bids[0][1]];
+      return JSON.stringify({ ...book, bids: [crossedBid, ...book.bids.slice(1)] });
+    }
+  }
+}
+
+function handleConnection(socket: WebSocket, request: IncomingMessage, market: SyntheticMarket, options: ServerOptions): void {
+  const match = (request.url || '').match(/^\/ws\/l2-orderbook\/([^/]+)\/([^/?]+)/);
+  if (!match) {
+    socket.close(1008, 'Expected /ws/l2-orderbook/<exchange>/<symbol>');
+    return;
+  }
+
+  const [, exchange, symbol] = match;
+  const connectedAt = Date.now();
+  const pending: FaultType[] = [];
+  let scenarioIndex = 0;
+  let scenarioOffset = 0;
+
+  console.log(`client connected: ${exchange}/${symbol}`);
+
+  socket.on('message', (raw) => {
+    try {
+      const message = JSON.parse(raw.toString());
+      if (message.op === 'fault' && faultTypes.includes(message.type)) {
+        console.log(`${symbol}: client requested ${message.type}`);
+        for (let i = 0; i < (message.count ?? 1); i++) pending.push(message.type);
+      }
+    } catch {
+      // Anything that is not a control frame is ignored
+    }
+  });
+
+  const nextScriptedFaults = (): void => {
+    const scenario = options.scenario;
+    if (!scenario || scenario.steps.length === 0) return;
+
+    const elapsed = Date.now() - connectedAt - scenarioOffset;
+    while (scenarioIndex < scenario.steps.length && scenario.steps[scenarioIndex].at <= elapsed) {
+      const step = scenario.steps[scenarioIndex++];
+      const count = step.type === 'disconnect' ? 1 : step.count ?? 1;
+      for (let i = 0; i < count; i++) pending.push(step.type);
+    }
+    if (scenarioIndex >= scenario.steps.length && scenario.repeat) {
+      scenarioIndex = 0;
+      scenarioOffset += scenario.steps[scenario.steps.length - 1].at;
+    }
+  };
+
+  const timer = setInterval(() => {
+    if (socket.readyState !== WebSocket.OPEN) return;
+
+    nextScriptedFaults();
+    if (pending.length === 0 && Math.random() < options.faultRate) {
+      pending.push(faultTypes[Math.floor(Math.random() * faultTypes.length)]);
+    }
+
+    const book = market.book(symbol, exchange);
+    const fault = pending.shift();
+    if (!fault) {
+      socket.send(JSON.stringify(book));
+      return;
+    }
+
+    console.log(`${symbol}: injecting ${fault}`);
+    const frame = applyFault(fault, book, options);
+    if (frame === null) {
+      // Drop the TCP connection without a close frame (client sees code 1006)
+      socket.terminate();
+    } else {
+      socket.send(frame);
+    }
+  }, options.intervalMs);
+
+  const sendFunding = () => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(market.funding(symbol, exchange)));
+  };
+  const fundingTimer = symbol.endsWith('-SWAP') && options.fundingIntervalMs > 0
+    ? setInterval(sendFunding, options.fundingIntervalMs)
+    : undefined;
+  if (fundingTimer) setTimeout(sendFunding, options.intervalMs);
+
+  socket.on('close', () => {
+    clearInterval(timer);
+    clearInterval(fundingTimer);
+    console.log(`client disconnected: ${exchange}/${symbol}`);
+  });
+}
+
+const options = parseArgs(process.argv.slice(2));
+const market = new SyntheticMarket(options);
+const server = new WebSocketServer({ port: options.port });
+
+server.on('connection', (socket, request) => handleConnection(socket, request, market, options));
+server.on('listening', () => {
+  console.log(`Mock market server listening on ws://localhost:${options.port}/ws/l2-orderbook/<exchange>/<symbol>`);
+  if (options.scenario) {
+    console.log(`Fault scenario loaded with ${options.scenario.steps.length} steps`);
+  }
+});
@@ -0,0 +1,118 @@
+import React, { useMemo } from 'react';
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from '@/components/ui/table';
+import { HistogramBin, PriceStatistics, SimulationResults } from '@/lib/types';
+
+interface AnalyticsPanelProps {
+  results: SimulationResults;
+}
+
+// Price buckets shown in the liquidity profile, nearest the mean mid first
+const profileRows = 40;
+
+const statisticRows: { key: keyof Omit<PriceStatistics, 'count'>; label: string }[] = [
+  { key: 'mean', label: 'Mean' },
+  { key: 'median', label: 'Median' },
+  { key: 'stdDev', label: 'Std Dev' },
+  { key: 'skewness', label: 'Skewness' },
+  { key: 'kurtosis', label: 'Excess Kurtosis' },
+  { key: 'min', label: 'Min' },
+  { key: 'max', label: 'Max' }
+];
+
+const formatValue = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+const Histogram: React.FC<{ title: string; bins: HistogramBin[]; color: string }> = ({ title, bins, color }) => (
+  <div className="h-56">
+    <h3 className="text-sm font-medium mb-2">{title}</h3>
+    <ResponsiveContainer width="100%" height="90%">
+      <BarChart
+        data={bins.map((bin) => ({ ...bin, middle: (bin.lower + bin.upper) / 2 }))}
+        margin={{ top: 5, right: 20, bottom: 5, left: 20 }}
+      >
+        <CartesianGrid strokeDasharray="3 3" stroke="#444" />
+        <XAxis dataKey="middle" tickFormatter={(value: number) => value.toPrecision(6)} />
+        <YAxis allowDecimals={false} />
+        <Tooltip
+          formatter={(value: number) => [value, 'Books']}
+          labelFormatter={(_, payload) => {
+            const bin = payload?.[0]?.payload as HistogramBin | undefined;
+            return bin ? `${formatValue(bin.lower)} – ${formatValue(bin.upper)}` : '';
+          }}
+        />
+        <Bar dataKey="count" fill={color} isAnimationActive={false} />
+      </BarChart>
+    </ResponsiveContainer>
+  </div>
+);
+
+/**
+ * Rolling mid-price and spread statistics with their histograms, and the
+ * average resting liquidity per price bucket with bids and asks side by side.
+ */
+const AnalyticsPanel: React.FC<AnalyticsPanelProps> = ({ results }) => {
+  const { priceStats, spreadStats, priceHistogram, spreadHistogram, volumeProfile } = results;
+
+  const profile = useMemo(() => {
+    const rows = new Map<number, { price: number; bid: number; ask: number }>();
+    for (const entry of volumeProfile ?? []) {
+      const row = rows.get(entry.price) ?? { price: entry.price, bid: 0, ask: 0 };
+      row[entry.side] += entry.volume;
+      rows.set(entry.price, row);
+    }
+    const center = priceStats?.mean ?? 0;
+    return [...rows.values()]
+      .sort((a, b) => Math.abs(a.price - center) - Math.abs(b.price - center))
+      .slice(0, profileRows)
+      .sort((a, b) => b.price - a.price);
+  }, [volumeProfile, priceStats?.mean]);
+
+  if (!priceStats || !spreadStats) {
+    return <div className="flex items-center justify-center py-12 text-muted-foreground">Waiting for order book...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="h-8 text-xs">{`Last ${priceStats.count} books`}</TableHead>
+            <TableHead className="h-8 text-xs text-right">Mid Price</TableHead>
+            <TableHead className="h-8 text-xs text-right">Spread (bps)</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {statisticRows.map((row) => (
+            <TableRow key={row.key}>
+              <TableCell className="py-1 text-xs">{row.label}</TableCell>
+              <TableCell className="py-1 text-xs font-mono text-right">{formatValue(priceStats[row.key])}</TableCell>
+              <TableCell className="py-1 text-xs font-mono text-right">{formatValue(spreadStats[row.key])}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Histogram title="Mid Price Distribution" bins={priceHistogram ?? []} color="#3b82f6" />
+        <Histogram title="Spread Distribution (bps)" bins={spreadHistogram ?? []} color="#f59e0b" />
+      </div>
+
+      <div style={{ height: Math.max(160, profile.length * 18 + 60) }}>
+        <h3 className="text-sm font-medium mb-2">Resting Liquidity Profile (average size per bucket)</h3>
+        <ResponsiveContainer width="100%" height="90%">
+          <BarChart data={profile} layout="vertical" margin={{ top: 5, right: 20, bottom: 5, left: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#444" />
+            <XAxis type="number" tickFormatter={(value: number) => value.toPrecision(3)} />
+            <YAxis type="category" dataKey="price" width={80} tickFormatter={(value: number) => formatValue(value)} />
+            <Tooltip formatter={(value: number, name: string) => [value.toFixed(4), name]} />
+            <Legend />
+            <Bar dataKey="bid" name="Bids" fill="#10b981" isAnimationActive={false} />
+            <Bar dataKey="ask" name="Asks" fill="#ef4444" isAnimationActive={false} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default AnalyticsPanel;
@@ -0,0 +1,94 @@
+import React from 'react';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from '@/components/ui/table';
+import { SimulationParameters } from '@/lib/types';
+import { assets } from '@/lib/instruments';
+import { useOrderBook } from '@/hooks/use-order-book';
+import { runSimulation } from '@/lib/simulation';
+import { marketDataPool } from '@/lib/connectionPool';
+import { LocalOrderBook } from '@/lib/orderBook';
+
+interface AssetComparisonProps {
+  parameters: SimulationParameters;
+}
+
+interface AssetRowProps {
+  asset: string;
+  parameters: SimulationParameters;
+}
+
+/** Touch prices and the simulated costs of the order on one asset's book */
+function estimateCosts(book: LocalOrderBook, asset: string, parameters: SimulationParameters) {
+  const results = runSimulation(book, { ...parameters, asset }, marketDataPool.getFunding(parameters.exchange, asset));
+  return {
+    bestBid: book.bestBid().price,
+    bestAsk: book.bestAsk().price,
+    slippage: results.expectedSlippage,
+    walkSlippage: results.execution?.slippage ?? 0,
+    marketImpact: results.expectedMarketImpact,
+    netCost: results.netCost
+  };
+}
+
+const AssetRow: React.FC<AssetRowProps> = ({ asset, parameters }) => {
+  const { book, isConnected } = useOrderBook(asset, parameters.exchange);
+
+  // The book is mutated in place and every update re-renders the row, so this is recomputed each render
+  const estimate = book && book.isReady() ? estimateCosts(book, asset, parameters) : null;
+
+  return (
+    <TableRow>
+      <TableCell className="font-mono text-xs">
+        <span className={`inline-block h-2 w-2 rounded-full mr-2 ${isConnected ? 'bg-positive' : 'bg-negative'}`}></span>
+        {asset}
+      </TableCell>
+      {estimate ? (
+        <>
+          <TableCell className="text-right font-mono text-positive">{estimate.bestBid.toLocaleString()}</TableCell>
+          <TableCell className="text-right font-mono text-negative">{estimate.bestAsk.toLocaleString()}</TableCell>
+          <TableCell className="text-right font-mono">{`${estimate.slippage.toFixed(4)}%`}</TableCell>
+          <TableCell className="text-right font-mono">{`${estimate.walkSlippage.toFixed(4)}%`}</TableCell>
+          <TableCell className="text-right font-mono">{`${estimate.marketImpact.toFixed(4)}%`}</TableCell>
+          <TableCell className="text-right font-mono">{`$${estimate.netCost.toFixed(4)}`}</TableCell>
+        </>
+      ) : (
+        <TableCell colSpan={6} className="text-center text-muted-foreground text-xs">
+          Waiting for order book...
+        </TableCell>
+      )}
+    </TableRow>
+  );
+};
+
+/**
+ * Live cost estimate for the current order across every supported asset, each
+ * read from its own book in the shared connection pool.
+ */
+const AssetComparison: React.FC<AssetComparisonProps> = ({ parameters }) => {
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-medium">
+        {`Cost of a $${parameters.quantity.toLocaleString()} ${parameters.side} order across assets`}
+      </div>
+      <Table className="w-full">
+        <TableHeader>
+          <TableRow>
+            <TableHead>Asset</TableHead>
+            <TableHead className="text-right">Bid</TableHead>
+            <TableHead className="text-right">Ask</TableHead>
+            <TableHead className="text-right">Slippage</TableHead>
+            <TableHead className="text-right">Book Walk</TableHead>
+            <TableHead className="text-right">Impact</TableHead>
+            <TableHead className="text-right">Net Cost</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {assets.map((asset) => (
+            <AssetRow key={asset} asset={asset} parameters={parameters} />
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default AssetComparison;
@@ -0,0 +1,203 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { Download, FlaskConical, RotateCcw, Upload } from 'lucide-react';
+import { OrderBookRecorder, RecordedBook, parseNDJSON } from '@/lib/recorder';
+import { getSlippageModel, loadSlippageModel } from '@/lib/marketModels';
+import { SlippageModel, calibrateSlippageModel, parseSlippageModel } from '@/lib/slippageCalibration';
+
+const STORAGE_KEY = 'goquant-slippage-model';
+
+const fits: { value: string; label: string }[] = [
+  { value: 'linear', label: 'Linear (mean)' },
+  { value: 'q50', label: 'Quantile 50%' },
+  { value: 'q90', label: 'Quantile 90%' },
+  { value: 'q95', label: 'Quantile 95%' }
+];
+
+/**
+ * Fits the slippage regression on recorded books and swaps it into the cost
+ * model. The active coefficients persist in localStorage and can be exported or
+ * loaded as JSON, e.g. from the calibrate-slippage script.
+ */
+const CalibrationPanel: React.FC = () => {
+  const recordingInputRef = useRef<HTMLInputElement>(null);
+  const modelInputRef = useRef<HTMLInputElement>(null);
+  const [fit, setFit] = useState('linear');
+  const [model, setModel] = useState<SlippageModel | null>(getSlippageModel());
+  const [isFitting, setIsFitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const activate = (next: SlippageModel | null) => {
+    loadSlippageModel(next);
+    setModel(next);
+    if (next) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  };
+
+  // Restore the last model on load
+  useEffect(() => {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored || getSlippageModel()) return;
+    try {
+      const restored = parseSlippageModel(JSON.parse(stored));
+      loadSlippageModel(restored);
+      setModel(restored);
+    } catch {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  }, []);
+
+  const calibrate = (records: RecordedBook[]) => {
+    setError(null);
+    setIsFitting(true);
+    // Let the button state render before the fit blocks the main thread
+    setTimeout(() => {
+      try {
+        const quantile = fit === 'linear' ? undefined : parseInt(fit.slice(1), 10) / 100;
+        activate(calibrateSlippageModel(records, { kind: quantile ? 'quantile' : 'linear', quantile }));
+      } catch (fitError) {
+        setError(fitError instanceof Error ? fitError.message : 'Calibration failed');
+      } finally {
+        setIsFitting(false);
+      }
+    }, 0);
+  };
+
+  const calibrateLastSession = async () => {
+    try {
+      const recorder = new OrderBookRecorder();
+      const [latest] = await recorder.listSessions();
+      const records = latest ? await recorder.loadSession(latest.sessionId) : [];
+      if (records.length === 0) {
+        setError('Record a session in the data source panel first');
+        return;
+      }
+      calibrate(records);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load recording');
+    }
+  };
+
+  const readFile = async (event: React.ChangeEvent<HTMLInputElement>): Promise<string | null> => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    return file ? file.text() : null;
+  };
+
+  const handleRecordingFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    try {
+      const text = await readFile(event);
+      if (text) calibrate(parseNDJSON(text));
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to read recording');
+    }
+  };
+
+  const handleModelFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    try {
+      const text = await readFile(event);
+      if (text) {
+        setError(null);
+        activate(parseSlippageModel(JSON.parse(text)));
+      }
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to read model');
+    }
+  };
+
+  const exportModel = () => {
+    if (!model) return;
+
+    const blob = new Blob([JSON.stringify(model, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${model.version}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="parameter-group space-y-3">
+      <Label className="parameter-label">Slippage Calibration</Label>
+
+      <div className="flex items-center gap-2">
+        <Select value={fit} onValueChange={setFit}>
+          <SelectTrigger className="w-36">
+            <SelectValue placeholder="Fit" />
+          </SelectTrigger>
+          <SelectContent>
+            {fits.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button size="sm" variant="outline" onClick={calibrateLastSession} disabled={isFitting}>
+          <FlaskConical className="h-4 w-4 mr-2" />
+          {isFitting ? 'Fitting...' : 'Fit last'}
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant="outline" onClick={() => recordingInputRef.current?.click()} disabled={isFitting}>
+          <Upload className="h-4 w-4 mr-2" />
+          Fit file
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => modelInputRef.current?.click()}>
+          <Upload className="h-4 w-4 mr-2" />
+          Load model
+        </Button>
+        <Button size="sm" variant="outline" onClick={exportModel} disabled={!model}>
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+        <Button size="icon" variant="outline" onClick={() => activate(null)} disabled={!model}>
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+        <input
+          ref={recordingInputRef}
+          type="file"
+          accept=".ndjson,.jsonl,application/x-ndjson"
+          className="hidden"
+          onChange={handleRecordingFile}
+        />
+        <input
+          ref={modelInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={handleModelFile}
+        />
+      </div>
+
+      {model ? (
+        <div className="text-xs text-muted-foreground space-y-1">
+          <div className="font-mono text-foreground break-all">{model.version}</div>
+          <div className="font-mono">
+            {`R² ${model.stats.r2.toFixed(3)} · adj. ${model.stats.adjustedR2.toFixed(3)} · RMSE ${model.stats.rmse.toFixed(4)}% · n=${model.stats.observations}`}
+          </div>
+          <div>{`Trained on ${model.training.books} books of ${model.training.symbols.join(', ')}`}</div>
+          {model.excludedFeatures.length > 0 && (
+            <div>{`Constant in training data: ${model.excludedFeatures.join(', ')}`}</div>
+          )}
+        </div>
+      ) : (
+        <div className="text-xs text-muted-foreground">Using the uncalibrated heuristic</div>
+      )}
+      {error && <div className="text-xs text-negative">{error}</div>}
+    </div>
+  );
+};
+
+export default CalibrationPanel;
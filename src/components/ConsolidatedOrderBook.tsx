@@ -0,0 +1,132 @@
+import React, { useMemo, useState } from 'react';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { SimulationParameters } from '@/lib/types';
+import { getFeedAdapter } from '@/lib/feedAdapters';
+import { BookSide } from '@/lib/orderBook';
+import { routingExchanges } from '@/lib/smartRouter';
+import { ConsolidatedBookLevel, bucketSizesFor, consolidateLadder } from '@/lib/consolidatedBook';
+import { useVenueBooks } from '@/hooks/use-venue-books';
+
+interface ConsolidatedOrderBookProps {
+  parameters: SimulationParameters;
+}
+
+const venueColors = ['#3b82f6', '#f59e0b', '#a855f7', '#14b8a6'];
+const displayLimit = 12;
+
+const formatPrice = (value: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 6 });
+
+const formatAmount = (value: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 4, maximumFractionDigits: 4 });
+
+/**
+ * One price-sorted ladder across every venue's book for the instrument, read
+ * from the shared connection pool, with each venue's share of a level drawn as
+ * a colored segment and crossed levels marked.
+ */
+const ConsolidatedOrderBook: React.FC<ConsolidatedOrderBookProps> = ({ parameters }) => {
+  const exchanges = useMemo(() => routingExchanges(parameters.exchange), [parameters.exchange]);
+  const { books } = useVenueBooks(parameters.asset, exchanges);
+  // Index into the bucket sizes for the current price, so the choice survives switching assets
+  const [bucket, setBucket] = useState<string>('raw');
+
+  const ready = useMemo(
+    () => exchanges.filter((exchange) => books.get(exchange)?.isReady()).map((exchange) => ({ exchange, book: books.get(exchange)! })),
+    [books, exchanges]
+  );
+  const bucketSizes = useMemo(() => bucketSizesFor(ready[0]?.book.midPrice() ?? 0), [ready]);
+  const bucketSize = bucket === 'raw' ? 0 : bucketSizes[Number(bucket)] ?? 0;
+  const ladder = useMemo(() => consolidateLadder(ready, bucketSize, displayLimit), [ready, bucketSize]);
+
+  if (ready.length === 0) {
+    return <div className="text-center text-muted-foreground py-4">Waiting for venue order books...</div>;
+  }
+
+  const colorOf = (exchange: string) => venueColors[exchanges.indexOf(exchange) % venueColors.length];
+  const largest = Math.max(...ladder.bids.map((level) => level.size), ...ladder.asks.map((level) => level.size));
+
+  const renderSide = (levels: ConsolidatedBookLevel[], side: BookSide) => (
+    <div>
+      <div className="text-sm font-medium mb-1">{side === 'asks' ? 'Asks (Sell Orders)' : 'Bids (Buy Orders)'}</div>
+      <Table className="w-full">
+        <TableHeader>
+          <TableRow>
+            <TableHead className={`text-left ${side === 'asks' ? 'text-negative' : 'text-positive'}`}>Price</TableHead>
+            <TableHead className="text-left">Venues</TableHead>
+            <TableHead className="text-right">Amount</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {levels.map((level) => (
+            <TableRow key={`${side}-${level.price}`} className={level.crossed ? 'bg-neutral/10' : ''}>
+              <TableCell className={`py-1 text-left font-mono ${side === 'asks' ? 'text-negative' : 'text-positive'}`}>
+                {formatPrice(level.price)}
+                {level.crossed && <span className="ml-1 text-xs text-neutral" title="Crosses another venue's touch">ARB</span>}
+              </TableCell>
+              <TableCell className="py-1 w-1/3">
+                <div className="flex h-2" style={{ width: `${largest > 0 ? (level.size / largest) * 100 : 0}%` }}>
+                  {level.contributions.filter((contribution) => contribution.size > 0).map((contribution) => (
+                    <div
+                      key={contribution.exchange}
+                      title={`${getFeedAdapter(contribution.exchange).label}: ${formatAmount(contribution.size)}`}
+                      style={{ width: `${(contribution.size / level.size) * 100}%`, backgroundColor: colorOf(contribution.exchange) }}
+                    />
+                  ))}
+                </div>
+              </TableCell>
+              <TableCell className="py-1 text-right font-mono">{formatAmount(level.size)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <div className="flex items-center gap-3">
+          <div className="text-sm font-medium">Consolidated</div>
+          {exchanges.map((exchange) => (
+            <span key={exchange} className={`flex items-center text-xs ${books.get(exchange)?.isReady() ? '' : 'text-muted-foreground'}`}>
+              <span className="inline-block h-2 w-2 mr-1 rounded-sm" style={{ backgroundColor: colorOf(exchange) }} />
+              {getFeedAdapter(exchange).label}
+            </span>
+          ))}
+        </div>
+        <Select value={bucket} onValueChange={setBucket}>
+          <SelectTrigger className="w-32 h-8 text-xs">
+            <SelectValue placeholder="Bucket" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="raw">Raw prices</SelectItem>
+            {bucketSizes.map((size, index) => (
+              <SelectItem key={size} value={String(index)}>{size}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {renderSide(ladder.asks, 'asks')}
+        {renderSide(ladder.bids, 'bids')}
+      </div>
+
+      {ladder.arbitrage.map((opportunity) => (
+        <div key={`${opportunity.bidExchange}-${opportunity.askExchange}`} className="text-xs text-neutral">
+          {`${getFeedAdapter(opportunity.bidExchange).label} bid ${formatPrice(opportunity.bid)} is above ${getFeedAdapter(opportunity.askExchange).label} ask ${formatPrice(opportunity.ask)}: ${opportunity.spreadBps.toFixed(2)} bps on ${formatAmount(opportunity.size)} before fees`}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ConsolidatedOrderBook;
@@ -0,0 +1,197 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { Circle, Download, Square, StepForward, RotateCcw, Radio, Upload, History } from 'lucide-react';
+import { marketDataPool } from '@/lib/connectionPool';
+import { OrderBookRecorder, RecordedBook, parseNDJSON } from '@/lib/recorder';
+import { OrderBookReplay, ReplaySpeed } from '@/lib/replay';
+
+export type DataSourceMode = 'live' | 'replay';
+
+interface DataSourcePanelProps {
+  onModeChange: (mode: DataSourceMode) => void;
+}
+
+const speeds: { value: string; label: string }[] = [
+  { value: '1', label: '1x' },
+  { value: '2', label: '2x' },
+  { value: '5', label: '5x' },
+  { value: '10', label: '10x' },
+  { value: '50', label: '50x' },
+  { value: 'step', label: 'Step' }
+];
+
+const parseSpeed = (value: string): ReplaySpeed => (value === 'step' ? 'step' : parseFloat(value));
+
+/**
+ * Records the live feed and replays recordings through the shared connection
+ * pool, so every panel sees replayed books exactly as it would live ones.
+ */
+const DataSourcePanel: React.FC<DataSourcePanelProps> = ({ onModeChange }) => {
+  const recorderRef = useRef(new OrderBookRecorder());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordCount, setRecordCount] = useState(0);
+  const [replay, setReplay] = useState<OrderBookReplay | null>(null);
+  const [speed, setSpeed] = useState('1');
+  const [progress, setProgress] = useState({ position: 0, total: 0 });
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const recorder = recorderRef.current;
+    const removeTap = marketDataPool.addTap((source, message) => recorder.record(source, message));
+    return () => {
+      removeTap();
+      recorder.stop();
+    };
+  }, []);
+
+  // Poll counters rather than re-rendering on every message
+  useEffect(() => {
+    if (!isRecording && !replay) return;
+
+    const timer = setInterval(() => {
+      setRecordCount(recorderRef.current.getRecords().length);
+      if (replay) setProgress(replay.getProgress());
+    }, 250);
+    return () => clearInterval(timer);
+  }, [isRecording, replay]);
+
+  const toggleRecording = () => {
+    const recorder = recorderRef.current;
+    if (recorder.isRecording()) {
+      recorder.stop();
+      setIsRecording(false);
+    } else {
+      recorder.start();
+      setIsRecording(true);
+    }
+    setRecordCount(recorder.getRecords().length);
+  };
+
+  const startReplay = (records: RecordedBook[]) => {
+    if (recorderRef.current.isRecording()) toggleRecording();
+
+    setLoadError(null);
+    const handle = marketDataPool.startReplay(records, parseSpeed(speed));
+    setReplay(handle);
+    setProgress(handle.getProgress());
+    onModeChange('replay');
+  };
+
+  const stopReplay = () => {
+    marketDataPool.stopReplay();
+    setReplay(null);
+    onModeChange('live');
+  };
+
+  const replayLastSession = async () => {
+    const recorder = recorderRef.current;
+    try {
+      let records = recorder.getRecords();
+      if (records.length === 0) {
+        const [latest] = await recorder.listSessions();
+        records = latest ? await recorder.loadSession(latest.sessionId) : [];
+      }
+      if (records.length === 0) {
+        setLoadError('No recording available yet');
+        return;
+      }
+      startReplay(records);
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'Failed to load recording');
+    }
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      startReplay(parseNDJSON(await file.text()));
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'Failed to read recording');
+    }
+  };
+
+  const handleSpeedChange = (value: string) => {
+    setSpeed(value);
+    replay?.setSpeed(parseSpeed(value));
+  };
+
+  return (
+    <div className="parameter-group space-y-3">
+      <Label className="parameter-label">Data Source</Label>
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant={isRecording ? 'destructive' : 'outline'} onClick={toggleRecording} disabled={!!replay}>
+          {isRecording ? <Square className="h-4 w-4 mr-2" /> : <Circle className="h-4 w-4 mr-2 text-negative" />}
+          {isRecording ? 'Stop' : 'Record'}
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => recorderRef.current.download()} disabled={recordCount === 0}>
+          <Download className="h-4 w-4 mr-2" />
+          NDJSON
+        </Button>
+        <span className="text-xs text-muted-foreground self-center font-mono">{recordCount} books</span>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant="outline" onClick={replayLastSession}>
+          <History className="h-4 w-4 mr-2" />
+          Replay last
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="h-4 w-4 mr-2" />
+          Load file
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".ndjson,.jsonl,application/x-ndjson"
+          className="hidden"
+          onChange={handleFile}
+        />
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Select value={speed} onValueChange={handleSpeedChange}>
+          <SelectTrigger className="w-24">
+            <SelectValue placeholder="Speed" />
+          </SelectTrigger>
+          <SelectContent>
+            {speeds.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button size="icon" variant="outline" onClick={() => replay?.step()} disabled={!replay || speed !== 'step'}>
+          <StepForward className="h-4 w-4" />
+        </Button>
+        <Button size="icon" variant="outline" onClick={() => replay?.restart()} disabled={!replay}>
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+        <Button size="sm" variant="outline" onClick={stopReplay} disabled={!replay}>
+          <Radio className="h-4 w-4 mr-2" />
+          Live
+        </Button>
+      </div>
+
+      <div className="text-xs text-muted-foreground">
+        {replay
+          ? `Replaying ${progress.position} / ${progress.total} books`
+          : isRecording ? 'Recording live feed' : 'Live feed'}
+      </div>
+      {loadError && <div className="text-xs text-negative">{loadError}</div>}
+    </div>
+  );
+};
+
+export default DataSourcePanel;
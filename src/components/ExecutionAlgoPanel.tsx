@@ -0,0 +1,347 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from '@/components/ui/table';
+import { History, Play, Square, Upload } from 'lucide-react';
+import { SimulationParameters } from '@/lib/types';
+import { useOrderBook } from '@/hooks/use-order-book';
+import { marketDataPool } from '@/lib/connectionPool';
+import { OrderBookRecorder, RecordedBook, parseNDJSON } from '@/lib/recorder';
+import {
+  AlgoConfig,
+  AlgoExecutionReport,
+  ExecutionAlgoEngine,
+  ExecutionAlgorithm,
+  executionAlgorithms,
+  runExecutionAlgo
+} from '@/lib/executionAlgos';
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend
+} from 'recharts';
+
+interface ExecutionAlgoPanelProps {
+  parameters: SimulationParameters;
+  /** Called with every new report, and with null when it is cleared */
+  onReport: (report: AlgoExecutionReport | null) => void;
+}
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 2 });
+
+const formatSeconds = (seconds: number) =>
+  seconds < 120 ? `${seconds.toFixed(1)} s` : `${(seconds / 60).toFixed(1)} min`;
+
+/**
+ * Works the current order through TWAP, VWAP, POV or iceberg child orders,
+ * either in real time against the subscribed book (live or replayed) or
+ * instantly over a recording.
+ */
+const ExecutionAlgoPanel: React.FC<ExecutionAlgoPanelProps> = ({ parameters, onReport }) => {
+  const recordingInputRef = useRef<HTMLInputElement>(null);
+  const engineRef = useRef<ExecutionAlgoEngine | null>(null);
+  const [config, setConfig] = useState<AlgoConfig>({
+    algorithm: 'twap',
+    durationSeconds: 300,
+    slices: 20,
+    participationRate: 0.1,
+    displayQuantity: 1000
+  });
+  const [curveText, setCurveText] = useState('');
+  const [report, setReport] = useState<AlgoExecutionReport | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { book } = useOrderBook(parameters.asset, parameters.exchange);
+  const onReportRef = useRef(onReport);
+  onReportRef.current = onReport;
+
+  const publish = (next: AlgoExecutionReport | null) => {
+    setReport(next);
+    onReportRef.current(next);
+  };
+
+  const effectiveConfig = (): AlgoConfig => {
+    const curve = curveText.split(',').map((weight) => parseFloat(weight)).filter((weight) => weight >= 0);
+    return { ...config, volumeCurve: curve.length > 0 ? curve : undefined };
+  };
+
+  const order = { side: parameters.side, quantity: parameters.quantity };
+
+  // A different instrument invalidates a running algorithm and the last report;
+  // declared first so the subscription below never sees the old engine
+  useEffect(() => {
+    engineRef.current = null;
+    setIsRunning(false);
+    setReport(null);
+  }, [parameters.asset, parameters.exchange]);
+
+  // Feed every book update, live or replayed, to the running algorithm
+  useEffect(() => {
+    const engine = engineRef.current;
+    if (!isRunning || !engine) return;
+
+    return marketDataPool.subscribe(parameters.exchange, parameters.asset, {
+      onBook: (liveBook) => {
+        engine.onBook(liveBook, Date.now());
+        const next = engine.report();
+        setReport(next);
+        onReportRef.current(next);
+        if (engine.isDone()) {
+          engineRef.current = null;
+          setIsRunning(false);
+        }
+      }
+    });
+  }, [isRunning, parameters.asset, parameters.exchange]);
+
+  const startLive = () => {
+    setError(null);
+    engineRef.current = new ExecutionAlgoEngine(effectiveConfig(), order);
+    publish(null);
+    setIsRunning(true);
+  };
+
+  const stopLive = () => {
+    engineRef.current = null;
+    setIsRunning(false);
+  };
+
+  const backtest = (records: RecordedBook[]) => {
+    try {
+      setError(null);
+      publish(runExecutionAlgo(records, parameters.asset, effectiveConfig(), order));
+    } catch (runError) {
+      setError(runError instanceof Error ? runError.message : 'Backtest failed');
+    }
+  };
+
+  const backtestLastSession = async () => {
+    try {
+      const recorder = new OrderBookRecorder();
+      const [latest] = await recorder.listSessions();
+      const records = latest ? await recorder.loadSession(latest.sessionId) : [];
+      if (records.length === 0) {
+        setError('Record a session in the data source panel first');
+        return;
+      }
+      backtest(records);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load recording');
+    }
+  };
+
+  const handleRecordingFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      backtest(parseNDJSON(await file.text()));
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to read recording');
+    }
+  };
+
+  const update = <K extends keyof AlgoConfig>(key: K, value: AlgoConfig[K]) =>
+    setConfig((previous) => ({ ...previous, [key]: value }));
+
+  const sliceData = report?.slices.map((slice) => ({
+    time: slice.executedAt,
+    filled: slice.filledQuantity,
+    slippage: slice.slippage
+  })) ?? [];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Algorithm</Label>
+          <Select value={config.algorithm} onValueChange={(value: ExecutionAlgorithm) => update('algorithm', value)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select Algorithm" />
+            </SelectTrigger>
+            <SelectContent>
+              {executionAlgorithms.map((algorithm) => (
+                <SelectItem key={algorithm.id} value={algorithm.id}>{algorithm.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Duration (s)</Label>
+          <Input
+            type="number"
+            min={1}
+            value={config.durationSeconds}
+            onChange={(e) => update('durationSeconds', Math.max(1, parseFloat(e.target.value) || 1))}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">{config.algorithm === 'pov' ? 'Evaluations' : 'Slices'}</Label>
+          <Input
+            type="number"
+            min={1}
+            step={1}
+            value={config.slices}
+            disabled={config.algorithm === 'iceberg'}
+            onChange={(e) => update('slices', Math.max(1, parseInt(e.target.value, 10) || 1))}
+          />
+        </div>
+        {config.algorithm === 'pov' && (
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Participation (%)</Label>
+            <Input
+              type="number"
+              min={1}
+              max={99}
+              value={config.participationRate * 100}
+              onChange={(e) => update('participationRate', Math.min(99, Math.max(1, parseFloat(e.target.value) || 1)) / 100)}
+            />
+          </div>
+        )}
+        {config.algorithm === 'iceberg' && (
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Display (USD)</Label>
+            <Input
+              type="number"
+              min={1}
+              value={config.displayQuantity}
+              onChange={(e) => update('displayQuantity', Math.max(1, parseFloat(e.target.value) || 1))}
+            />
+          </div>
+        )}
+        {config.algorithm === 'vwap' && (
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Volume curve</Label>
+            <Input value={curveText} placeholder="UTC hourly curve" onChange={(e) => setCurveText(e.target.value)} />
+          </div>
+        )}
+      </div>
+
+      <div className="text-xs text-muted-foreground">
+        {executionAlgorithms.find((algorithm) => algorithm.id === config.algorithm)?.description}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {isRunning ? (
+          <Button size="sm" variant="outline" onClick={stopLive}>
+            <Square className="h-4 w-4 mr-2" />
+            Stop
+          </Button>
+        ) : (
+          <Button size="sm" variant="outline" onClick={startLive} disabled={!book?.isReady()}>
+            <Play className="h-4 w-4 mr-2" />
+            Run live
+          </Button>
+        )}
+        <Button size="sm" variant="outline" onClick={backtestLastSession} disabled={isRunning}>
+          <History className="h-4 w-4 mr-2" />
+          Last recording
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => recordingInputRef.current?.click()} disabled={isRunning}>
+          <Upload className="h-4 w-4 mr-2" />
+          Recording file
+        </Button>
+        <input
+          ref={recordingInputRef}
+          type="file"
+          accept=".ndjson,.jsonl,application/x-ndjson"
+          className="hidden"
+          onChange={handleRecordingFile}
+        />
+      </div>
+
+      {error && <div className="text-xs text-negative">{error}</div>}
+
+      {report && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="metric-card">
+              <div className="metric-title">Implementation Shortfall</div>
+              <div className="metric-value">{formatCurrency(report.implementationShortfall)}</div>
+              <div className="text-xs text-muted-foreground">{`${report.shortfallBps.toFixed(2)} bps vs arrival ${report.arrivalPrice.toLocaleString()}`}</div>
+            </div>
+            <div className="metric-card">
+              <div className="metric-title">Fill VWAP</div>
+              <div className="metric-value">{report.vwap.toSignificantDigits(8).toString()}</div>
+              <div className="text-xs text-muted-foreground">{`Market TWAP ${report.twap.toSignificantDigits(8).toString()}`}</div>
+            </div>
+            <div className="metric-card">
+              <div className="metric-title">Filled</div>
+              <div className="metric-value">{formatCurrency(report.filledQuantity)}</div>
+              <div className="text-xs text-muted-foreground">{`${report.slices.length} child orders`}</div>
+            </div>
+            <div className="metric-card">
+              <div className="metric-title">Completion</div>
+              <div className="metric-value">
+                {report.completionTime !== undefined ? formatSeconds(report.completionTime) : isRunning ? 'Running' : 'Incomplete'}
+              </div>
+              <div className="text-xs text-muted-foreground">{`${formatSeconds(report.elapsed)} elapsed`}</div>
+            </div>
+          </div>
+
+          <div className="h-56">
+            <h3 className="text-sm font-medium mb-2">Child Orders</h3>
+            <ResponsiveContainer width="100%" height="90%">
+              <ComposedChart data={sliceData} margin={{ top: 5, right: 20, bottom: 5, left: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#444" />
+                <XAxis dataKey="time" type="number" domain={[0, 'dataMax']} tickFormatter={(value) => `${Math.round(value)}s`} />
+                <YAxis yAxisId="filled" tickFormatter={(value) => `$${value.toFixed(0)}`} />
+                <YAxis yAxisId="slippage" orientation="right" tickFormatter={(value) => `${value.toFixed(3)}%`} />
+                <Tooltip labelFormatter={(label: number) => `${label.toFixed(1)} s`} />
+                <Legend />
+                <Bar yAxisId="filled" dataKey="filled" name="Filled (USD)" fill="#3b82f6" />
+                <Line yAxisId="slippage" type="monotone" dataKey="slippage" name="Slippage (%)" stroke="#f59e0b" dot={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="max-h-64 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="h-8 text-xs">#</TableHead>
+                  <TableHead className="h-8 text-xs text-right">Due</TableHead>
+                  <TableHead className="h-8 text-xs text-right">Sent</TableHead>
+                  <TableHead className="h-8 text-xs text-right">Filled</TableHead>
+                  <TableHead className="h-8 text-xs text-right">Avg price</TableHead>
+                  <TableHead className="h-8 text-xs text-right">Slippage</TableHead>
+                  <TableHead className="h-8 text-xs text-right">vs arrival</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.slices.map((slice) => (
+                  <TableRow key={slice.index}>
+                    <TableCell className="py-1 text-xs font-mono">{slice.index + 1}</TableCell>
+                    <TableCell className="py-1 text-xs font-mono text-right">{`${slice.scheduledAt.toFixed(1)}s`}</TableCell>
+                    <TableCell className="py-1 text-xs font-mono text-right">{formatCurrency(slice.quantity)}</TableCell>
+                    <TableCell className="py-1 text-xs font-mono text-right">{formatCurrency(slice.filledQuantity)}</TableCell>
+                    <TableCell className="py-1 text-xs font-mono text-right">{slice.averagePrice.toLocaleString()}</TableCell>
+                    <TableCell className="py-1 text-xs font-mono text-right">{`${slice.slippage.toFixed(4)}%`}</TableCell>
+                    <TableCell className="py-1 text-xs font-mono text-right">{`${slice.shortfall.toFixed(4)}%`}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ExecutionAlgoPanel;
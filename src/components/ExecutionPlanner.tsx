@@ -0,0 +1,209 @@
+import React, { useMemo, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { OrderBookData, SimulationParameters } from '@/lib/types';
+import {
+  efficientFrontier,
+  estimateAlmgrenChrissParameters,
+  optimalTrajectory,
+  riskAversionPivot
+} from '@/lib/almgrenChriss';
+import {
+  ComposedChart,
+  LineChart,
+  Line,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceDot,
+  Legend
+} from 'recharts';
+
+interface ExecutionPlannerProps {
+  orderBookData: OrderBookData | null | undefined;
+  parameters: SimulationParameters;
+}
+
+const frontierPoints = 25;
+// Urgency is log10 of the risk aversion relative to the frontier pivot
+const urgencyRange = 3;
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 2 });
+
+/**
+ * Almgren-Chriss schedule for the current order: pick a horizon, slice count and
+ * risk aversion (or a point on the efficient frontier) and see the trajectory
+ * with its expected cost and risk.
+ */
+const ExecutionPlanner: React.FC<ExecutionPlannerProps> = ({ orderBookData, parameters }) => {
+  const [horizonMinutes, setHorizonMinutes] = useState(10);
+  const [slices, setSlices] = useState(20);
+  const [urgency, setUrgency] = useState(0);
+  const [etaOverride, setEtaOverride] = useState<number | undefined>(undefined);
+  const [gammaOverride, setGammaOverride] = useState<number | undefined>(undefined);
+
+  const model = useMemo(() => {
+    if (!orderBookData) return null;
+
+    const estimated = estimateAlmgrenChrissParameters(orderBookData, parameters.quantity, parameters.side, parameters.volatility);
+    if (estimated.quantity <= 0 || estimated.sigma <= 0) return null;
+
+    const inputs = {
+      ...estimated,
+      eta: etaOverride ?? estimated.eta,
+      gamma: gammaOverride ?? estimated.gamma,
+      horizon: horizonMinutes * 60,
+      slices,
+      riskAversion: 0
+    };
+
+    try {
+      const frontier = efficientFrontier(inputs, frontierPoints);
+      const plan = optimalTrajectory({ ...inputs, riskAversion: riskAversionPivot(inputs) * 10 ** urgency });
+      return { inputs, estimated, frontier, plan, error: null };
+    } catch (error) {
+      return { inputs, estimated, frontier: [], plan: null, error: error instanceof Error ? error.message : 'Invalid parameters' };
+    }
+  }, [orderBookData, parameters.quantity, parameters.side, parameters.volatility, horizonMinutes, slices, urgency, etaOverride, gammaOverride]);
+
+  if (!model) {
+    return (
+      <div className="flex items-center justify-center py-12 text-muted-foreground">
+        Waiting for order book...
+      </div>
+    );
+  }
+
+  const { inputs, estimated, frontier, plan, error } = model;
+  const notional = parameters.quantity;
+  const trajectoryData = plan?.trajectory.map((point) => ({
+    minute: point.time / 60,
+    holdings: point.holdings,
+    trade: point.trade
+  })) ?? [];
+
+  const selectFrontierPoint = (state: { activeTooltipIndex?: number } | null) => {
+    if (state?.activeTooltipIndex === undefined) return;
+    setUrgency(-urgencyRange + (2 * urgencyRange * state.activeTooltipIndex) / (frontierPoints - 1));
+  };
+
+  const parseOverride = (value: string) => (value === '' ? undefined : parseFloat(value));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Horizon (min)</Label>
+          <Input type="number" min={1} value={horizonMinutes} onChange={(e) => setHorizonMinutes(Math.max(1, parseFloat(e.target.value) || 1))} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Slices</Label>
+          <Input type="number" min={1} step={1} value={slices} onChange={(e) => setSlices(Math.max(1, parseInt(e.target.value, 10) || 1))} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Eta (temporary)</Label>
+          <Input
+            type="number"
+            step="any"
+            value={etaOverride ?? ''}
+            placeholder={estimated.eta.toPrecision(3)}
+            onChange={(e) => setEtaOverride(parseOverride(e.target.value))}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Gamma (permanent)</Label>
+          <Input
+            type="number"
+            step="any"
+            value={gammaOverride ?? ''}
+            placeholder={estimated.gamma.toPrecision(3)}
+            onChange={(e) => setGammaOverride(parseOverride(e.target.value))}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>Risk neutral (TWAP)</span>
+          <span className="font-mono">{`λ = ${plan ? plan.riskAversion.toExponential(2) : '-'}`}</span>
+          <span>Urgent</span>
+        </div>
+        <Slider
+          value={[urgency]}
+          min={-urgencyRange}
+          max={urgencyRange}
+          step={0.1}
+          onValueChange={(value) => setUrgency(value[0])}
+        />
+      </div>
+
+      {error || !plan ? (
+        <div className="text-sm text-negative">{error}</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="metric-card">
+              <div className="metric-title">Expected Cost</div>
+              <div className="metric-value">{formatCurrency(plan.expectedCost)}</div>
+              <div className="text-xs text-muted-foreground">{`${((plan.expectedCost / notional) * 10000).toFixed(2)} bps`}</div>
+            </div>
+            <div className="metric-card">
+              <div className="metric-title">Cost Std Dev</div>
+              <div className="metric-value">{formatCurrency(plan.stdDev)}</div>
+              <div className="text-xs text-muted-foreground">{`${((plan.stdDev / notional) * 10000).toFixed(2)} bps`}</div>
+            </div>
+            <div className="metric-card">
+              <div className="metric-title">Decay Time (1/κ)</div>
+              <div className="metric-value">
+                {plan.kappa > 0 ? `${(1 / plan.kappa / 60).toFixed(1)} min` : '∞'}
+              </div>
+              <div className="text-xs text-muted-foreground">{`${inputs.quantity.toFixed(4)} units over ${horizonMinutes} min`}</div>
+            </div>
+          </div>
+
+          <div className="h-56">
+            <h3 className="text-sm font-medium mb-2">Optimal Trajectory</h3>
+            <ResponsiveContainer width="100%" height="90%">
+              <ComposedChart data={trajectoryData} margin={{ top: 5, right: 20, bottom: 5, left: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#444" />
+                <XAxis dataKey="minute" type="number" domain={[0, horizonMinutes]} tickFormatter={(value) => `${value}m`} />
+                <YAxis tickFormatter={(value) => value.toPrecision(3)} />
+                <Tooltip
+                  formatter={(value: number, name: string) => [value.toFixed(6), name]}
+                  labelFormatter={(label: number) => `${label.toFixed(2)} min`}
+                />
+                <Legend />
+                <Bar dataKey="trade" name="Child order" fill="#3b82f6" />
+                <Line type="monotone" dataKey="holdings" name="Remaining" stroke="#10b981" dot={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="h-56">
+            <h3 className="text-sm font-medium mb-2">Efficient Frontier (click to choose)</h3>
+            <ResponsiveContainer width="100%" height="90%">
+              <LineChart data={frontier} margin={{ top: 5, right: 20, bottom: 5, left: 20 }} onClick={selectFrontierPoint}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#444" />
+                <XAxis dataKey="stdDev" type="number" domain={['dataMin', 'dataMax']} tickFormatter={(value) => `$${value.toFixed(2)}`} />
+                <YAxis dataKey="expectedCost" domain={['auto', 'auto']} tickFormatter={(value) => `$${value.toFixed(2)}`} />
+                <Tooltip
+                  formatter={(value: number) => formatCurrency(value)}
+                  labelFormatter={(label: number) => `Std dev ${formatCurrency(label)}`}
+                />
+                <Line type="monotone" dataKey="expectedCost" name="Expected cost" stroke="#f59e0b" dot={{ r: 2 }} />
+                <ReferenceDot x={plan.stdDev} y={plan.expectedCost} r={5} fill="#ef4444" stroke="none" />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ExecutionPlanner;
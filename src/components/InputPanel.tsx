@@ -1,5 +1,5 @@
 
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import { 
   Select, 
   SelectContent, 
@@ -8,29 +8,94 @@ import {
   SelectValue 
 } from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
-import { SimulationParameters } from '@/lib/types';
+import { ImpactModelId, MarginMode, SimulationParameters, TimeInForce, VolatilityEstimator } from '@/lib/types';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Button } from '@/components/ui/button';
+import { Download, RotateCcw, Upload } from 'lucide-react';
+import { feedAdapters, getFeedAdapter } from '@/lib/feedAdapters';
+import { assets, productTypeOf } from '@/lib/instruments';
+import { impactModels } from '@/lib/impactModels';
+import { discountToken, feeScheduleRegistry } from '@/lib/feeSchedules';
+import { marginRulesFor } from '@/lib/margin';
+import { VolatilityEstimate, annualizationBases, volatilityEstimators } from '@/lib/volatility';
 
 interface InputPanelProps {
   parameters: SimulationParameters;
   onParametersChange: (parameters: SimulationParameters) => void;
+  /** Estimates from the selected instrument's mid-price history, for auto volatility */
+  volatilityEstimates?: VolatilityEstimate[];
+  children?: React.ReactNode;
 }
 
-const InputPanel: React.FC<InputPanelProps> = ({ parameters, onParametersChange }) => {
-  const handleChange = (key: keyof SimulationParameters, value: string | number) => {
-    onParametersChange({
-      ...parameters,
-      [key]: value,
-    });
+const InputPanel: React.FC<InputPanelProps> = ({ parameters, onParametersChange, volatilityEstimates = [], children }) => {
+  const scheduleInputRef = useRef<HTMLInputElement>(null);
+  const [scheduleError, setScheduleError] = useState<string | null>(null);
+  // Bumped after imports so the tier list re-reads the registry
+  const [, setScheduleRevision] = useState(0);
+
+  const scheduleFor = (next: SimulationParameters) =>
+    feeScheduleRegistry.resolve(getFeedAdapter(next.exchange).venue, productTypeOf(next.asset));
+
+  const handleChange = (key: keyof SimulationParameters, value: string | number | boolean | undefined) => {
+    const next = { ...parameters, [key]: value };
+    // Keep the tier valid when the venue or product changes
+    const schedule = scheduleFor(next);
+    if (schedule && !schedule.tiers.some((tier) => tier.tier === next.feeTier)) {
+      next.feeTier = schedule.defaultTier;
+    }
+    // Likewise keep the leverage within the venue's cap
+    next.leverage = Math.min(next.leverage, marginRulesFor(getFeedAdapter(next.exchange).venue).maxLeverage);
+    onParametersChange(next);
+  };
+
+  const feeSchedule = scheduleFor(parameters);
+  const feeTiers = feeSchedule?.tiers.map((tier) => tier.tier) ?? [parameters.feeTier];
+  const feeToken = discountToken(feeSchedule);
+  const marginRules = marginRulesFor(getFeedAdapter(parameters.exchange).venue);
+  const autoVolatility = parameters.volatilityMode === 'auto';
+  const selectedEstimate = volatilityEstimates.find((estimate) => estimate.estimator === parameters.volatilityEstimator);
+  const volatility = autoVolatility && selectedEstimate ? selectedEstimate.daily : parameters.volatility;
+
+  const importSchedules = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      feeScheduleRegistry.import(JSON.parse(await file.text()));
+      setScheduleError(null);
+      setScheduleRevision((revision) => revision + 1);
+    } catch (importError) {
+      setScheduleError(importError instanceof Error ? importError.message : 'Failed to read fee schedules');
+    }
+  };
+
+  const exportSchedules = () => {
+    const blob = new Blob([JSON.stringify(feeScheduleRegistry.list(), null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'fee-schedules.json';
+    link.click();
+    URL.revokeObjectURL(url);
   };
 
-  const assets = ["BTC-USDT-SWAP", "ETH-USDT-SWAP", "SOL-USDT-SWAP", "BNB-USDT-SWAP"];
-  const feeTiers = ["VIP 0", "VIP 1", "VIP 2", "VIP 3", "VIP 4", "VIP 5"];
+  const resetSchedules = () => {
+    feeScheduleRegistry.reset();
+    setScheduleError(null);
+    setScheduleRevision((revision) => revision + 1);
+  };
+  const timesInForce: { value: TimeInForce; label: string }[] = [
+    { value: "GTC", label: "Good till cancelled" },
+    { value: "IOC", label: "Immediate or cancel" },
+    { value: "FOK", label: "Fill or kill" },
+    { value: "POST_ONLY", label: "Post only" }
+  ];
 
   return (
-    <Card className="h-full bg-darkCard border-darkBorder">
+    <Card className="min-h-full bg-darkCard border-darkBorder">
       <CardHeader>
         <CardTitle className="text-xl font-semibold">Input Parameters</CardTitle>
       </CardHeader>
@@ -38,7 +103,6 @@ const InputPanel: React.FC<InputPanelProps> = ({ parameters, onParametersChange
         <div className="parameter-group">
           <Label className="parameter-label">Exchange</Label>
           <Select 
-            disabled
             value={parameters.exchange} 
             onValueChange={(value) => handleChange("exchange", value)}
           >
@@ -46,7 +110,9 @@ const InputPanel: React.FC<InputPanelProps> = ({ parameters, onParametersChange
               <SelectValue placeholder="Select Exchange" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="OKX">OKX</SelectItem>
+              {feedAdapters.map((adapter) => (
+                <SelectItem key={adapter.id} value={adapter.id}>{adapter.label}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
@@ -68,6 +134,22 @@ const InputPanel: React.FC<InputPanelProps> = ({ parameters, onParametersChange
           </Select>
         </div>
         
+        <div className="parameter-group">
+          <Label className="parameter-label">Side</Label>
+          <Select 
+            value={parameters.side} 
+            onValueChange={(value: 'buy' | 'sell') => handleChange("side", value)}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select Side" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="buy">Buy</SelectItem>
+              <SelectItem value="sell">Sell</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        
         <div className="parameter-group">
           <Label className="parameter-label">Order Type</Label>
           <Select 
@@ -84,6 +166,50 @@ const InputPanel: React.FC<InputPanelProps> = ({ parameters, onParametersChange
           </Select>
         </div>
         
+        {parameters.orderType === "limit" && (
+          <>
+            <div className="parameter-group">
+              <Label className="parameter-label">Limit Price</Label>
+              <Input 
+                type="number" 
+                value={parameters.limitPrice ?? ""} 
+                placeholder={parameters.side === "buy" ? "Best bid" : "Best ask"}
+                onChange={(e) => handleChange("limitPrice", e.target.value === "" ? undefined : parseFloat(e.target.value))}
+                min={0}
+                step="any"
+              />
+            </div>
+            
+            <div className="parameter-group">
+              <Label className="parameter-label">Time in Force</Label>
+              <Select 
+                value={parameters.timeInForce} 
+                onValueChange={(value: TimeInForce) => handleChange("timeInForce", value)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select Time in Force" />
+                </SelectTrigger>
+                <SelectContent>
+                  {timesInForce.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            
+            <div className="parameter-group">
+              <Label className="parameter-label">Fill Horizon (s)</Label>
+              <Input 
+                type="number" 
+                value={parameters.fillHorizon} 
+                onChange={(e) => handleChange("fillHorizon", parseFloat(e.target.value))}
+                min={1}
+                step={1}
+              />
+            </div>
+          </>
+        )}
+        
         <div className="parameter-group">
           <Label className="parameter-label">Quantity (USD)</Label>
           <Input 
@@ -94,22 +220,185 @@ const InputPanel: React.FC<InputPanelProps> = ({ parameters, onParametersChange
             step={1}
           />
         </div>
-        
+
+        {productTypeOf(parameters.asset) === "perp" && (
+          <>
+            <div className="parameter-group">
+              <Label className="parameter-label">Holding Period (h)</Label>
+              <Input
+                type="number"
+                value={parameters.holdingPeriodHours}
+                onChange={(e) => handleChange("holdingPeriodHours", parseFloat(e.target.value))}
+                min={0}
+                step="any"
+              />
+            </div>
+
+            <div className="parameter-group">
+              <Label className="parameter-label">Funding Rate (%)</Label>
+              <Input
+                type="number"
+                value={parameters.fundingRate ?? ""}
+                placeholder="From feed"
+                onChange={(e) => handleChange("fundingRate", e.target.value === "" ? undefined : parseFloat(e.target.value))}
+                step="any"
+              />
+            </div>
+          </>
+        )}
+
+        {productTypeOf(parameters.asset) !== "spot" && (
+          <>
+            <div className="parameter-group">
+              <Label className="parameter-label">Leverage</Label>
+              <div className="flex items-center space-x-4">
+                <Slider
+                  value={[parameters.leverage]}
+                  min={1}
+                  max={marginRules.maxLeverage}
+                  step={1}
+                  onValueChange={(value) => handleChange("leverage", value[0])}
+                  className="flex-grow"
+                />
+                <span className="w-12 text-right font-mono">{`${parameters.leverage}x`}</span>
+              </div>
+            </div>
+
+            <div className="parameter-group">
+              <Label className="parameter-label">Margin Mode</Label>
+              <Select
+                value={parameters.marginMode}
+                onValueChange={(value: MarginMode) => handleChange("marginMode", value)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select Margin Mode" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="isolated">Isolated</SelectItem>
+                  <SelectItem value="cross">Cross</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="parameter-group">
+              <Label className="parameter-label">Account Equity (USD)</Label>
+              <Input
+                type="number"
+                value={parameters.accountEquity}
+                onChange={(e) => handleChange("accountEquity", parseFloat(e.target.value))}
+                min={0}
+                step="any"
+              />
+            </div>
+          </>
+        )}
+
         <div className="parameter-group">
-          <Label className="parameter-label">Volatility (%)</Label>
+          <div className="flex items-center justify-between">
+            <Label className="parameter-label">Volatility (%)</Label>
+            <div className="flex items-center space-x-2">
+              <span className="text-xs text-muted-foreground">Auto</span>
+              <Switch
+                checked={autoVolatility}
+                onCheckedChange={(checked) => handleChange("volatilityMode", checked ? 'auto' : 'manual')}
+              />
+            </div>
+          </div>
           <div className="flex items-center space-x-4">
             <Slider
-              value={[parameters.volatility]}
+              value={[volatility]}
               min={0.1}
               max={10}
               step={0.1}
+              disabled={autoVolatility}
               onValueChange={(value) => handleChange("volatility", value[0])}
               className="flex-grow"
             />
-            <span className="w-12 text-right font-mono">{parameters.volatility.toFixed(1)}</span>
+            <span className="w-12 text-right font-mono">{volatility.toFixed(autoVolatility ? 2 : 1)}</span>
           </div>
+          {autoVolatility && (
+            <div className="space-y-2 mt-2">
+              <div className="grid grid-cols-2 gap-2">
+                <Select
+                  value={parameters.volatilityEstimator}
+                  onValueChange={(value: VolatilityEstimator) => handleChange("volatilityEstimator", value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select Estimator" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {volatilityEstimators.map((estimator) => (
+                      <SelectItem key={estimator.id} value={estimator.id}>{estimator.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={String(parameters.annualizationDays)}
+                  onValueChange={(value) => handleChange("annualizationDays", Number(value))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Annualization" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {annualizationBases.map((basis) => (
+                      <SelectItem key={basis.days} value={String(basis.days)}>{basis.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {volatilityEstimates.length === 0 ? (
+                <div className="text-xs text-muted-foreground">Collecting mid-price history; using the manual value until then</div>
+              ) : (
+                <div className="space-y-1">
+                  {volatilityEstimates.map((estimate) => (
+                    <div
+                      key={estimate.estimator}
+                      className={`flex justify-between text-xs font-mono ${estimate.estimator === parameters.volatilityEstimator ? '' : 'text-muted-foreground'}`}
+                    >
+                      <span className="font-sans">{volatilityEstimators.find((estimator) => estimator.id === estimate.estimator)?.label}</span>
+                      <span>{`${estimate.daily.toFixed(2)}% daily · ${estimate.annualized.toFixed(1)}% annualized`}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
         </div>
         
+        <div className="parameter-group">
+          <Label className="parameter-label">Impact Model</Label>
+          <Select 
+            value={parameters.impactModel} 
+            onValueChange={(value: ImpactModelId) => handleChange("impactModel", value)}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select Impact Model" />
+            </SelectTrigger>
+            <SelectContent>
+              {impactModels.map((model) => (
+                <SelectItem key={model.id} value={model.id}>{model.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="text-xs text-muted-foreground mt-1">
+            {impactModels.find((model) => model.id === parameters.impactModel)?.description}
+          </div>
+        </div>
+        
+        {parameters.impactModel === "square-root" && (
+          <div className="parameter-group">
+            <Label className="parameter-label">ADV (USD)</Label>
+            <Input 
+              type="number" 
+              value={parameters.averageDailyVolume ?? ""} 
+              placeholder="Estimated from book depth"
+              onChange={(e) => handleChange("averageDailyVolume", e.target.value === "" ? undefined : parseFloat(e.target.value))}
+              min={0}
+              step="any"
+            />
+          </div>
+        )}
+        
         <div className="parameter-group">
           <Label className="parameter-label">Fee Tier</Label>
           <Select 
@@ -125,7 +414,44 @@ const InputPanel: React.FC<InputPanelProps> = ({ parameters, onParametersChange
               ))}
             </SelectContent>
           </Select>
+          <div className="text-xs text-muted-foreground mt-1">
+            {feeSchedule
+              ? `${feeSchedule.exchange} ${feeSchedule.product} schedule ${feeSchedule.version}, effective ${feeSchedule.effectiveFrom}`
+              : 'No schedule for this venue and product; falling back to OKX spot'}
+          </div>
+          {feeToken && (
+            <div className="flex items-center justify-between mt-2">
+              <span className="text-xs">{`Pay fees in ${feeToken}`}</span>
+              <Switch
+                checked={parameters.payFeesInToken ?? false}
+                onCheckedChange={(checked) => handleChange("payFeesInToken", checked)}
+              />
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2 mt-2">
+            <Button size="sm" variant="outline" onClick={() => scheduleInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+            <Button size="sm" variant="outline" onClick={exportSchedules}>
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </Button>
+            <Button size="icon" variant="outline" onClick={resetSchedules}>
+              <RotateCcw className="h-4 w-4" />
+            </Button>
+            <input
+              ref={scheduleInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={importSchedules}
+            />
+          </div>
+          {scheduleError && <div className="text-xs text-negative mt-1">{scheduleError}</div>}
         </div>
+        
+        {children}
       </CardContent>
     </Card>
   );
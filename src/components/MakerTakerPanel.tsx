@@ -0,0 +1,191 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Download, FlaskConical, RotateCcw, Upload } from 'lucide-react';
+import { OrderBookRecorder, RecordedBook, parseNDJSON } from '@/lib/recorder';
+import { getMakerTakerModel, loadMakerTakerModel } from '@/lib/marketModels';
+import { MakerTakerModel, calibrateMakerTakerModel, parseMakerTakerModel } from '@/lib/makerTakerClassifier';
+
+const STORAGE_KEY = 'goquant-maker-taker-model';
+
+/**
+ * Trains the maker/taker classifier on recorded books and swaps it into the fee
+ * model. Works like the slippage calibration: the active model persists in
+ * localStorage and can be exported or loaded as JSON.
+ */
+const MakerTakerPanel: React.FC = () => {
+  const recordingInputRef = useRef<HTMLInputElement>(null);
+  const modelInputRef = useRef<HTMLInputElement>(null);
+  const [horizonSeconds, setHorizonSeconds] = useState(60);
+  const [model, setModel] = useState<MakerTakerModel | null>(getMakerTakerModel());
+  const [isFitting, setIsFitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const activate = (next: MakerTakerModel | null) => {
+    loadMakerTakerModel(next);
+    setModel(next);
+    if (next) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  };
+
+  // Restore the last model on load
+  useEffect(() => {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored || getMakerTakerModel()) return;
+    try {
+      const restored = parseMakerTakerModel(JSON.parse(stored));
+      loadMakerTakerModel(restored);
+      setModel(restored);
+    } catch {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  }, []);
+
+  const fit = (records: RecordedBook[]) => {
+    setError(null);
+    setIsFitting(true);
+    // Let the button state render before the fit blocks the main thread
+    setTimeout(() => {
+      try {
+        activate(calibrateMakerTakerModel(records, { horizonSeconds }));
+      } catch (fitError) {
+        setError(fitError instanceof Error ? fitError.message : 'Training failed');
+      } finally {
+        setIsFitting(false);
+      }
+    }, 0);
+  };
+
+  const fitLastSession = async () => {
+    try {
+      const recorder = new OrderBookRecorder();
+      const [latest] = await recorder.listSessions();
+      const records = latest ? await recorder.loadSession(latest.sessionId) : [];
+      if (records.length === 0) {
+        setError('Record a session in the data source panel first');
+        return;
+      }
+      fit(records);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load recording');
+    }
+  };
+
+  const readFile = async (event: React.ChangeEvent<HTMLInputElement>): Promise<string | null> => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    return file ? file.text() : null;
+  };
+
+  const handleRecordingFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    try {
+      const text = await readFile(event);
+      if (text) fit(parseNDJSON(text));
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to read recording');
+    }
+  };
+
+  const handleModelFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    try {
+      const text = await readFile(event);
+      if (text) {
+        setError(null);
+        activate(parseMakerTakerModel(JSON.parse(text)));
+      }
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to read model');
+    }
+  };
+
+  const exportModel = () => {
+    if (!model) return;
+
+    const blob = new Blob([JSON.stringify(model, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${model.version}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const { training, holdout } = model?.stats ?? {};
+
+  return (
+    <div className="parameter-group space-y-3">
+      <Label className="parameter-label">Maker/Taker Classifier</Label>
+
+      <div className="flex items-center gap-2">
+        <Input
+          type="number"
+          min={1}
+          className="w-24"
+          value={horizonSeconds}
+          onChange={(e) => setHorizonSeconds(Math.max(1, parseFloat(e.target.value) || 1))}
+        />
+        <span className="text-xs text-muted-foreground">s to fill</span>
+        <Button size="sm" variant="outline" onClick={fitLastSession} disabled={isFitting}>
+          <FlaskConical className="h-4 w-4 mr-2" />
+          {isFitting ? 'Training...' : 'Train last'}
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant="outline" onClick={() => recordingInputRef.current?.click()} disabled={isFitting}>
+          <Upload className="h-4 w-4 mr-2" />
+          Train file
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => modelInputRef.current?.click()}>
+          <Upload className="h-4 w-4 mr-2" />
+          Load model
+        </Button>
+        <Button size="sm" variant="outline" onClick={exportModel} disabled={!model}>
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+        <Button size="icon" variant="outline" onClick={() => activate(null)} disabled={!model}>
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+        <input
+          ref={recordingInputRef}
+          type="file"
+          accept=".ndjson,.jsonl,application/x-ndjson"
+          className="hidden"
+          onChange={handleRecordingFile}
+        />
+        <input
+          ref={modelInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={handleModelFile}
+        />
+      </div>
+
+      {model && training ? (
+        <div className="text-xs text-muted-foreground space-y-1">
+          <div className="font-mono text-foreground break-all">{model.version}</div>
+          <div className="font-mono">
+            {`Train log loss ${training.logLoss.toFixed(3)} · acc. ${(training.accuracy * 100).toFixed(1)}% · n=${training.observations}`}
+          </div>
+          {holdout && (
+            <div className="font-mono">
+              {`Holdout log loss ${holdout.logLoss.toFixed(3)} · acc. ${(holdout.accuracy * 100).toFixed(1)}% · n=${holdout.observations}`}
+            </div>
+          )}
+          <div>{`Trained on ${model.training.books} books of ${model.training.symbols.join(', ')}`}</div>
+        </div>
+      ) : (
+        <div className="text-xs text-muted-foreground">Using hand-picked logistic weights</div>
+      )}
+      {error && <div className="text-xs text-negative">{error}</div>}
+    </div>
+  );
+};
+
+export default MakerTakerPanel;
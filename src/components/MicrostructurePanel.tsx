@@ -0,0 +1,112 @@
+import React, { useMemo, useState } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { MicrostructureSignals, TimeSeriesData } from '@/lib/types';
+
+interface MicrostructurePanelProps {
+  timeSeriesData: TimeSeriesData[];
+}
+
+type ChartedSignal = Exclude<keyof MicrostructureSignals, 'microprice'>;
+
+const signalInfo: { id: ChartedSignal; label: string; description: string; format: (value: number) => string }[] = [
+  {
+    id: 'ofi',
+    label: 'OFI',
+    description: 'Net buying at the touch since the previous book, in base units',
+    format: (value) => value.toFixed(4)
+  },
+  {
+    id: 'micropriceBps',
+    label: 'Microprice',
+    description: 'Size-weighted touch price relative to the mid, in bps',
+    format: (value) => `${value.toFixed(3)} bps`
+  },
+  {
+    id: 'weightedImbalance',
+    label: 'Imbalance',
+    description: 'Bid-minus-ask share of the first five levels, weighted towards the touch',
+    format: (value) => value.toFixed(3)
+  },
+  {
+    id: 'pressureSlope',
+    label: 'Pressure',
+    description: 'How much faster bid depth builds away from the mid than ask depth',
+    format: (value) => value.toFixed(3)
+  },
+  {
+    id: 'depthDecay',
+    label: 'Depth Decay',
+    description: 'Fitted κ in size ≈ A·exp(-κ·distance) over ten levels per side, per bps',
+    format: (value) => value.toFixed(4)
+  }
+];
+
+/**
+ * Order-flow imbalance, microprice, weighted imbalance, pressure slope and the
+ * depth-decay fit for the selected book, latest values and history.
+ */
+const MicrostructurePanel: React.FC<MicrostructurePanelProps> = ({ timeSeriesData }) => {
+  const [charted, setCharted] = useState<ChartedSignal>('ofi');
+
+  const history = useMemo(
+    () => timeSeriesData
+      .filter((point) => point.signals)
+      .map((point) => ({ time: point.timestamp.getTime(), ...point.signals! })),
+    [timeSeriesData]
+  );
+  const latest = history[history.length - 1];
+  const info = signalInfo.find((signal) => signal.id === charted)!;
+
+  if (!latest) {
+    return <div className="flex items-center justify-center py-12 text-muted-foreground">Waiting for order book...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {signalInfo.map((signal) => (
+          <div key={signal.id} className="metric-card">
+            <div className="metric-title">{signal.label}</div>
+            <div className="metric-value text-base">{signal.format(latest[signal.id])}</div>
+            {signal.id === 'micropriceBps' && (
+              <div className="text-xs text-muted-foreground">{latest.microprice.toLocaleString()}</div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <div className="text-xs text-muted-foreground">{info.description}</div>
+        <ToggleGroup type="single" value={charted} onValueChange={(value) => value && setCharted(value as ChartedSignal)}>
+          {signalInfo.map((signal) => (
+            <ToggleGroupItem key={signal.id} value={signal.id} size="sm" className="text-xs">{signal.label}</ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={history} margin={{ top: 5, right: 20, bottom: 5, left: 20 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#444" />
+            <XAxis
+              dataKey="time"
+              type="number"
+              domain={['dataMin', 'dataMax']}
+              tickFormatter={(value) => new Date(value).toLocaleTimeString()}
+            />
+            <YAxis tickFormatter={(value) => value.toPrecision(3)} />
+            <Tooltip
+              formatter={(value: number) => [info.format(value), info.label]}
+              labelFormatter={(label: number) => new Date(label).toLocaleTimeString()}
+            />
+            <ReferenceLine y={0} stroke="#666" />
+            <Line type="monotone" dataKey={charted} name={info.label} stroke="#3b82f6" dot={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default MicrostructurePanel;
@@ -1,28 +1,63 @@
 
 import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { SimulationResults, OrderBookData } from '@/lib/types';
+import { SimulationResults, OrderBookData, SimulationParameters, TimeSeriesData } from '@/lib/types';
 import { Progress } from '@/components/ui/progress';
-import { ArrowUpCircle, ArrowDownCircle, Clock, BarChart, Activity } from 'lucide-react';
+import { ArrowUpCircle, ArrowDownCircle, Clock, BarChart, Activity, Loader2, Layers, ListOrdered, Network, Receipt, Sigma, Timer, Waves } from 'lucide-react';
 import { Toggle } from '@/components/ui/toggle';
 import OrderBook from './OrderBook';
+import ConsolidatedOrderBook from './ConsolidatedOrderBook';
+import AssetComparison from './AssetComparison';
+import ExecutionPlanner from './ExecutionPlanner';
+import ExecutionAlgoPanel from './ExecutionAlgoPanel';
+import TcaPanel from './TcaPanel';
+import SmartRouterPanel from './SmartRouterPanel';
+import MicrostructurePanel from './MicrostructurePanel';
+import AnalyticsPanel from './AnalyticsPanel';
+import { almgrenChriss } from '@/lib/marketModels';
+import { AlgoExecutionReport } from '@/lib/executionAlgos';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from '@/components/ui/table';
 
 interface OutputPanelProps {
   results: SimulationResults;
   lastUpdated: string;
   isConnected: boolean;
   orderBookData?: OrderBookData | null;
+  switchingTo?: string | null;
+  parameters: SimulationParameters;
+  timeSeriesData: TimeSeriesData[];
+  algoReport: AlgoExecutionReport | null;
+  onAlgoReport: (report: AlgoExecutionReport | null) => void;
 }
 
+type OutputTab = 'simulation' | 'orderbook' | 'compare' | 'planner' | 'algos' | 'tca' | 'venues' | 'signals' | 'analytics';
+
+const tabTitles: Record<OutputTab, string> = {
+  simulation: 'Simulation Results',
+  orderbook: 'Order Book',
+  compare: 'Asset Comparison',
+  planner: 'Execution Planner',
+  algos: 'Execution Algorithms',
+  tca: 'Transaction Cost Analysis',
+  venues: 'Smart Order Routing',
+  signals: 'Microstructure Signals',
+  analytics: 'Market Analytics'
+};
+
 const OutputPanel: React.FC<OutputPanelProps> = ({ 
   results, 
   lastUpdated,
   isConnected,
-  orderBookData
+  orderBookData,
+  switchingTo,
+  parameters,
+  timeSeriesData,
+  algoReport,
+  onAlgoReport
 }) => {
   const [flashState, setFlashState] = useState<Record<string, boolean>>({});
-  const [activeTab, setActiveTab] = useState<'simulation' | 'orderbook'>('simulation');
+  const [activeTab, setActiveTab] = useState<OutputTab>('simulation');
   
   useEffect(() => {
     // Create flash effect when values update
@@ -60,14 +95,27 @@ const OutputPanel: React.FC<OutputPanelProps> = ({
     return `${value.toFixed(2)} ms`;
   };
   
+  const formatDuration = (seconds: number) => {
+    if (!Number.isFinite(seconds)) return 'Never';
+    if (seconds < 60) return `${seconds.toFixed(1)} s`;
+    if (seconds < 3600) return `${(seconds / 60).toFixed(1)} min`;
+    return `${(seconds / 3600).toFixed(1)} h`;
+  };
+  
+  const limitOrder = results.limitOrder;
+  const execution = results.execution;
+  const funding = results.funding;
+  const margin = results.margin;
+  const largestImpact = Math.max(0, ...(results.impactByModel ?? []).map((estimate) => estimate.impact));
+  
   return (
     <Card className="h-full bg-darkCard border-darkBorder">
       <CardHeader className="pb-2 flex flex-row items-center justify-between">
         <CardTitle className="text-xl font-semibold">
-          {activeTab === 'simulation' ? 'Simulation Results' : 'Order Book'}
+          {tabTitles[activeTab]}
         </CardTitle>
         <div className="flex items-center space-x-4">
-          <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as 'simulation' | 'orderbook')} className="w-auto">
+          <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as OutputTab)} className="w-auto">
             <TabsList className="bg-background border border-darkBorder">
               <TabsTrigger value="simulation" className="data-[state=active]:bg-muted">
                 <Activity className="h-4 w-4 mr-2" />
@@ -77,26 +125,64 @@ const OutputPanel: React.FC<OutputPanelProps> = ({
                 <BarChart className="h-4 w-4 mr-2" />
                 Order Book
               </TabsTrigger>
+              <TabsTrigger value="compare" className="data-[state=active]:bg-muted">
+                <Layers className="h-4 w-4 mr-2" />
+                Compare
+              </TabsTrigger>
+              <TabsTrigger value="planner" className="data-[state=active]:bg-muted">
+                <Timer className="h-4 w-4 mr-2" />
+                Planner
+              </TabsTrigger>
+              <TabsTrigger value="algos" className="data-[state=active]:bg-muted">
+                <ListOrdered className="h-4 w-4 mr-2" />
+                Algos
+              </TabsTrigger>
+              <TabsTrigger value="tca" className="data-[state=active]:bg-muted">
+                <Receipt className="h-4 w-4 mr-2" />
+                TCA
+              </TabsTrigger>
+              <TabsTrigger value="venues" className="data-[state=active]:bg-muted">
+                <Network className="h-4 w-4 mr-2" />
+                Venues
+              </TabsTrigger>
+              <TabsTrigger value="signals" className="data-[state=active]:bg-muted">
+                <Waves className="h-4 w-4 mr-2" />
+                Signals
+              </TabsTrigger>
+              <TabsTrigger value="analytics" className="data-[state=active]:bg-muted">
+                <Sigma className="h-4 w-4 mr-2" />
+                Analytics
+              </TabsTrigger>
             </TabsList>
           </Tabs>
-          <div className={`h-2 w-2 rounded-full ${isConnected ? 'bg-positive' : 'bg-negative'} animate-pulse-subtle`}></div>
+          <div className={`h-2 w-2 rounded-full ${switchingTo ? 'bg-neutral' : isConnected ? 'bg-positive' : 'bg-negative'} animate-pulse-subtle`}></div>
           <span className="text-xs text-muted-foreground">
-            {isConnected ? 'Connected' : 'Disconnected'}
+            {switchingTo ? 'Switching' : isConnected ? 'Connected' : 'Disconnected'}
           </span>
         </div>
       </CardHeader>
       <CardContent className="space-y-6">
-        {activeTab === 'simulation' ? (
+        {switchingTo ? (
+          <div className="flex items-center justify-center py-12 text-muted-foreground">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Switching to {switchingTo}, waiting for the first order book...
+          </div>
+        ) : activeTab === 'simulation' ? (
           <>
             <div className={`metric-card ${flashState.netCost ? 'data-updated' : ''}`}>
-              <div className="metric-title">Net Cost</div>
+              <div className="flex items-center justify-between">
+                <div className="metric-title">Net Cost</div>
+                <span className={`px-2 py-0.5 text-xs rounded-full font-semibold ${results.side === 'buy' ? 'bg-green-900/30 text-positive' : 'bg-red-900/30 text-negative'}`}>
+                  {results.side === 'buy' ? 'BUY' : 'SELL'}
+                </span>
+              </div>
               <div className="flex items-center">
                 <div className="metric-value text-2xl">
                   {formatCurrency(results.netCost)}
                 </div>
               </div>
               <div className="text-xs text-muted-foreground mt-1">
-                Total estimated cost for the transaction
+                {`Total estimated cost for the transaction (${results.side === 'buy' ? 'walking the asks' : 'walking the bids'})`}
               </div>
             </div>
             
@@ -110,13 +196,139 @@ const OutputPanel: React.FC<OutputPanelProps> = ({
                     <ArrowDownCircle className="h-4 w-4 text-positive ml-2" />
                   }
                 </div>
+                {execution && (
+                  <div className="text-xs text-muted-foreground mt-1">
+                    {`Book walk baseline: ${formatPercentage(execution.slippage)}`}
+                  </div>
+                )}
+                <div className="text-xs text-muted-foreground mt-1 truncate">
+                  {results.slippageModel ? `Model: ${results.slippageModel}` : 'Model: uncalibrated heuristic'}
+                </div>
               </div>
               
               <div className={`metric-card ${flashState.expectedFees ? 'data-updated' : ''}`}>
                 <div className="metric-title">Fees</div>
                 <div className="metric-value">{formatCurrency(results.expectedFees)}</div>
+                {results.feeQuote && (
+                  <div className="text-xs text-muted-foreground mt-1">
+                    {`${results.feeQuote.exchange} ${results.feeQuote.product} ${results.feeQuote.tier} · maker ${formatPercentage(results.feeQuote.maker * 100)} · taker ${formatPercentage(results.feeQuote.taker * 100)}`}
+                  </div>
+                )}
+                {results.feeQuote?.warning && (
+                  <div className="text-xs text-negative mt-1">{results.feeQuote.warning}</div>
+                )}
               </div>
             </div>
+
+            {funding && (
+              <div className={`metric-card ${flashState.expectedFunding ? 'data-updated' : ''}`}>
+                <div className="metric-title">Funding</div>
+                <div className={`metric-value ${results.expectedFunding > 0 ? 'text-negative' : 'text-positive'}`}>
+                  {formatCurrency(results.expectedFunding)}
+                </div>
+                <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs mt-2">
+                  <span className="text-muted-foreground">Current rate</span>
+                  <span className="text-right font-mono">{formatPercentage(funding.currentRate * 100)}</span>
+                  <span className="text-muted-foreground">Predicted rate</span>
+                  <span className="text-right font-mono">{formatPercentage(funding.predictedRate * 100)}</span>
+                  <span className="text-muted-foreground">Next funding</span>
+                  <span className="text-right font-mono">{new Date(funding.nextFundingTime).toLocaleTimeString()}</span>
+                  <span className="text-muted-foreground">Settlements</span>
+                  <span className="text-right font-mono">{`${funding.payments.length} in ${funding.holdingPeriodHours} h`}</span>
+                </div>
+                <div className="text-xs text-muted-foreground mt-2">
+                  {funding.source === 'none'
+                    ? 'No funding rate from the feed yet; enter one to include funding'
+                    : `${funding.source === 'feed' ? 'Feed rate' : 'Manual rate'} every ${funding.intervalHours} h · net cost includes funding`}
+                </div>
+              </div>
+            )}
+
+            {margin && (
+              <div className={`metric-card ${flashState.margin ? 'data-updated' : ''}`}>
+                <div className="flex items-center justify-between">
+                  <div className="metric-title">Margin</div>
+                  <span className="text-xs text-muted-foreground">{`${margin.leverage}x ${margin.marginMode}`}</span>
+                </div>
+                <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs mt-2">
+                  <span className="text-muted-foreground">Entry price</span>
+                  <span className="text-right font-mono">{margin.entryPrice.toLocaleString()}</span>
+                  <span className="text-muted-foreground">Initial margin</span>
+                  <span className="text-right font-mono">{formatCurrency(margin.initialMargin)}</span>
+                  <span className="text-muted-foreground">Maintenance margin</span>
+                  <span className="text-right font-mono">{`${formatCurrency(margin.maintenanceMargin)} (${formatPercentage(margin.maintenanceMarginRate * 100)})`}</span>
+                  <span className="text-muted-foreground">Liquidation price</span>
+                  <span className="text-right font-mono">{margin.liquidationPrice > 0 ? margin.liquidationPrice.toLocaleString() : 'None'}</span>
+                  <span className="text-muted-foreground">Distance to liquidation</span>
+                  <span className={`text-right font-mono ${margin.warnings.length > 0 ? 'text-negative' : ''}`}>
+                    {Number.isFinite(margin.distanceToLiquidation) ? formatPercentage(margin.distanceToLiquidation) : 'n/a'}
+                  </span>
+                </div>
+                {margin.warnings.map((warning) => (
+                  <div key={warning} className="text-xs text-negative mt-1">{warning}</div>
+                ))}
+              </div>
+            )}
+
+            {results.vwap && results.twap && (
+              <div className={`metric-card ${flashState.vwap ? 'data-updated' : ''}`}>
+                <div className="metric-title">Execution Algorithm</div>
+                <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                  <span className="text-muted-foreground">Fill VWAP</span>
+                  <span className="text-right font-mono">{results.vwap.toSignificantDigits(8).toString()}</span>
+                  <span className="text-muted-foreground">Market TWAP</span>
+                  <span className="text-right font-mono">{results.twap.toSignificantDigits(8).toString()}</span>
+                  <span className="text-muted-foreground">VWAP vs TWAP</span>
+                  <span className="text-right font-mono">
+                    {results.twap.isZero() ? '-' : `${results.vwap.minus(results.twap).div(results.twap).mul(10000).toFixed(2)} bps`}
+                  </span>
+                </div>
+                <div className="text-xs text-muted-foreground mt-2">From the last run in the Algos tab</div>
+              </div>
+            )}
+
+            {execution && execution.requestedQuantity > 0 && (
+              <div className={`metric-card ${flashState.execution ? 'data-updated' : ''}`}>
+                <div className="metric-title">Book Walk</div>
+                <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                  <span className="text-muted-foreground">Average price</span>
+                  <span className="text-right font-mono">{execution.averagePrice.toLocaleString()}</span>
+                  <span className="text-muted-foreground">Worst price</span>
+                  <span className="text-right font-mono">{execution.worstPrice.toLocaleString()}</span>
+                  <span className="text-muted-foreground">Levels consumed</span>
+                  <span className="text-right font-mono">{execution.levelsConsumed}</span>
+                  <span className="text-muted-foreground">Filled</span>
+                  <span className="text-right font-mono">{formatCurrency(execution.filledQuantity)}</span>
+                </div>
+                {execution.unfilledQuantity > 0 && (
+                  <div className="text-xs text-negative mt-2">
+                    {`Book too thin: ${formatCurrency(execution.unfilledQuantity)} of the order cannot be filled from visible depth`}
+                  </div>
+                )}
+                <div className="max-h-40 overflow-y-auto mt-2">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="h-8 text-xs">Level</TableHead>
+                        <TableHead className="h-8 text-xs text-right">Price</TableHead>
+                        <TableHead className="h-8 text-xs text-right">Size</TableHead>
+                        <TableHead className="h-8 text-xs text-right">Notional</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {execution.fills.map((fill, index) => (
+                        <TableRow key={fill.price}>
+                          <TableCell className="py-1 text-xs font-mono">{index + 1}</TableCell>
+                          <TableCell className="py-1 text-xs font-mono text-right">{fill.price.toLocaleString()}</TableCell>
+                          <TableCell className="py-1 text-xs font-mono text-right">{fill.size.toFixed(6)}</TableCell>
+                          <TableCell className="py-1 text-xs font-mono text-right">{formatCurrency(fill.notional)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
             
             <div className={`metric-card ${flashState.expectedMarketImpact ? 'data-updated' : ''}`}>
               <div className="metric-title">Market Impact</div>
@@ -124,8 +336,79 @@ const OutputPanel: React.FC<OutputPanelProps> = ({
               <div className="mt-2">
                 <Progress value={results.expectedMarketImpact * 10} className="h-2" />
               </div>
+              {parameters.impactModel === 'almgren-chriss' && (
+                <div className="text-xs text-muted-foreground mt-2">
+                  {results.impactParameters
+                    ? `Calibrated ${results.impactParameters.symbol} at ${new Date(results.impactParameters.calibratedAt).toLocaleTimeString()} · η ${results.impactParameters.eta.toExponential(2)} · γ ${results.impactParameters.gamma.toExponential(2)} · ${results.impactParameters.samples} samples, permanent from ${results.impactParameters.permanentSource}`
+                    : `Default constants · η ${almgrenChriss.eta} · γ ${almgrenChriss.gamma} (calibrating from live book)`}
+                </div>
+              )}
             </div>
             
+            {results.impactByModel && (
+              <div className={`metric-card ${flashState.impactByModel ? 'data-updated' : ''}`}>
+                <div className="metric-title">Impact by Model</div>
+                <div className="space-y-2 mt-2">
+                  {results.impactByModel.map((estimate) => {
+                    const selected = estimate.model === parameters.impactModel;
+                    return (
+                      <div key={estimate.model} className="text-xs">
+                        <div className="flex justify-between">
+                          <span className={selected ? 'font-semibold text-foreground' : 'text-muted-foreground'}>
+                            {estimate.label}{selected ? ' (selected)' : ''}
+                          </span>
+                          <span className="font-mono">
+                            {`${formatPercentage(estimate.impact)} · ${formatCurrency((estimate.impact / 100) * (results.limitOrder?.marketableQuantity ?? parameters.quantity))}`}
+                          </span>
+                        </div>
+                        <div className="relative h-1.5 bg-muted rounded-full mt-1">
+                          <div
+                            className={`absolute top-0 left-0 h-full rounded-full ${selected ? 'bg-chartBlue' : 'bg-neutral'}`}
+                            style={{ width: `${Math.min(100, largestImpact > 0 ? (estimate.impact / largestImpact) * 100 : 0)}%` }}
+                          ></div>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+            
+            {limitOrder && (
+              <div className={`metric-card ${flashState.limitOrder ? 'data-updated' : ''}`}>
+                <div className="flex items-center justify-between">
+                  <div className="metric-title">Limit Order</div>
+                  <span className="text-xs font-mono text-muted-foreground">
+                    {`${limitOrder.timeInForce} @ ${limitOrder.limitPrice.toLocaleString()}`}
+                  </span>
+                </div>
+                {limitOrder.rejectedReason ? (
+                  <div className="text-sm text-negative mt-1">{limitOrder.rejectedReason}</div>
+                ) : (
+                  <>
+                    <div className="metric-value">{`${(limitOrder.expectedFillRatio * 100).toFixed(1)}% expected fill`}</div>
+                    <div className="mt-2">
+                      <Progress value={limitOrder.expectedFillRatio * 100} className="h-2" />
+                    </div>
+                    <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs mt-2">
+                      <span className="text-muted-foreground">Marketable</span>
+                      <span className="text-right font-mono">{formatCurrency(limitOrder.marketableQuantity)}</span>
+                      <span className="text-muted-foreground">Resting</span>
+                      <span className="text-right font-mono">{formatCurrency(limitOrder.restingQuantity)}</span>
+                      <span className="text-muted-foreground">Queue ahead</span>
+                      <span className="text-right font-mono">{limitOrder.queueAhead.toFixed(4)}</span>
+                      <span className="text-muted-foreground">Resting fill probability</span>
+                      <span className="text-right font-mono">{`${(limitOrder.restingFillProbability * 100).toFixed(1)}%`}</span>
+                      <span className="text-muted-foreground">Expected time to fill</span>
+                      <span className="text-right font-mono">{formatDuration(limitOrder.expectedTimeToFill)}</span>
+                      <span className="text-muted-foreground">Adverse selection</span>
+                      <span className="text-right font-mono">{formatCurrency(limitOrder.adverseSelectionCost)}</span>
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+            
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className={`metric-card ${flashState.makerTakerProportion ? 'data-updated' : ''}`}>
                 <div className="metric-title">Maker/Taker Proportion</div>
@@ -143,6 +426,9 @@ const OutputPanel: React.FC<OutputPanelProps> = ({
                   <span>{`${Math.round((1 - results.makerTakerProportion) * 100)}%`}</span>
                   <span>{`${Math.round(results.makerTakerProportion * 100)}%`}</span>
                 </div>
+                <div className="text-xs text-muted-foreground mt-1 break-all">
+                  {`Fees blended at this split · ${results.makerTakerModel ?? 'hand-picked weights'}`}
+                </div>
               </div>
               
               <div className={`metric-card ${flashState.internalLatency ? 'data-updated' : ''}`}>
@@ -156,9 +442,35 @@ const OutputPanel: React.FC<OutputPanelProps> = ({
               </div>
             </div>
           </>
-        ) : (
-          orderBookData && <OrderBook data={orderBookData} />
-        )}
+        ) : activeTab === 'orderbook' ? (
+          <div className="space-y-6">
+            {orderBookData && <OrderBook data={orderBookData} />}
+            <ConsolidatedOrderBook parameters={parameters} />
+          </div>
+        ) : activeTab === 'compare' ? (
+          <AssetComparison parameters={parameters} />
+        ) : activeTab === 'planner' ? (
+          <ExecutionPlanner orderBookData={orderBookData} parameters={parameters} />
+        ) : activeTab === 'tca' ? (
+          <TcaPanel
+            parameters={parameters}
+            results={results}
+            orderBookData={orderBookData}
+            timeSeriesData={timeSeriesData}
+            algoReport={algoReport}
+          />
+        ) : activeTab === 'venues' ? (
+          <SmartRouterPanel parameters={parameters} />
+        ) : activeTab === 'signals' ? (
+          <MicrostructurePanel timeSeriesData={timeSeriesData} />
+        ) : activeTab === 'analytics' ? (
+          <AnalyticsPanel results={results} />
+        ) : null}
+        
+        {/* Kept mounted so a live run continues while other tabs are shown */}
+        <div className={activeTab === 'algos' && !switchingTo ? '' : 'hidden'}>
+          <ExecutionAlgoPanel parameters={parameters} onReport={onAlgoReport} />
+        </div>
         
         <div className="text-xs text-right text-muted-foreground">
           Last updated: {lastUpdated || "Never"}
@@ -0,0 +1,133 @@
+import React, { useMemo } from 'react';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from '@/components/ui/table';
+import { SimulationParameters } from '@/lib/types';
+import { getFeedAdapter } from '@/lib/feedAdapters';
+import { productTypeOf } from '@/lib/instruments';
+import { resolveFeeRates } from '@/lib/feeSchedules';
+import { RouterVenue, routeOrder, routingExchanges } from '@/lib/smartRouter';
+import { useVenueBooks } from '@/hooks/use-venue-books';
+
+interface SmartRouterPanelProps {
+  parameters: SimulationParameters;
+}
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2, maximumFractionDigits: 4 });
+
+/**
+ * Taker rate on a venue at the account's tier; venues without that tier fall
+ * back to their schedule's default tier
+ */
+const takerFeeFor = (exchange: string, parameters: SimulationParameters): number =>
+  resolveFeeRates({
+    exchange: getFeedAdapter(exchange).venue,
+    product: productTypeOf(parameters.asset),
+    payInToken: parameters.payFeesInToken
+  }, parameters.feeTier).taker;
+
+/**
+ * Splits the current order across every venue's book for the instrument at the
+ * lowest fee-inclusive cost, against executing it all on the selected venue.
+ */
+const SmartRouterPanel: React.FC<SmartRouterPanelProps> = ({ parameters }) => {
+  const exchanges = useMemo(() => routingExchanges(parameters.exchange), [parameters.exchange]);
+  const { books } = useVenueBooks(parameters.asset, exchanges);
+
+  const routing = useMemo(() => {
+    const venues: RouterVenue[] = exchanges
+      .filter((exchange) => books.get(exchange)?.isReady())
+      .map((exchange) => ({
+        exchange,
+        label: getFeedAdapter(exchange).label,
+        book: books.get(exchange)!,
+        takerFee: takerFeeFor(exchange, parameters)
+      }));
+    if (venues.length === 0) return null;
+    return { venues, result: routeOrder(venues, parameters.quantity, parameters.side, parameters.exchange) };
+  }, [books, exchanges, parameters]);
+
+  if (!routing) {
+    return (
+      <div className="flex items-center justify-center py-12 text-muted-foreground">
+        Waiting for venue order books...
+      </div>
+    );
+  }
+
+  const { venues, result } = routing;
+  const waiting = exchanges.filter((exchange) => !venues.some((venue) => venue.exchange === exchange));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="metric-card">
+          <div className="metric-title">Routed All-in Price</div>
+          <div className="metric-value">{result.allInPrice.toLocaleString()}</div>
+          <div className="text-xs text-muted-foreground">{`${formatCurrency(result.allInCost)} ${result.side === 'buy' ? 'spent' : 'received'} incl. fees`}</div>
+        </div>
+        <div className="metric-card">
+          <div className="metric-title">{`${result.baseline.label} Only`}</div>
+          <div className="metric-value">{result.baseline.allInPrice > 0 ? result.baseline.allInPrice.toLocaleString() : '-'}</div>
+          <div className="text-xs text-muted-foreground">
+            {result.baseline.unfilledQuantity > 0
+              ? `${formatCurrency(result.baseline.unfilledQuantity)} unfilled on this venue`
+              : `${result.baseline.levelsConsumed} levels consumed`}
+          </div>
+        </div>
+        <div className="metric-card">
+          <div className="metric-title">Savings</div>
+          <div className={`metric-value ${result.savings > 0 ? 'text-positive' : ''}`}>{formatCurrency(result.savings)}</div>
+          <div className="text-xs text-muted-foreground">{`${result.savingsBps.toFixed(2)} bps versus the selected venue`}</div>
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="h-8 text-xs">Venue</TableHead>
+            <TableHead className="h-8 text-xs text-right">Quantity</TableHead>
+            <TableHead className="h-8 text-xs text-right">Share</TableHead>
+            <TableHead className="h-8 text-xs text-right">Avg Price</TableHead>
+            <TableHead className="h-8 text-xs text-right">Taker Fee</TableHead>
+            <TableHead className="h-8 text-xs text-right">Fees</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {result.allocations.map((allocation) => {
+            const venue = venues.find((candidate) => candidate.exchange === allocation.exchange);
+            return (
+              <TableRow key={allocation.exchange}>
+                <TableCell className="py-1 text-xs">
+                  {allocation.label}
+                  {allocation.exchange === parameters.exchange && <span className="text-muted-foreground"> (selected)</span>}
+                </TableCell>
+                <TableCell className="py-1 text-xs font-mono text-right">{formatCurrency(allocation.quantity)}</TableCell>
+                <TableCell className="py-1 text-xs font-mono text-right">
+                  {result.filledQuantity > 0 ? `${((allocation.quantity / result.filledQuantity) * 100).toFixed(1)}%` : '-'}
+                </TableCell>
+                <TableCell className="py-1 text-xs font-mono text-right">
+                  {allocation.size > 0 ? allocation.averagePrice.toLocaleString() : '-'}
+                </TableCell>
+                <TableCell className="py-1 text-xs font-mono text-right">{`${((venue?.takerFee ?? 0) * 100).toFixed(4)}%`}</TableCell>
+                <TableCell className="py-1 text-xs font-mono text-right">{formatCurrency(allocation.fees)}</TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+
+      {result.filledQuantity < result.requestedQuantity && (
+        <div className="text-xs text-negative">
+          {`Consolidated book too thin: ${formatCurrency(result.requestedQuantity - result.filledQuantity)} cannot be filled from visible depth`}
+        </div>
+      )}
+      {waiting.length > 0 && (
+        <div className="text-xs text-muted-foreground">
+          {`Waiting for ${waiting.map((exchange) => getFeedAdapter(exchange).label).join(', ')}`}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SmartRouterPanel;
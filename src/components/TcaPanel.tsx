@@ -0,0 +1,287 @@
+import React, { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from '@/components/ui/table';
+import { Crosshair, Download, FileText, Printer, Upload } from 'lucide-react';
+import { OrderBookData, SimulationParameters, SimulationResults, TimeSeriesData } from '@/lib/types';
+import { AlgoExecutionReport } from '@/lib/executionAlgos';
+import {
+  TcaFill,
+  TcaInput,
+  TcaReport,
+  analyzeExecution,
+  fillsFromAlgoReport,
+  parseFills,
+  renderTcaHtml,
+  toTcaJson
+} from '@/lib/tca';
+
+interface TcaPanelProps {
+  parameters: SimulationParameters;
+  results: SimulationResults;
+  orderBookData: OrderBookData | null | undefined;
+  timeSeriesData: TimeSeriesData[];
+  algoReport: AlgoExecutionReport | null;
+}
+
+type FillSource = 'algo' | 'market' | 'imported';
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 2 });
+
+const download = (content: string, type: string, filename: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Post-trade cost analysis of the last execution-algorithm run, the simulated
+ * market order or imported fills, exported as JSON or a printable HTML report.
+ */
+const TcaPanel: React.FC<TcaPanelProps> = ({ parameters, results, orderBookData, timeSeriesData, algoReport }) => {
+  const fillsInputRef = useRef<HTMLInputElement>(null);
+  const [source, setSource] = useState<FillSource>('algo');
+  const [decisionPrice, setDecisionPrice] = useState<number | undefined>(undefined);
+  const [arrival, setArrival] = useState<{ book: OrderBookData; time: number } | null>(null);
+  const [importedFills, setImportedFills] = useState<TcaFill[]>([]);
+  const [report, setReport] = useState<TcaReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const captureArrival = () => {
+    if (orderBookData) setArrival({ book: orderBookData, time: Date.now() });
+  };
+
+  const handleFillsFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      setImportedFills(parseFills(await file.text()));
+      setError(null);
+    } catch (parseError) {
+      setError(parseError instanceof Error ? parseError.message : 'Failed to read fills');
+    }
+  };
+
+  const buildInput = (): Omit<TcaInput, 'symbol' | 'exchange' | 'side' | 'decisionPrice' | 'feeRate'> => {
+    switch (source) {
+      case 'algo':
+        if (!algoReport?.arrivalBook || algoReport.slices.length === 0) {
+          throw new Error('Run an execution algorithm in the Algos tab first');
+        }
+        return {
+          quantity: algoReport.requestedQuantity,
+          source: `${algoReport.algorithm.toUpperCase()} run`,
+          arrival: algoReport.arrivalBook,
+          arrivalTime: algoReport.startedAt,
+          fills: fillsFromAlgoReport(algoReport),
+          history: algoReport.path
+        };
+      case 'market': {
+        if (!orderBookData || !results.execution) throw new Error('Waiting for order book...');
+        const now = Date.now();
+        return {
+          quantity: parameters.quantity,
+          source: 'Simulated market order',
+          arrival: orderBookData,
+          arrivalTime: now,
+          fills: results.execution.fills.map((fill) => ({ time: now, price: fill.price, size: fill.size })),
+          history: timeSeriesData
+        };
+      }
+      case 'imported': {
+        const arrivalState = arrival ?? (orderBookData ? { book: orderBookData, time: importedFills[0]?.time ?? Date.now() } : null);
+        if (!arrivalState) throw new Error('Capture an arrival snapshot first');
+        if (importedFills.length === 0) throw new Error('Import a fills file first');
+        return {
+          quantity: parameters.quantity,
+          source: 'Imported fills',
+          arrival: arrivalState.book,
+          arrivalTime: arrivalState.time,
+          fills: importedFills,
+          history: timeSeriesData
+        };
+      }
+    }
+  };
+
+  const generate = () => {
+    try {
+      setError(null);
+      setReport(analyzeExecution({
+        ...buildInput(),
+        symbol: parameters.asset,
+        exchange: parameters.exchange,
+        side: source === 'algo' && algoReport ? algoReport.side : parameters.side,
+        decisionPrice,
+        // Child and imported fills without a fee pay the taker rate
+        feeRate: results.feeQuote?.taker
+      }));
+    } catch (analysisError) {
+      setError(analysisError instanceof Error ? analysisError.message : 'Analysis failed');
+    }
+  };
+
+  const filename = (extension: string) =>
+    report ? `tca-${report.symbol}-${report.arrivalTime.replace(/[:.]/g, '-')}.${extension}` : `tca.${extension}`;
+
+  const printReport = () => {
+    if (!report) return;
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return;
+    printWindow.document.write(renderTcaHtml(report));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Fills</Label>
+          <Select value={source} onValueChange={(value: FillSource) => setSource(value)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select Fills" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="algo">Last algorithm run</SelectItem>
+              <SelectItem value="market">Simulated market order</SelectItem>
+              <SelectItem value="imported">Imported fills</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Decision Price</Label>
+          <Input
+            type="number"
+            step="any"
+            value={decisionPrice ?? ''}
+            placeholder="Arrival mid"
+            onChange={(e) => setDecisionPrice(e.target.value === '' ? undefined : parseFloat(e.target.value))}
+          />
+        </div>
+      </div>
+
+      {source === 'imported' && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Button size="sm" variant="outline" onClick={captureArrival} disabled={!orderBookData}>
+            <Crosshair className="h-4 w-4 mr-2" />
+            Capture arrival
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => fillsInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import fills
+          </Button>
+          <input
+            ref={fillsInputRef}
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="hidden"
+            onChange={handleFillsFile}
+          />
+          <span className="text-xs text-muted-foreground">
+            {`${importedFills.length} fills · arrival ${arrival ? new Date(arrival.time).toLocaleTimeString() : 'at the first fill, current book'}`}
+          </span>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" onClick={generate}>
+          <FileText className="h-4 w-4 mr-2" />
+          Analyze
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => report && download(toTcaJson(report), 'application/json', filename('json'))} disabled={!report}>
+          <Download className="h-4 w-4 mr-2" />
+          JSON
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => report && download(renderTcaHtml(report), 'text/html', filename('html'))} disabled={!report}>
+          <Download className="h-4 w-4 mr-2" />
+          HTML
+        </Button>
+        <Button size="sm" variant="outline" onClick={printReport} disabled={!report}>
+          <Printer className="h-4 w-4 mr-2" />
+          Print
+        </Button>
+      </div>
+
+      {error && <div className="text-xs text-negative">{error}</div>}
+
+      {report && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            <div className="metric-card">
+              <div className="metric-title">Implementation Shortfall</div>
+              <div className="metric-value">{formatCurrency(report.total)}</div>
+              <div className="text-xs text-muted-foreground">{`${report.totalBps.toFixed(2)} bps of ${formatCurrency(report.quantity)}`}</div>
+            </div>
+            <div className="metric-card">
+              <div className="metric-title">Timing Risk (1σ)</div>
+              <div className="metric-value">{formatCurrency(report.timingRisk)}</div>
+              <div className="text-xs text-muted-foreground">{`${report.volatility.toFixed(2)}% daily volatility`}</div>
+            </div>
+            <div className="metric-card">
+              <div className="metric-title">Filled</div>
+              <div className="metric-value">{formatCurrency(report.filledQuantity)}</div>
+              <div className="text-xs text-muted-foreground">{`${report.fills.length} fills at ${report.averagePrice.toLocaleString()}`}</div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="h-8 text-xs">Component</TableHead>
+                  <TableHead className="h-8 text-xs text-right">Cost</TableHead>
+                  <TableHead className="h-8 text-xs text-right">bps</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.components.map((component) => (
+                  <TableRow key={component.id}>
+                    <TableCell className="py-1 text-xs">{component.label}</TableCell>
+                    <TableCell className="py-1 text-xs font-mono text-right">{formatCurrency(component.amount)}</TableCell>
+                    <TableCell className="py-1 text-xs font-mono text-right">{component.bps.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="h-8 text-xs">Benchmark</TableHead>
+                  <TableHead className="h-8 text-xs text-right">Price</TableHead>
+                  <TableHead className="h-8 text-xs text-right">bps</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.benchmarks.map((benchmark) => (
+                  <TableRow key={benchmark.id}>
+                    <TableCell className="py-1 text-xs">{benchmark.label}</TableCell>
+                    <TableCell className="py-1 text-xs font-mono text-right">{benchmark.price.toLocaleString()}</TableCell>
+                    <TableCell className="py-1 text-xs font-mono text-right">{benchmark.bps.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TcaPanel;
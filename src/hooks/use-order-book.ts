@@ -0,0 +1,37 @@
+import * as React from "react"
+
+import { marketDataPool } from "@/lib/connectionPool"
+import { LocalOrderBook } from "@/lib/orderBook"
+
+interface OrderBookState {
+  book: LocalOrderBook | null
+  isConnected: boolean
+  /** Incremented on every update so consumers can memoize on it */
+  version: number
+}
+
+/**
+ * Subscribes the calling component to a live book in the shared connection
+ * pool. The subscription is released when the component unmounts or the
+ * instrument changes.
+ */
+export function useOrderBook(symbol: string, exchange: string = "OKX"): OrderBookState {
+  const [state, setState] = React.useState<OrderBookState>({
+    book: null,
+    isConnected: false,
+    version: 0,
+  })
+
+  React.useEffect(() => {
+    setState({ book: null, isConnected: false, version: 0 })
+
+    return marketDataPool.subscribe(exchange, symbol, {
+      onBook: (book) =>
+        setState((prev) => ({ book, isConnected: true, version: prev.version + 1 })),
+      onConnect: () => setState((prev) => ({ ...prev, isConnected: true })),
+      onError: () => setState((prev) => ({ ...prev, isConnected: false })),
+    })
+  }, [symbol, exchange])
+
+  return state
+}
@@ -0,0 +1,40 @@
+import * as React from "react"
+
+import { marketDataPool } from "@/lib/connectionPool"
+import { LocalOrderBook } from "@/lib/orderBook"
+
+interface VenueBooksState {
+  /** Ready books keyed by feed adapter id */
+  books: Map<string, LocalOrderBook>
+  /** Incremented on every update so consumers can memoize on it */
+  version: number
+}
+
+/**
+ * Subscribes to the same instrument on several feeds of the shared connection
+ * pool. Books appear in the map once their first snapshot has arrived.
+ */
+export function useVenueBooks(symbol: string, exchanges: string[]): VenueBooksState {
+  const [state, setState] = React.useState<VenueBooksState>({
+    books: new Map(),
+    version: 0,
+  })
+  const key = exchanges.join(",")
+
+  React.useEffect(() => {
+    setState({ books: new Map(), version: 0 })
+
+    const unsubscribes = key.split(",").map((exchange) =>
+      marketDataPool.subscribe(exchange, symbol, {
+        onBook: (book) =>
+          setState((prev) => ({
+            books: new Map(prev.books).set(exchange, book),
+            version: prev.version + 1,
+          })),
+      })
+    )
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe())
+  }, [symbol, key])
+
+  return state
+}
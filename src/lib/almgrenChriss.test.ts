@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AlmgrenChrissParameters,
+  almgrenChrissDefaults,
+  efficientFrontier,
+  estimateAlmgrenChrissParameters,
+  optimalTrajectory,
+  riskAversionPivot
+} from './almgrenChriss';
+import { OrderBookData } from './types';
+
+const parameters: AlmgrenChrissParameters = {
+  quantity: 1000,
+  horizon: 100,
+  slices: 10,
+  riskAversion: 0,
+  sigma: 0.5,
+  epsilon: 0.05,
+  eta: 0.1,
+  gamma: 0.0001
+};
+
+describe('optimalTrajectory', () => {
+  it('is the straight-line TWAP schedule without risk aversion', () => {
+    const plan = optimalTrajectory(parameters);
+    const tau = 10;
+    const etaTilde = parameters.eta - (parameters.gamma * tau) / 2;
+
+    expect(plan.kappa).toBe(0);
+    expect(plan.trajectory.map((point) => point.time)).toEqual([0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100]);
+    for (const point of plan.trajectory.slice(1)) expect(point.trade).toBeCloseTo(100, 9);
+    expect(plan.expectedCost).toBeCloseTo(0.5 * 0.0001 * 1000 ** 2 + 0.05 * 1000 + (etaTilde / tau) * 10 * 100 ** 2, 6);
+  });
+
+  it('front-loads the schedule as risk aversion grows, trading cost for variance', () => {
+    const neutral = optimalTrajectory(parameters);
+    const urgent = optimalTrajectory({ ...parameters, riskAversion: 1e-3 });
+
+    expect(urgent.trajectory[0].holdings).toBe(1000);
+    expect(urgent.trajectory[10].holdings).toBeCloseTo(0, 9);
+    const trades = urgent.trajectory.slice(1).map((point) => point.trade);
+    expect(trades.reduce((sum, trade) => sum + trade, 0)).toBeCloseTo(1000, 9);
+    for (let i = 1; i < trades.length; i++) expect(trades[i]).toBeLessThan(trades[i - 1]);
+
+    expect(urgent.expectedCost).toBeGreaterThan(neutral.expectedCost);
+    expect(urgent.variance).toBeLessThan(neutral.variance);
+    expect(urgent.stdDev).toBeCloseTo(Math.sqrt(urgent.variance), 9);
+  });
+
+  it('puts kappa * T near one at the pivot risk aversion', () => {
+    const fine = { ...parameters, slices: 1000, gamma: 0 };
+    const plan = optimalTrajectory({ ...fine, riskAversion: riskAversionPivot(fine) });
+
+    expect(plan.kappa * fine.horizon).toBeCloseTo(1, 3);
+  });
+
+  it('rejects slices too long for the temporary impact', () => {
+    expect(() => optimalTrajectory({ ...parameters, slices: 1, gamma: 0.01 })).toThrow('Temporary impact must exceed');
+  });
+});
+
+describe('efficientFrontier', () => {
+  it('runs from cheap and risky to expensive and safe', () => {
+    const frontier = efficientFrontier(parameters, 12);
+
+    expect(frontier).toHaveLength(12);
+    for (let i = 1; i < frontier.length; i++) {
+      expect(frontier[i].riskAversion).toBeGreaterThan(frontier[i - 1].riskAversion);
+      expect(frontier[i].expectedCost).toBeGreaterThanOrEqual(frontier[i - 1].expectedCost);
+      expect(frontier[i].variance).toBeLessThanOrEqual(frontier[i - 1].variance);
+    }
+    expect(efficientFrontier({ ...parameters, sigma: 0 })).toEqual([]);
+  });
+});
+
+describe('estimateAlmgrenChrissParameters', () => {
+  it('scales the walk-the-book concession into eta and gamma', () => {
+    const book: OrderBookData = {
+      timestamp: '2024-06-03T10:20:00.000Z',
+      exchange: 'okx',
+      symbol: 'BTC-USDT-SWAP',
+      asks: [['100', '1'], ['101', '1']],
+      bids: [['99', '1']]
+    };
+    // 201 of quote fills 1 unit at 100 and 1 at 101: half a point over the touch on 2 units
+    const estimate = estimateAlmgrenChrissParameters(book, 201, 'buy', 2);
+    const slope = 0.5;
+
+    expect(estimate.quantity).toBeCloseTo(2.01, 9);
+    expect(estimate.epsilon).toBe(0.5);
+    expect(estimate.eta).toBeCloseTo(slope * almgrenChrissDefaults.resilienceSeconds, 9);
+    expect(estimate.gamma).toBeCloseTo(slope * almgrenChrissDefaults.permanentFraction, 9);
+    expect(estimate.sigma).toBeCloseTo((99.5 * 0.02) / Math.sqrt(86400), 12);
+  });
+});
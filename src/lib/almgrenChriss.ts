@@ -0,0 +1,177 @@
+import { OrderSide } from './types';
+import { OrderBookSource, bookSideFor, toLocalOrderBook } from './orderBook';
+import { walkTheBook } from './marketMetrics';
+
+// Assumptions used to derive impact parameters from a single book snapshot
+export const almgrenChrissDefaults = {
+  // Seconds for the book to refill after being hit; trading v per second walks v * resilience units deep
+  resilienceSeconds: 10,
+  // Share of the walk-the-book concession that does not decay
+  permanentFraction: 0.1,
+  secondsPerDay: 86400
+};
+
+export interface AlmgrenChrissParameters {
+  /** Total size to execute, in base units (X) */
+  quantity: number;
+  /** Execution horizon in seconds (T) */
+  horizon: number;
+  /** Number of child orders (N) */
+  slices: number;
+  /** Risk aversion (lambda), per unit of quote currency */
+  riskAversion: number;
+  /** Price volatility in quote currency per square root of a second */
+  sigma: number;
+  /** Fixed cost per unit traded, typically half the spread (epsilon) */
+  epsilon: number;
+  /** Temporary impact in quote per unit of trading rate (eta) */
+  eta: number;
+  /** Permanent impact in quote per unit traded (gamma) */
+  gamma: number;
+}
+
+export interface TrajectoryPoint {
+  /** Seconds since the start of execution */
+  time: number;
+  /** Units still to trade after this point */
+  holdings: number;
+  /** Units traded in the slice ending at this point */
+  trade: number;
+}
+
+export interface ExecutionPlan {
+  trajectory: TrajectoryPoint[];
+  /** Urgency; 1 / kappa is the time in seconds for the position to decay by a factor of e */
+  kappa: number;
+  /** Expected implementation shortfall in quote currency */
+  expectedCost: number;
+  variance: number;
+  stdDev: number;
+  riskAversion: number;
+}
+
+export type FrontierPoint = Omit<ExecutionPlan, 'trajectory' | 'kappa'>;
+
+/**
+ * sinh(a) / sinh(b) without overflowing for large arguments
+ */
+function sinhRatio(a: number, b: number): number {
+  if (b < 50) return Math.sinh(a) / Math.sinh(b);
+  return Math.exp(a - b) * (1 - Math.exp(-2 * a)) / (1 - Math.exp(-2 * b));
+}
+
+/**
+ * Computes the Almgren-Chriss optimal trajectory with its expected cost and
+ * variance, using the discrete-time solution with linear impact
+ * @param parameters Size, horizon, slices, risk aversion, volatility and impact
+ * @returns Holdings schedule, expected shortfall and its variance
+ * @throws Error if temporary impact is too small for the slice length
+ *
+ * Reference: Almgren, R., & Chriss, N. (2001).
+ * "Optimal execution of portfolio transactions"
+ */
+export function optimalTrajectory(parameters: AlmgrenChrissParameters): ExecutionPlan {
+  const { quantity, horizon, riskAversion, sigma, epsilon, eta, gamma } = parameters;
+  const slices = Math.max(1, Math.round(parameters.slices));
+  const tau = horizon / slices;
+
+  // Temporary impact net of the permanent impact within a slice
+  const etaTilde = eta - (gamma * tau) / 2;
+  if (etaTilde <= 0) {
+    throw new Error('Temporary impact must exceed gamma * tau / 2; use more slices or a larger eta');
+  }
+
+  const kappaTildeSquared = (riskAversion * sigma * sigma) / etaTilde;
+  const kappa = Math.acosh(1 + (kappaTildeSquared * tau * tau) / 2) / tau;
+
+  const trajectory: TrajectoryPoint[] = [{ time: 0, holdings: quantity, trade: 0 }];
+  for (let j = 1; j <= slices; j++) {
+    const time = j * tau;
+    // The risk-neutral limit (kappa -> 0) is the straight-line TWAP schedule
+    const holdings = kappa * horizon < 1e-9
+      ? quantity * (1 - j / slices)
+      : quantity * sinhRatio(kappa * (horizon - time), kappa * horizon);
+    trajectory.push({ time, holdings, trade: trajectory[j - 1].holdings - holdings });
+  }
+
+  let squaredTrades = 0;
+  let absoluteTrades = 0;
+  let squaredHoldings = 0;
+  for (let j = 1; j <= slices; j++) {
+    squaredTrades += trajectory[j].trade ** 2;
+    absoluteTrades += Math.abs(trajectory[j].trade);
+    squaredHoldings += trajectory[j].holdings ** 2;
+  }
+
+  const expectedCost = 0.5 * gamma * quantity * quantity + epsilon * absoluteTrades + (etaTilde / tau) * squaredTrades;
+  const variance = sigma * sigma * tau * squaredHoldings;
+
+  return { trajectory, kappa, expectedCost, variance, stdDev: Math.sqrt(variance), riskAversion };
+}
+
+/**
+ * Risk aversion at which kappa * T = 1, i.e. eta / (sigma * T)^2; a natural
+ * midpoint between the risk-neutral TWAP and an immediate execution
+ */
+export function riskAversionPivot(parameters: Pick<AlmgrenChrissParameters, 'horizon' | 'sigma' | 'eta'>): number {
+  return parameters.eta / (parameters.sigma * parameters.horizon) ** 2;
+}
+
+/**
+ * Traces the efficient frontier of expected cost against risk by sweeping the
+ * risk aversion around the value where kappa * T = 1
+ * @param parameters Model inputs; riskAversion is ignored
+ * @param points Number of frontier points
+ * @returns Frontier points ordered from risk-neutral (TWAP) to most urgent
+ */
+export function efficientFrontier(parameters: AlmgrenChrissParameters, points: number = 30): FrontierPoint[] {
+  if (parameters.sigma <= 0 || parameters.horizon <= 0) return [];
+
+  const pivot = riskAversionPivot(parameters);
+  const frontier: FrontierPoint[] = [];
+  for (let i = 0; i < points; i++) {
+    const riskAversion = pivot * 10 ** (-3 + (6 * i) / (points - 1));
+    const plan = optimalTrajectory({ ...parameters, riskAversion });
+    frontier.push({ riskAversion, expectedCost: plan.expectedCost, variance: plan.variance, stdDev: plan.stdDev });
+  }
+  return frontier;
+}
+
+/**
+ * Derives Almgren-Chriss inputs from the current book: epsilon is half the
+ * spread, and eta and gamma scale the price concession per unit found by
+ * walking the book for the full order
+ * @param orderBook Current order book state
+ * @param quantity Order quantity in quote currency
+ * @param side Order side; buys walk the asks, sells walk the bids
+ * @param volatility Daily volatility as a percentage
+ * @returns Volatility and impact parameters in quote currency and base units
+ */
+export function estimateAlmgrenChrissParameters(
+  orderBook: OrderBookSource,
+  quantity: number,
+  side: OrderSide,
+  volatility: number
+): Pick<AlmgrenChrissParameters, 'quantity' | 'sigma' | 'epsilon' | 'eta' | 'gamma'> {
+  const book = toLocalOrderBook(orderBook);
+  const touch = book.levelAt(bookSideFor(side), 0);
+  const mid = book.midPrice();
+  if (!touch || !mid) {
+    return { quantity: 0, sigma: 0, epsilon: 0, eta: 0, gamma: 0 };
+  }
+
+  // Linear book: the average price moves half as far as the marginal price
+  const execution = walkTheBook(book, quantity, side);
+  const concession = Math.abs(execution.averagePrice - execution.touchPrice);
+  const slope = execution.filledSize > 0 && concession > 0
+    ? (2 * concession) / execution.filledSize
+    : book.spread() / touch.size;
+
+  return {
+    quantity: quantity / touch.price,
+    sigma: (mid * volatility) / 100 / Math.sqrt(almgrenChrissDefaults.secondsPerDay),
+    epsilon: book.spread() / 2,
+    eta: slope * almgrenChrissDefaults.resilienceSeconds,
+    gamma: slope * almgrenChrissDefaults.permanentFraction
+  };
+}
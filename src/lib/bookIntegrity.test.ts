@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { BookIntegrityMonitor, calculateBookChecksum, crc32 } from './bookIntegrity';
+import { LocalOrderBook } from './orderBook';
+import { OrderBookData, PriceLevelTuple } from './types';
+
+const message = (
+  symbol: string,
+  action: 'snapshot' | 'update',
+  seqId: number,
+  prevSeqId?: number
+): OrderBookData => ({
+  timestamp: '2024-06-03T10:20:00.000Z',
+  exchange: 'okx',
+  symbol,
+  action,
+  asks: [],
+  bids: [],
+  seqId,
+  prevSeqId
+});
+
+const bookOf = (asks: PriceLevelTuple[], bids: PriceLevelTuple[]) =>
+  LocalOrderBook.fromOrderBookData({ timestamp: '', exchange: 'okx', symbol: 'BTC-USDT', asks, bids });
+
+describe('crc32', () => {
+  it('matches the IEEE check value as a signed integer', () => {
+    expect(crc32('123456789')).toBe(-873187034);
+    expect(crc32('')).toBe(0);
+  });
+});
+
+describe('calculateBookChecksum', () => {
+  it('reproduces the example from the OKX v5 documentation', () => {
+    const book = bookOf([['3366.8', '9'], ['3368', '8']], [['3366.1', '7'], ['3366', '6']]);
+
+    // 3366.1:7:3366.8:9:3366:6:3368:8
+    expect(calculateBookChecksum(book)).toBe(-1881014294);
+  });
+
+  it('continues with the longer side once the other runs out', () => {
+    const book = bookOf([['3366.8', '9']], [['3366.1', '7'], ['3366', '6'], ['3365', '5']]);
+
+    expect(calculateBookChecksum(book)).toBe(crc32('3366.1:7:3366.8:9:3366:6:3365:5'));
+  });
+
+  it('hashes venue sizes rather than converted base sizes', () => {
+    const book = bookOf([['3366.8', '0.9', '9'], ['3368', '0.8', '8']], [['3366.1', '0.7', '7'], ['3366', '0.6', '6']]);
+
+    expect(calculateBookChecksum(book)).toBe(-1881014294);
+  });
+});
+
+describe('BookIntegrityMonitor', () => {
+  it('accepts contiguous updates and reports a gap once', () => {
+    const monitor = new BookIntegrityMonitor();
+
+    expect(monitor.checkSequence(message('BTC-USDT', 'snapshot', 10))).toBeNull();
+    expect(monitor.checkSequence(message('BTC-USDT', 'update', 11, 10))).toBeNull();
+
+    const gap = monitor.checkSequence(message('BTC-USDT', 'update', 14, 12));
+    expect(gap?.type).toBe('sequence-gap');
+    expect(gap?.symbol).toBe('BTC-USDT');
+    expect(gap?.message).toContain('expected prevSeqId 11, received 12');
+
+    // The gap clears the sequence, so the next update starts it again
+    expect(monitor.checkSequence(message('BTC-USDT', 'update', 15, 14))).toBeNull();
+    expect(monitor.checkSequence(message('BTC-USDT', 'update', 16, 15))).toBeNull();
+  });
+
+  it('tracks each symbol separately', () => {
+    const monitor = new BookIntegrityMonitor();
+
+    monitor.checkSequence(message('BTC-USDT', 'snapshot', 100));
+    monitor.checkSequence(message('ETH-USDT', 'snapshot', 5));
+
+    expect(monitor.checkSequence(message('ETH-USDT', 'update', 6, 5))).toBeNull();
+    expect(monitor.checkSequence(message('BTC-USDT', 'update', 101, 100))).toBeNull();
+    expect(monitor.checkSequence(message('ETH-USDT', 'update', 8, 7))?.symbol).toBe('ETH-USDT');
+    expect(monitor.checkSequence(message('BTC-USDT', 'update', 102, 101))).toBeNull();
+  });
+
+  it('forgets one symbol or all of them on reset', () => {
+    const monitor = new BookIntegrityMonitor();
+    monitor.checkSequence(message('BTC-USDT', 'snapshot', 100));
+    monitor.checkSequence(message('ETH-USDT', 'snapshot', 5));
+
+    monitor.reset('BTC-USDT');
+    expect(monitor.checkSequence(message('BTC-USDT', 'update', 201, 200))).toBeNull();
+    expect(monitor.checkSequence(message('ETH-USDT', 'update', 8, 7))).not.toBeNull();
+
+    monitor.checkSequence(message('ETH-USDT', 'snapshot', 5));
+    monitor.reset();
+    expect(monitor.checkSequence(message('ETH-USDT', 'update', 8, 7))).toBeNull();
+  });
+
+  it('reports a checksum mismatch and restarts the sequence', () => {
+    const monitor = new BookIntegrityMonitor();
+    const book = bookOf([['3366.8', '9'], ['3368', '8']], [['3366.1', '7'], ['3366', '6']]);
+
+    monitor.checkSequence(message('BTC-USDT', 'snapshot', 1));
+    expect(monitor.checkChecksum(book, { ...message('BTC-USDT', 'snapshot', 1), checksum: -1881014294 })).toBeNull();
+
+    const mismatch = monitor.checkChecksum(book, { ...message('BTC-USDT', 'update', 2, 1), checksum: 1 });
+    expect(mismatch?.type).toBe('checksum-mismatch');
+    expect(monitor.checkSequence(message('BTC-USDT', 'update', 9, 8))).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { BookListener, MarketDataPool } from './connectionPool';
+import { LocalOrderBook } from './orderBook';
+import { RecordedBook } from './recorder';
+import { IntegrityEvent, PriceLevelTuple } from './types';
+
+const record = (
+  source: string,
+  symbol: string,
+  action: 'snapshot' | 'update',
+  ask: PriceLevelTuple,
+  seqId: number,
+  prevSeqId?: number
+): RecordedBook => ({
+  sessionId: 'test',
+  source,
+  receivedAt: 1717410000000 + seqId,
+  data: {
+    timestamp: new Date(1717410000000 + seqId).toISOString(),
+    exchange: source.toLowerCase(),
+    symbol,
+    action,
+    asks: [ask],
+    bids: action === 'snapshot' ? [['66990', '1']] : [],
+    seqId,
+    prevSeqId
+  }
+});
+
+const listen = () => {
+  const asks: number[] = [];
+  const events: IntegrityEvent[] = [];
+  const listener: BookListener = {
+    onBook: (book: LocalOrderBook) => asks.push(book.bestAsk()!.price),
+    onIntegrityEvent: (event) => events.push(event)
+  };
+  return { asks, events, listener };
+};
+
+describe('MarketDataPool replay', () => {
+  const pool = new MarketDataPool();
+  // Node has no WebSocket global; sockets are never opened while replaying
+  beforeAll(() => vi.stubGlobal('WebSocket', { OPEN: 1 }));
+  afterEach(() => pool.closeAll());
+  afterAll(() => vi.unstubAllGlobals());
+
+  it('routes recorded messages by feed and symbol', () => {
+    const replay = pool.startReplay([
+      record('OKX-V5', 'BTC-USDT-SWAP', 'snapshot', ['67000', '1'], 1),
+      record('Bybit', 'BTC-USDT-SWAP', 'snapshot', ['67005', '1'], 1),
+      record('OKX-V5', 'ETH-USDT-SWAP', 'snapshot', ['3500', '1'], 1),
+      record('Binance', 'BTC-USDT-SWAP', 'snapshot', ['67010', '1'], 1),
+      record('Bybit', 'BTC-USDT-SWAP', 'update', ['67004', '1'], 2, 1)
+    ], 'step');
+
+    const okx = listen();
+    const bybit = listen();
+    const eth = listen();
+    pool.subscribe('OKX-V5', 'BTC-USDT-SWAP', okx.listener);
+    pool.subscribe('Bybit', 'BTC-USDT-SWAP', bybit.listener);
+    pool.subscribe('OKX-V5', 'ETH-USDT-SWAP', eth.listener);
+    while (replay.step());
+
+    expect(okx.asks).toEqual([67000]);
+    expect(bybit.asks).toEqual([67005, 67004]);
+    expect(eth.asks).toEqual([3500]);
+    expect(pool.getBook('Binance', 'BTC-USDT-SWAP')).toBeUndefined();
+  });
+
+  it('keeps sequence state separate for each feed and symbol', () => {
+    const replay = pool.startReplay([
+      record('OKX-V5', 'BTC-USDT-SWAP', 'snapshot', ['67000', '1'], 100),
+      record('Bybit', 'BTC-USDT-SWAP', 'snapshot', ['67005', '1'], 7),
+      // Continues Bybit's sequence, not OKX's
+      record('Bybit', 'BTC-USDT-SWAP', 'update', ['67004', '1'], 8, 7),
+      // Skips 101 on OKX only
+      record('OKX-V5', 'BTC-USDT-SWAP', 'update', ['66999', '1'], 103, 102),
+      record('Bybit', 'BTC-USDT-SWAP', 'update', ['67003', '1'], 9, 8)
+    ], 'step');
+
+    const okx = listen();
+    const bybit = listen();
+    pool.subscribe('OKX-V5', 'BTC-USDT-SWAP', okx.listener);
+    pool.subscribe('Bybit', 'BTC-USDT-SWAP', bybit.listener);
+    while (replay.step());
+
+    expect(bybit.asks).toEqual([67005, 67004, 67003]);
+    expect(bybit.events).toEqual([]);
+    expect(okx.asks).toEqual([67000]);
+    expect(okx.events.map((event) => event.type)).toEqual(['sequence-gap']);
+    // The gapped book waits for the next snapshot
+    expect(pool.getBook('OKX-V5', 'BTC-USDT-SWAP')?.isReady()).toBe(false);
+  });
+});
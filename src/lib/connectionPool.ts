@@ -0,0 +1,361 @@
+import { FundingRateData, IntegrityEvent, OrderBookData } from './types';
+import { FeedAdapter, getFeedAdapter } from './feedAdapters';
+import { OrderBookWebSocket } from './websocket';
+import { LocalOrderBook } from './orderBook';
+import { BookIntegrityMonitor } from './bookIntegrity';
+import { OrderBookReplay, ReplaySpeed } from './replay';
+import { RecordedBook } from './recorder';
+
+export interface BookListener {
+  /** Called after every message that leaves the book in a usable state */
+  onBook: (book: LocalOrderBook) => void;
+  onConnect?: () => void;
+  onError?: (error: Event) => void;
+  onIntegrityEvent?: (event: IntegrityEvent) => void;
+}
+
+interface BookEntry {
+  exchange: string;
+  symbol: string;
+  book: LocalOrderBook;
+  /** Latest funding state, for perpetuals on venues that publish it */
+  funding?: FundingRateData;
+  listeners: Set<BookListener>;
+  connection: PooledConnection;
+}
+
+interface PooledConnection {
+  key: string;
+  adapter: FeedAdapter;
+  ws: OrderBookWebSocket;
+  integrity: BookIntegrityMonitor;
+  entries: Map<string, BookEntry>;
+  connected: boolean;
+}
+
+/** Observer of every live message, e.g. the recorder */
+export type MessageTap = (source: string, message: OrderBookData) => void;
+
+const bookKey = (exchange: string, symbol: string) => `${exchange}:${symbol}`;
+
+/**
+ * Shares venue connections between any number of instrument subscriptions.
+ * Venues that multiplex get one socket carrying every subscribed instrument;
+ * snapshot-per-URL feeds get one socket per instrument. Each socket keeps its
+ * own reconnect/backoff state, and every instrument its own LocalOrderBook.
+ *
+ * In replay mode the live sockets are closed and a recording is fed through
+ * the same book pipeline, routed to subscribers by feed and symbol.
+ */
+export class MarketDataPool {
+  private connections = new Map<string, PooledConnection>();
+  private entries = new Map<string, BookEntry>();
+  private taps = new Set<MessageTap>();
+  private replay: OrderBookReplay | null = null;
+  // One monitor per recorded feed and symbol, so feeds never share sequence state
+  private replayIntegrity = new Map<string, BookIntegrityMonitor>();
+
+  /**
+   * Subscribes a listener to one instrument's book. The listener is called
+   * immediately if the book is already live.
+   * @param exchange Feed adapter id
+   * @param symbol Instrument in canonical form
+   * @param listener Book and connection callbacks
+   * @returns Function that removes the subscription
+   */
+  subscribe(exchange: string, symbol: string, listener: BookListener): () => void {
+    const entry = this.getOrCreateEntry(exchange, symbol);
+    entry.listeners.add(listener);
+
+    if (entry.connection.connected || this.replay?.isConnectedStatus()) listener.onConnect?.();
+    if (entry.book.isReady()) listener.onBook(entry.book);
+
+    return () => this.unsubscribe(entry, listener);
+  }
+
+  /**
+   * @returns The live book for an instrument, if anything is subscribed to it
+   */
+  getBook(exchange: string, symbol: string): LocalOrderBook | undefined {
+    return this.entries.get(bookKey(exchange, symbol))?.book;
+  }
+
+  /**
+   * @returns The latest funding state for a perpetual, if its feed has sent one
+   */
+  getFunding(exchange: string, symbol: string): FundingRateData | undefined {
+    return this.entries.get(bookKey(exchange, symbol))?.funding;
+  }
+
+  isConnected(exchange: string, symbol: string): boolean {
+    return this.entries.get(bookKey(exchange, symbol))?.connection.connected ?? false;
+  }
+
+  /**
+   * @returns Every instrument currently subscribed through the pool
+   */
+  getSubscriptions(): { exchange: string; symbol: string }[] {
+    return [...this.entries.values()].map(({ exchange, symbol }) => ({ exchange, symbol }));
+  }
+
+  /**
+   * Registers an observer for every live message before it is applied
+   * @param tap Called with the feed adapter id and the normalized message
+   * @returns Function that removes the tap
+   */
+  addTap(tap: MessageTap): () => void {
+    this.taps.add(tap);
+    return () => {
+      this.taps.delete(tap);
+    };
+  }
+
+  /**
+   * Switches every subscription from the live feeds to a recording
+   * @param records Recording in receive order
+   * @param speed Initial playback speed
+   * @param onEnd Called once the last record has been delivered
+   * @returns Replay handle for speed and step control
+   */
+  startReplay(records: RecordedBook[], speed: ReplaySpeed = 1, onEnd?: () => void): OrderBookReplay {
+    this.replay?.disconnect();
+    for (const connection of this.connections.values()) {
+      connection.ws.disconnect();
+      connection.connected = false;
+    }
+    this.resetAllBooks();
+
+    const replay = new OrderBookReplay(
+      records,
+      (message, record) => this.handleReplayMessage(message, record),
+      () => this.forEachListener((listener) => listener.onConnect?.()),
+      (error) => this.forEachListener((listener) => listener.onError?.(error)),
+      speed,
+      onEnd
+    );
+    this.replay = replay;
+    replay.connect();
+    return replay;
+  }
+
+  /**
+   * Ends replay mode and reconnects the live feeds
+   */
+  stopReplay(): void {
+    if (!this.replay) return;
+
+    this.replay.disconnect();
+    this.replay = null;
+    this.resetAllBooks();
+    for (const connection of this.connections.values()) {
+      connection.ws.connect();
+    }
+  }
+
+  isReplaying(): boolean {
+    return this.replay !== null;
+  }
+
+  /**
+   * Closes every connection and drops all subscriptions
+   */
+  closeAll(): void {
+    this.replay?.disconnect();
+    this.replay = null;
+    for (const connection of this.connections.values()) {
+      connection.ws.disconnect();
+    }
+    this.connections.clear();
+    this.entries.clear();
+  }
+
+  private getOrCreateEntry(exchange: string, symbol: string): BookEntry {
+    const key = bookKey(exchange, symbol);
+    const existing = this.entries.get(key);
+    if (existing) return existing;
+
+    const adapter = getFeedAdapter(exchange);
+    const connectionKey = adapter.multiplexed ? adapter.id : key;
+    let connection = this.connections.get(connectionKey);
+    if (connection) {
+      connection.ws.addSymbol(symbol);
+    } else {
+      connection = this.createConnection(connectionKey, adapter, symbol);
+    }
+
+    const entry: BookEntry = {
+      exchange,
+      symbol,
+      book: new LocalOrderBook(),
+      listeners: new Set(),
+      connection
+    };
+    connection.entries.set(symbol, entry);
+    this.entries.set(key, entry);
+
+    if (connection.entries.size === 1 && !this.replay) {
+      connection.ws.connect();
+    }
+    return entry;
+  }
+
+  private createConnection(key: string, adapter: FeedAdapter, symbol: string): PooledConnection {
+    const ws = new OrderBookWebSocket(
+      adapter,
+      symbol,
+      (message) => this.handleMessage(key, message),
+      () => this.handleConnect(key),
+      (error) => this.handleError(key, error),
+      (funding) => this.handleFunding(key, funding)
+    );
+    const connection: PooledConnection = {
+      key,
+      adapter,
+      ws,
+      integrity: new BookIntegrityMonitor(),
+      entries: new Map(),
+      connected: false
+    };
+    this.connections.set(key, connection);
+    return connection;
+  }
+
+  private handleConnect(key: string): void {
+    const connection = this.connections.get(key);
+    if (!connection) return;
+
+    connection.connected = true;
+    // Every instrument gets a fresh snapshot after (re)subscribing
+    connection.integrity.reset();
+    for (const entry of connection.entries.values()) {
+      entry.book.reset();
+      entry.listeners.forEach((listener) => listener.onConnect?.());
+    }
+  }
+
+  private handleError(key: string, error: Event): void {
+    const connection = this.connections.get(key);
+    if (!connection) return;
+
+    connection.connected = false;
+    for (const entry of connection.entries.values()) {
+      entry.listeners.forEach((listener) => listener.onError?.(error));
+    }
+  }
+
+  private handleMessage(key: string, message: OrderBookData): void {
+    const connection = this.connections.get(key);
+    if (!connection) return;
+
+    this.taps.forEach((tap) => tap(connection.adapter.id, message));
+
+    // Snapshot-per-URL feeds carry exactly one instrument, whatever they call it
+    const entry = connection.adapter.multiplexed
+      ? connection.entries.get(message.symbol)
+      : connection.entries.values().next().value;
+    if (!entry) return;
+
+    this.processMessage(entry, connection.integrity, message, (event) => this.resync(connection, entry, event));
+  }
+
+  private handleFunding(key: string, funding: FundingRateData): void {
+    const connection = this.connections.get(key);
+    if (!connection) return;
+
+    const entry = connection.adapter.multiplexed
+      ? connection.entries.get(funding.symbol)
+      : connection.entries.values().next().value;
+    if (entry) entry.funding = funding;
+  }
+
+  private handleReplayMessage(message: OrderBookData, record: RecordedBook): void {
+    const key = bookKey(record.source, message.symbol);
+    const entry = this.entries.get(key);
+    if (!entry) return;
+
+    let integrity = this.replayIntegrity.get(key);
+    if (!integrity) {
+      integrity = new BookIntegrityMonitor();
+      this.replayIntegrity.set(key, integrity);
+    }
+
+    // A recording cannot be asked for a new snapshot; wait for the next one
+    this.processMessage(entry, integrity, message, (event) => {
+      entry.listeners.forEach((listener) => listener.onIntegrityEvent?.(event));
+      entry.book.reset();
+      integrity.reset(entry.symbol);
+    });
+  }
+
+  private processMessage(
+    entry: BookEntry,
+    integrity: BookIntegrityMonitor,
+    message: OrderBookData,
+    onIntegrityFailure: (event: IntegrityEvent) => void
+  ): void {
+    const sequenceEvent = integrity.checkSequence(message);
+    if (sequenceEvent) {
+      onIntegrityFailure(sequenceEvent);
+      return;
+    }
+
+    // Deltas received before the first snapshot cannot be applied
+    if (!entry.book.apply(message)) {
+      return;
+    }
+
+    const checksumEvent = integrity.checkChecksum(entry.book, message);
+    if (checksumEvent) {
+      onIntegrityFailure(checksumEvent);
+      return;
+    }
+
+    if (!entry.book.isReady()) return;
+    entry.listeners.forEach((listener) => listener.onBook(entry.book));
+  }
+
+  private resetAllBooks(): void {
+    this.replayIntegrity.clear();
+    for (const connection of this.connections.values()) {
+      connection.integrity.reset();
+    }
+    for (const entry of this.entries.values()) {
+      entry.book.reset();
+      // Recordings carry no funding, and live funding is refreshed on reconnect
+      entry.funding = undefined;
+    }
+  }
+
+  private forEachListener(callback: (listener: BookListener) => void): void {
+    for (const entry of this.entries.values()) {
+      entry.listeners.forEach(callback);
+    }
+  }
+
+  // Drop the corrupted book and wait for the snapshot the resubscribe triggers
+  private resync(connection: PooledConnection, entry: BookEntry, event: IntegrityEvent): void {
+    entry.listeners.forEach((listener) => listener.onIntegrityEvent?.(event));
+    entry.book.reset();
+    connection.integrity.reset(entry.symbol);
+    connection.ws.resync(entry.symbol);
+  }
+
+  private unsubscribe(entry: BookEntry, listener: BookListener): void {
+    if (!entry.listeners.delete(listener) || entry.listeners.size > 0) return;
+
+    const connection = entry.connection;
+    this.entries.delete(bookKey(entry.exchange, entry.symbol));
+    connection.entries.delete(entry.symbol);
+    connection.integrity.reset(entry.symbol);
+
+    if (connection.entries.size === 0) {
+      connection.ws.disconnect();
+      this.connections.delete(connection.key);
+    } else {
+      connection.ws.removeSymbol(entry.symbol);
+    }
+  }
+}
+
+/** Pool shared by every panel in the app */
+export const marketDataPool = new MarketDataPool();
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { bybitAdapter, okxAdapter } from './feedAdapters';
+import { VenueBook, bucketPrice, bucketSizesFor, consolidateLadder, findCrossVenueArbitrage } from './consolidatedBook';
+
+// OKX sizes are contracts of 0.01 BTC; Bybit sizes are BTC
+const okxBook = okxAdapter.parseMessage(JSON.stringify({
+  arg: { channel: 'books', instId: 'BTC-USDT-SWAP' },
+  action: 'snapshot',
+  data: [{ asks: [['67005', '100', '0', '1']], bids: [['66995', '50', '0', '1'], ['66990', '200', '0', '2']], ts: '1717410000000' }]
+}))!;
+
+const bybitBook = bybitAdapter.parseMessage(JSON.stringify({
+  topic: 'orderbook.50.BTCUSDT',
+  type: 'snapshot',
+  ts: 1717410000000,
+  data: { s: 'BTCUSDT', b: [['67008.00', '0.300'], ['66990.00', '1.000']], a: [['67010.00', '0.700']], u: 1 }
+}))!;
+
+const venues: VenueBook[] = [
+  { exchange: 'OKX-V5', book: okxBook },
+  { exchange: 'Bybit', book: bybitBook }
+];
+
+const summarize = (levels: ReturnType<typeof consolidateLadder>['bids']) =>
+  levels.map((level) => ({
+    price: level.price,
+    size: Number(level.size.toFixed(9)),
+    sizes: level.contributions.map((contribution) => Number(contribution.size.toFixed(9))),
+    crossed: level.crossed
+  }));
+
+describe('bucketPrice', () => {
+  it('rounds bids down and asks up, leaving boundary prices alone', () => {
+    expect(bucketPrice(67008, 10, 'bids')).toBe(67000);
+    expect(bucketPrice(67001, 10, 'asks')).toBe(67010);
+    expect(bucketPrice(67010, 10, 'asks')).toBe(67010);
+    expect(bucketPrice(0.3, 0.1, 'bids')).toBe(0.3);
+    expect(bucketPrice(67008.5, 0, 'asks')).toBe(67008.5);
+  });
+
+  it('offers bucket sizes scaled to the price', () => {
+    expect(bucketSizesFor(67000)).toEqual([0.1, 1, 10, 100]);
+    expect(bucketSizesFor(0)).toEqual([]);
+  });
+});
+
+describe('consolidateLadder', () => {
+  it('adds both venues in base units and flags bids through another venue\'s ask', () => {
+    const ladder = consolidateLadder(venues, 0, 10);
+
+    expect(summarize(ladder.bids)).toEqual([
+      { price: 67008, size: 0.3, sizes: [0, 0.3], crossed: true },
+      { price: 66995, size: 0.5, sizes: [0.5, 0], crossed: false },
+      { price: 66990, size: 3, sizes: [2, 1], crossed: false }
+    ]);
+    expect(summarize(ladder.asks)).toEqual([
+      { price: 67005, size: 1, sizes: [1, 0], crossed: true },
+      { price: 67010, size: 0.7, sizes: [0, 0.7], crossed: false }
+    ]);
+  });
+
+  it('merges levels into price buckets and keeps the requested depth', () => {
+    const ladder = consolidateLadder(venues, 10, 1);
+
+    expect(summarize(ladder.bids)).toEqual([{ price: 67000, size: 0.3, sizes: [0, 0.3], crossed: true }]);
+    expect(summarize(ladder.asks)).toEqual([{ price: 67010, size: 1.7, sizes: [1, 0.7], crossed: true }]);
+  });
+});
+
+describe('findCrossVenueArbitrage', () => {
+  it('pairs a bid above another venue\'s ask with the size both touches show', () => {
+    const [opportunity, ...rest] = findCrossVenueArbitrage(venues);
+
+    expect(rest).toEqual([]);
+    expect(opportunity.bidExchange).toBe('Bybit');
+    expect(opportunity.askExchange).toBe('OKX-V5');
+    expect(opportunity.size).toBeCloseTo(0.3, 9);
+    expect(opportunity.spreadBps).toBeCloseTo((3 / 67005) * 10000, 9);
+  });
+});
@@ -0,0 +1,143 @@
+import { BookSide, OrderBookSource, toLocalOrderBook } from './orderBook';
+
+export interface VenueBook {
+  /** Feed adapter id */
+  exchange: string;
+  book: OrderBookSource;
+}
+
+export interface VenueContribution {
+  exchange: string;
+  /** Base size the venue shows in the bucket */
+  size: number;
+}
+
+export interface ConsolidatedBookLevel {
+  /** Bucket price: bids round down and asks round up to the bucket size */
+  price: number;
+  size: number;
+  /** Per-venue sizes, in the order venues were given */
+  contributions: VenueContribution[];
+  /** A bid above another venue's best ask, or an ask below another venue's best bid */
+  crossed: boolean;
+}
+
+export interface CrossVenueArbitrage {
+  bidExchange: string;
+  askExchange: string;
+  bid: number;
+  ask: number;
+  /** Base size available at both touches */
+  size: number;
+  /** (bid − ask) / ask, before fees */
+  spreadBps: number;
+}
+
+export interface ConsolidatedBook {
+  bids: ConsolidatedBookLevel[];
+  asks: ConsolidatedBookLevel[];
+  arbitrage: CrossVenueArbitrage[];
+  bucketSize: number;
+}
+
+/**
+ * Rounds a price into its bucket, away from the touch so buckets never look
+ * better than the levels inside them
+ * @param bucketSize Bucket width in quote currency; zero keeps raw prices
+ */
+export function bucketPrice(price: number, bucketSize: number, side: BookSide): number {
+  if (bucketSize <= 0) return price;
+  const steps = price / bucketSize;
+  // Tolerate float error so a price already on a bucket boundary stays there
+  const bucket = side === 'bids' ? Math.floor(steps + 1e-9) : Math.ceil(steps - 1e-9);
+  const decimals = Math.max(0, Math.ceil(-Math.log10(bucketSize))) + 2;
+  return Number((bucket * bucketSize).toFixed(decimals));
+}
+
+/**
+ * Bucket sizes worth offering at a price level, finest first
+ * @param price Reference price, usually the mid
+ */
+export function bucketSizesFor(price: number): number[] {
+  if (!(price > 0)) return [];
+  const base = 10 ** (Math.floor(Math.log10(price)) - 5);
+  return [1, 10, 100, 1000].map((multiple) => Number((base * multiple).toPrecision(1)));
+}
+
+/**
+ * Every pair of venues where one venue's best bid is above another's best ask
+ * @returns Opportunities, widest spread first
+ */
+export function findCrossVenueArbitrage(venues: VenueBook[]): CrossVenueArbitrage[] {
+  const touches = venues.map((venue) => {
+    const book = toLocalOrderBook(venue.book);
+    return { exchange: venue.exchange, bid: book.bestBid(), ask: book.bestAsk() };
+  });
+
+  const opportunities: CrossVenueArbitrage[] = [];
+  for (const bidVenue of touches) {
+    for (const askVenue of touches) {
+      if (bidVenue === askVenue || !bidVenue.bid || !askVenue.ask) continue;
+      if (bidVenue.bid.price <= askVenue.ask.price) continue;
+      opportunities.push({
+        bidExchange: bidVenue.exchange,
+        askExchange: askVenue.exchange,
+        bid: bidVenue.bid.price,
+        ask: askVenue.ask.price,
+        size: Math.min(bidVenue.bid.size, askVenue.ask.size),
+        spreadBps: ((bidVenue.bid.price - askVenue.ask.price) / askVenue.ask.price) * 10000
+      });
+    }
+  }
+  return opportunities.sort((a, b) => b.spreadBps - a.spreadBps);
+}
+
+/**
+ * Merges several venues' books for one instrument into a single price-sorted
+ * ladder, bucketed by price, keeping each venue's share of every level
+ * @param venues Books per venue, in display order
+ * @param bucketSize Price bucket width; zero merges equal prices only
+ * @param depth Consolidated levels kept per side
+ */
+export function consolidateLadder(venues: VenueBook[], bucketSize: number, depth: number): ConsolidatedBook {
+  const books = venues.map((venue) => ({ exchange: venue.exchange, book: toLocalOrderBook(venue.book) }));
+
+  const side = (bookSide: BookSide): ConsolidatedBookLevel[] => {
+    const levels = new Map<number, ConsolidatedBookLevel>();
+    for (const { exchange, book } of books) {
+      // The best opposite touch on any other venue decides whether a level crosses
+      const opposite = books
+        .filter((other) => other.exchange !== exchange)
+        .map((other) => (bookSide === 'bids' ? other.book.bestAsk()?.price : other.book.bestBid()?.price))
+        .filter((price): price is number => price !== undefined);
+      const crossAt = bookSide === 'bids' ? Math.min(...opposite) : Math.max(...opposite);
+
+      for (const level of book.getLevels(bookSide)) {
+        const price = bucketPrice(level.price, bucketSize, bookSide);
+        let consolidated = levels.get(price);
+        if (!consolidated) {
+          consolidated = {
+            price,
+            size: 0,
+            contributions: books.map((venue) => ({ exchange: venue.exchange, size: 0 })),
+            crossed: false
+          };
+          levels.set(price, consolidated);
+        }
+        consolidated.size += level.size;
+        consolidated.contributions.find((contribution) => contribution.exchange === exchange)!.size += level.size;
+        if (bookSide === 'bids' ? level.price > crossAt : level.price < crossAt) consolidated.crossed = true;
+      }
+    }
+    return [...levels.values()]
+      .sort((a, b) => (bookSide === 'bids' ? b.price - a.price : a.price - b.price))
+      .slice(0, depth);
+  };
+
+  return {
+    bids: side('bids'),
+    asks: side('asks'),
+    arbitrage: findCrossVenueArbitrage(venues),
+    bucketSize
+  };
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { AlgoConfig, hourlyVolumeCurve, runExecutionAlgo, scheduleSlices } from './executionAlgos';
+import { BookSample } from './slippageCalibration';
+
+const start = Date.UTC(2024, 5, 3, 0, 0, 0);
+
+// One-level book per side: bid 99 and ask 100, sizes in base units
+const sample = (seconds: number, askSize: number, bidSize = 1000, source = 'OKX-V5', symbol = 'BTC-USDT-SWAP'): BookSample => ({
+  source,
+  receivedAt: start + seconds * 1000,
+  data: {
+    timestamp: new Date(start + seconds * 1000).toISOString(),
+    exchange: 'okx',
+    symbol,
+    action: 'snapshot',
+    asks: [['100', String(askSize)]],
+    bids: [['99', String(bidSize)]]
+  }
+});
+
+const every10s = (count: number, askSize: number) => Array.from({ length: count }, (_, i) => sample(i * 10, askSize));
+
+const config = (overrides: Partial<AlgoConfig>): AlgoConfig => ({
+  algorithm: 'twap',
+  durationSeconds: 50,
+  slices: 5,
+  participationRate: 0.1,
+  displayQuantity: 1000,
+  ...overrides
+});
+
+describe('scheduleSlices', () => {
+  it('splits TWAP orders evenly over the window', () => {
+    expect(scheduleSlices(config({}), 1000, start)).toEqual([0, 10, 20, 30, 40].map((at) => ({ at, quantity: 200 })));
+  });
+
+  it('weights VWAP children by a custom curve spread over the window', () => {
+    const slices = scheduleSlices(config({ algorithm: 'vwap', slices: 4, volumeCurve: [1, 3] }), 800, start);
+
+    expect(slices.map((slice) => slice.quantity)).toEqual([100, 100, 300, 300]);
+  });
+
+  it('falls back to the UTC hourly curve', () => {
+    const slices = scheduleSlices(config({ algorithm: 'vwap', slices: 2, durationSeconds: 7200 }), 1000, start);
+    const [first, second] = hourlyVolumeCurve;
+
+    expect(slices[0].quantity).toBeCloseTo((1000 * first) / (first + second), 9);
+    expect(slices[1]).toMatchObject({ at: 3600 });
+    expect(slices[1].quantity).toBeCloseTo((1000 * second) / (first + second), 9);
+  });
+});
+
+describe('runExecutionAlgo', () => {
+  it('works a TWAP order and measures shortfall against the arrival mid', () => {
+    const report = runExecutionAlgo(every10s(7, 1000), 'BTC-USDT-SWAP', config({}), { side: 'buy', quantity: 1000 });
+
+    expect(report.slices.map((slice) => slice.executedAt)).toEqual([0, 10, 20, 30, 40]);
+    expect(report.complete).toBe(true);
+    expect(report.completionTime).toBe(40);
+    expect(report.filledSize).toBeCloseTo(10, 9);
+    expect(report.vwap.toNumber()).toBeCloseTo(100, 9);
+    expect(report.twap.toNumber()).toBeCloseTo(99.5, 9);
+    // Half a spread on 10 units
+    expect(report.implementationShortfall).toBeCloseTo(5, 9);
+    expect(report.shortfallBps).toBeCloseTo(50, 9);
+  });
+
+  it('carries what a thin book could not fill into the next child', () => {
+    // 0.8 units at 100 absorbs 80 of every child
+    const report = runExecutionAlgo(every10s(4, 0.8), 'BTC-USDT-SWAP', config({ slices: 3, durationSeconds: 30 }), {
+      side: 'buy',
+      quantity: 300
+    });
+
+    expect(report.slices.map((slice) => slice.quantity)).toEqual([100, 120, 140]);
+    expect(report.filledQuantity).toBeCloseTo(240, 9);
+    expect(report.complete).toBe(false);
+    expect(report.completionTime).toBeUndefined();
+    // The unfilled 60 is charged the move since arrival, which is nil here
+    expect(report.implementationShortfall).toBeCloseTo(2.4 * 0.5, 9);
+  });
+
+  it('sizes POV children from the volume implied by queue depletion', () => {
+    // 4 units leave the 100 ask between the first two books
+    const records = [sample(0, 10), sample(10, 6), sample(20, 6)];
+    const report = runExecutionAlgo(records, 'BTC-USDT-SWAP', config({ algorithm: 'pov', slices: 10, durationSeconds: 100, participationRate: 0.2 }), {
+      side: 'sell',
+      quantity: 1000
+    });
+
+    expect(report.path.map((point) => point.volume)).toEqual([0, 4, 0]);
+    expect(report.slices).toHaveLength(1);
+    // 20% of market plus our own volume: 400 * 0.2 / 0.8
+    expect(report.slices[0].quantity).toBeCloseTo(100, 9);
+    expect(report.slices[0].averagePrice).toBe(99);
+  });
+
+  it('sends an iceberg clip each time the touch refreshes', () => {
+    const records = [sample(0, 5), sample(10, 5), sample(20, 8), sample(30, 8)];
+    const report = runExecutionAlgo(records, 'BTC-USDT-SWAP', config({ algorithm: 'iceberg', displayQuantity: 200 }), {
+      side: 'buy',
+      quantity: 1000
+    });
+
+    expect(report.slices.map((slice) => [slice.executedAt, slice.quantity])).toEqual([[0, 200], [20, 200]]);
+  });
+
+  it('follows the first feed the instrument appears on', () => {
+    const cheaper = sample(10, 1000, 1000, 'Bybit');
+    cheaper.data.asks = [['90', '1000']];
+    const [first, ...rest] = every10s(7, 1000);
+    const records = [sample(0, 1000, 1000, 'Bybit', 'ETH-USDT-SWAP'), first, cheaper, ...rest];
+    const report = runExecutionAlgo(records, 'BTC-USDT-SWAP', config({}), { side: 'buy', quantity: 1000 });
+
+    expect(report.slices.every((slice) => slice.averagePrice === 100)).toBe(true);
+    expect(() => runExecutionAlgo(records, 'SOL-USDT-SWAP', config({}), { side: 'buy', quantity: 1000 })).toThrow(
+      'Recording has no books for SOL-USDT-SWAP'
+    );
+  });
+});
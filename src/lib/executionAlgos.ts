@@ -0,0 +1,323 @@
+import { Decimal } from 'decimal.js';
+import { OrderBookData, OrderSide, TimeSeriesData } from './types';
+import { LocalOrderBook, bookSideFor } from './orderBook';
+import { TouchSnapshot, impliedVolume, touchOf, walkTheBook } from './marketMetrics';
+import { BookSample } from './slippageCalibration';
+
+export type ExecutionAlgorithm = 'twap' | 'vwap' | 'pov' | 'iceberg';
+
+export const executionAlgorithms: { id: ExecutionAlgorithm; label: string; description: string }[] = [
+  { id: 'twap', label: 'TWAP', description: 'Equal child orders at equal intervals over the window' },
+  { id: 'vwap', label: 'VWAP', description: 'Child orders sized by the expected volume curve' },
+  { id: 'pov', label: 'POV', description: 'Trades a fixed share of the volume the book shows trading' },
+  { id: 'iceberg', label: 'Iceberg', description: 'Fixed visible clips taken from the touch as it refreshes' }
+];
+
+export interface AlgoConfig {
+  algorithm: ExecutionAlgorithm;
+  /** Execution window in seconds; POV and iceberg stop here if not done */
+  durationSeconds: number;
+  /** Child orders for TWAP and VWAP; POV re-evaluates this often */
+  slices: number;
+  /** POV target share of market volume (0-1) */
+  participationRate: number;
+  /** Iceberg clip size in quote currency */
+  displayQuantity: number;
+  /** VWAP volume weights spread evenly over the window; the UTC hourly curve when unset */
+  volumeCurve?: number[];
+}
+
+export interface AlgoOrder {
+  side: OrderSide;
+  /** Parent order in quote currency */
+  quantity: number;
+}
+
+export interface AlgoSlice {
+  index: number;
+  /** Seconds after the start at which the child was due */
+  scheduledAt: number;
+  /** Seconds after the start at which it executed */
+  executedAt: number;
+  /** Quote quantity sent */
+  quantity: number;
+  /** Quote quantity the book absorbed */
+  filledQuantity: number;
+  filledSize: number;
+  averagePrice: number;
+  /** Average price versus the touch when sent, as a percentage; positive is a cost */
+  slippage: number;
+  /** Average price versus the arrival mid, as a percentage; positive is a cost */
+  shortfall: number;
+}
+
+export interface AlgoExecutionReport {
+  algorithm: ExecutionAlgorithm;
+  side: OrderSide;
+  requestedQuantity: number;
+  filledQuantity: number;
+  filledSize: number;
+  /** Epoch milliseconds of the first book, 0 before the algorithm has started */
+  startedAt: number;
+  /** Mid price when the parent order arrived */
+  arrivalPrice: number;
+  /** Book the parent order arrived into */
+  arrivalBook?: OrderBookData;
+  /** Volume-weighted price of every child fill */
+  vwap: Decimal;
+  /** Time-weighted mid price over the execution window */
+  twap: Decimal;
+  /** Cost versus filling everything at the arrival mid, in quote currency, including
+   *  the move on any unfilled remainder */
+  implementationShortfall: number;
+  /** Shortfall in basis points of the parent notional */
+  shortfallBps: number;
+  /** Seconds from arrival to the last fill, or undefined while incomplete */
+  completionTime?: number;
+  elapsed: number;
+  complete: boolean;
+  slices: AlgoSlice[];
+  /** Touch on every book seen, with the volume the book implies traded since the last one */
+  path: MarketPathPoint[];
+}
+
+/** The market-data part of TimeSeriesData; volume is in base units */
+export type MarketPathPoint = Pick<TimeSeriesData, 'timestamp' | 'bestBid' | 'bestAsk' | 'volume' | 'vwap'>;
+
+// Levels per side kept from the arrival book for post-trade analysis
+const arrivalDepth = 50;
+
+// Share of daily crypto volume traded in each UTC hour, peaking over the
+// European and US sessions
+export const hourlyVolumeCurve = [
+  0.9, 0.8, 0.75, 0.7, 0.65, 0.65, 0.7, 0.8, 0.95, 1.05, 1.1, 1.1,
+  1.15, 1.3, 1.45, 1.5, 1.4, 1.25, 1.1, 1.0, 0.95, 0.9, 0.9, 0.9
+];
+
+/**
+ * Splits a parent order for the scheduled algorithms
+ * @param config TWAP or VWAP configuration
+ * @param quantity Parent order in quote currency
+ * @param startTime Epoch milliseconds of the first child, for the hourly curve
+ * @returns Due time in seconds and quote quantity of every child
+ */
+export function scheduleSlices(config: AlgoConfig, quantity: number, startTime: number): { at: number; quantity: number }[] {
+  const slices = Math.max(1, Math.round(config.slices));
+  const interval = config.durationSeconds / slices;
+  const weights = Array.from({ length: slices }, (_, i) => {
+    if (config.algorithm !== 'vwap') return 1;
+    const curve = config.volumeCurve;
+    if (curve && curve.length > 0) return curve[Math.min(curve.length - 1, Math.floor((i / slices) * curve.length))];
+    return hourlyVolumeCurve[new Date(startTime + i * interval * 1000).getUTCHours()];
+  });
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  return weights.map((weight, i) => ({ at: i * interval, quantity: total > 0 ? (quantity * weight) / total : quantity / slices }));
+}
+
+/**
+ * Works a parent order as child market orders against a stream of books, live
+ * or replayed. Each child walks the book it is sent into; the book is not
+ * depleted between children, so later children see whatever the feed shows.
+ */
+export class ExecutionAlgoEngine {
+  private startTime: number | null = null;
+  private lastTime = 0;
+  private lastMid = 0;
+  private arrivalPrice = 0;
+  private arrivalBook: OrderBookData | undefined;
+  private weightedMid = 0;
+  private remaining: number;
+  private schedule: { at: number; quantity: number }[] = [];
+  private nextSlice = 0;
+  private carried = 0;
+  private lastTouch: TouchSnapshot | null = null;
+  private observedVolume = 0;
+  private lastEvaluation = 0;
+  private completedAt: number | undefined;
+  private slices: AlgoSlice[] = [];
+  private path: MarketPathPoint[] = [];
+
+  constructor(private readonly config: AlgoConfig, private readonly order: AlgoOrder) {
+    this.remaining = order.quantity;
+  }
+
+  /**
+   * Advances the algorithm to a new book, sending any child orders now due
+   * @param book Current book (must be ready)
+   * @param time Epoch milliseconds of the book
+   * @returns Children executed on this book
+   */
+  onBook(book: LocalOrderBook, time: number): AlgoSlice[] {
+    const touch = touchOf(book);
+    if (!touch || this.isDone()) return [];
+
+    const mid = book.midPrice();
+    if (this.startTime === null) {
+      this.startTime = time;
+      this.lastTime = time;
+      this.arrivalPrice = mid;
+      this.arrivalBook = book.toOrderBookData(arrivalDepth);
+      this.schedule = this.config.algorithm === 'twap' || this.config.algorithm === 'vwap'
+        ? scheduleSlices(this.config, this.order.quantity, time)
+        : [];
+    }
+    this.weightedMid += this.lastMid * (time - this.lastTime);
+    this.lastTime = time;
+    this.lastMid = mid;
+
+    const traded = this.lastTouch ? impliedVolume(this.lastTouch, touch) : { size: 0, notional: 0 };
+    this.path.push({
+      timestamp: new Date(time),
+      bestBid: touch.bidPrice,
+      bestAsk: touch.askPrice,
+      volume: traded.size,
+      vwap: traded.size > 0 ? traded.notional / traded.size : mid
+    });
+
+    const elapsed = (time - this.startTime) / 1000;
+    const executed: AlgoSlice[] = [];
+    const send = (scheduledAt: number, quantity: number) => {
+      const slice = this.execute(book, scheduledAt, elapsed, Math.min(quantity, this.remaining));
+      if (slice) executed.push(slice);
+    };
+
+    switch (this.config.algorithm) {
+      case 'twap':
+      case 'vwap':
+        // A thin book's shortfall is carried into the next child
+        while (this.nextSlice < this.schedule.length && this.schedule[this.nextSlice].at <= elapsed && this.remaining > 0) {
+          const { at, quantity } = this.schedule[this.nextSlice++];
+          const isLast = this.nextSlice === this.schedule.length;
+          send(at, isLast ? this.remaining : quantity + this.carried);
+        }
+        break;
+      case 'pov': {
+        this.observedVolume += traded.notional;
+        const interval = this.config.durationSeconds / Math.max(1, this.config.slices);
+        if (elapsed - this.lastEvaluation >= interval && this.observedVolume > 0) {
+          // Our volume over market plus ours equals the participation rate
+          const rate = Math.min(Math.max(this.config.participationRate, 0), 0.99);
+          send(elapsed, (this.observedVolume * rate) / (1 - rate));
+          this.observedVolume = 0;
+          this.lastEvaluation = elapsed;
+        }
+        break;
+      }
+      case 'iceberg': {
+        // A new clip goes out once the touch has refreshed after the last one
+        const ownTouch = this.order.side === 'buy'
+          ? { price: touch.askPrice, size: touch.askSize }
+          : { price: touch.bidPrice, size: touch.bidSize };
+        const refreshed = !this.lastTouch || this.slices.length === 0 ||
+          (this.order.side === 'buy'
+            ? touch.askPrice !== this.lastTouch.askPrice || touch.askSize > this.lastTouch.askSize
+            : touch.bidPrice !== this.lastTouch.bidPrice || touch.bidSize > this.lastTouch.bidSize);
+        if (refreshed) send(elapsed, Math.min(this.config.displayQuantity, ownTouch.size * ownTouch.price));
+        break;
+      }
+    }
+    this.lastTouch = touch;
+    return executed;
+  }
+
+  isDone(): boolean {
+    if (this.remaining <= 1e-9) return true;
+    if (this.startTime === null) return false;
+    return (this.lastTime - this.startTime) / 1000 >= this.config.durationSeconds &&
+      (this.config.algorithm === 'pov' || this.config.algorithm === 'iceberg' || this.nextSlice >= this.schedule.length);
+  }
+
+  report(): AlgoExecutionReport {
+    const filledQuantity = this.slices.reduce((sum, slice) => sum + slice.filledQuantity, 0);
+    const filledSize = this.slices.reduce((sum, slice) => sum + slice.filledSize, 0);
+    const elapsed = this.startTime === null ? 0 : (this.lastTime - this.startTime) / 1000;
+    const direction = this.order.side === 'buy' ? 1 : -1;
+    const arrival = this.arrivalPrice;
+
+    // Filled part versus arrival, plus the move since arrival on what is left
+    const fillCost = this.slices.reduce((sum, slice) => sum + direction * (slice.averagePrice - arrival) * slice.filledSize, 0);
+    const unfilled = Math.max(0, this.order.quantity - filledQuantity);
+    const opportunityCost = arrival > 0 ? (direction * unfilled * (this.lastMid - arrival)) / arrival : 0;
+    const implementationShortfall = fillCost + opportunityCost;
+    const twap = elapsed > 0
+      ? new Decimal(this.weightedMid).div((this.lastTime - (this.startTime ?? 0)))
+      : new Decimal(this.lastMid);
+
+    return {
+      algorithm: this.config.algorithm,
+      side: this.order.side,
+      requestedQuantity: this.order.quantity,
+      filledQuantity,
+      filledSize,
+      startedAt: this.startTime ?? 0,
+      arrivalPrice: arrival,
+      arrivalBook: this.arrivalBook,
+      vwap: filledSize > 0 ? new Decimal(filledQuantity).div(filledSize) : new Decimal(0),
+      twap,
+      implementationShortfall,
+      shortfallBps: this.order.quantity > 0 ? (implementationShortfall / this.order.quantity) * 10000 : 0,
+      completionTime: this.completedAt,
+      elapsed,
+      complete: this.remaining <= 1e-9,
+      slices: this.slices,
+      path: this.path
+    };
+  }
+
+  private execute(book: LocalOrderBook, scheduledAt: number, executedAt: number, quantity: number): AlgoSlice | null {
+    if (quantity <= 0) return null;
+
+    const walk = walkTheBook(book, quantity, this.order.side);
+    const direction = this.order.side === 'buy' ? 1 : -1;
+    this.remaining = Math.max(0, this.remaining - walk.filledQuantity);
+    this.carried = walk.unfilledQuantity;
+    if (this.remaining <= 1e-9 && this.completedAt === undefined) this.completedAt = executedAt;
+
+    const slice: AlgoSlice = {
+      index: this.slices.length,
+      scheduledAt,
+      executedAt,
+      quantity,
+      filledQuantity: walk.filledQuantity,
+      filledSize: walk.filledSize,
+      averagePrice: walk.averagePrice,
+      slippage: walk.slippage,
+      shortfall: walk.filledSize > 0 && this.arrivalPrice > 0
+        ? ((direction * (walk.averagePrice - this.arrivalPrice)) / this.arrivalPrice) * 100
+        : 0
+    };
+    this.slices.push(slice);
+    return slice;
+  }
+}
+
+/**
+ * Runs an execution algorithm over a recording, using the recorded receive
+ * times as the clock
+ * @param records Recorded books in receive order
+ * @param symbol Instrument to execute; other instruments are skipped
+ * @param config Algorithm and its settings
+ * @param order Parent order side and quote quantity
+ * @returns Report at completion, or when the recording runs out
+ */
+export function runExecutionAlgo(records: BookSample[], symbol: string, config: AlgoConfig, order: AlgoOrder): AlgoExecutionReport {
+  const engine = new ExecutionAlgoEngine(config, order);
+  const book = new LocalOrderBook();
+  let source: string | null = null;
+
+  for (const record of records) {
+    if (record.data.symbol !== symbol) continue;
+    // Only follow the first feed the instrument appears on
+    source ??= record.source;
+    if (record.source !== source) continue;
+    if (!book.apply(record.data) || !book.isReady() || !book.levelAt(bookSideFor(order.side), 0)) continue;
+
+    engine.onBook(book, record.receivedAt);
+    if (engine.isDone()) break;
+  }
+
+  if (source === null) {
+    throw new Error(`Recording has no books for ${symbol}`);
+  }
+  return engine.report();
+}
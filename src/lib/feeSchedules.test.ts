@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { FeeSchedule, FeeScheduleRegistry, discountToken, parseFeeSchedule, resolveFeeRates } from './feeSchedules';
+
+const schedule = (overrides: Partial<FeeSchedule>): FeeSchedule => ({
+  schema: 1,
+  exchange: 'OKX',
+  product: 'perp',
+  version: '2024-01',
+  effectiveFrom: '2024-01-01',
+  defaultTier: 'VIP 0',
+  tiers: [
+    { tier: 'VIP 0', maker: 0.0002, taker: 0.0005 },
+    { tier: 'VIP 1', maker: 0, taker: 0.0004 }
+  ],
+  ...overrides
+});
+
+const okx2024 = schedule({});
+const okx2025 = schedule({
+  version: '2025-01',
+  effectiveFrom: '2025-01-01',
+  tiers: [{ tier: 'VIP 0', maker: 0.0001, taker: 0.0004 }],
+  rules: [
+    { kind: 'token-discount', token: 'OKB', discount: 0.25 },
+    { kind: 'rebate', liquidity: 'maker', rate: 0.0002, tiers: ['VIP 0'] }
+  ]
+});
+const okxSpot = schedule({ product: 'spot', version: 'spot', tiers: [{ tier: 'VIP 0', maker: 0.0008, taker: 0.001 }] });
+
+const registry = () => new FeeScheduleRegistry([okx2024, okx2025, okxSpot], false);
+const at = (date: string) => Date.parse(date);
+
+describe('FeeScheduleRegistry', () => {
+  it('resolves the latest revision already in effect', () => {
+    const fees = registry();
+
+    expect(fees.resolve('OKX', 'perp', at('2024-06-01'))?.version).toBe('2024-01');
+    expect(fees.resolve('OKX', 'perp', at('2025-06-01'))?.version).toBe('2025-01');
+    expect(fees.resolve('OKX', 'perp', at('2023-06-01'))).toBeUndefined();
+    expect(fees.resolve('Bybit', 'perp', at('2025-06-01'))).toBeUndefined();
+  });
+
+  it('lets an import replace the built-in revision with the same effective date', () => {
+    const fees = registry();
+    fees.import({ ...okx2024, version: 'edited', tiers: [{ tier: 'VIP 0', maker: 0.0003, taker: 0.0006 }] });
+
+    expect(fees.list()).toHaveLength(3);
+    expect(fees.resolve('OKX', 'perp', at('2024-06-01'))?.version).toBe('edited');
+
+    fees.reset();
+    expect(fees.resolve('OKX', 'perp', at('2024-06-01'))?.version).toBe('2024-01');
+  });
+
+  it('imports nothing when any schedule in a batch is invalid', () => {
+    const fees = registry();
+
+    expect(() => fees.import([schedule({ exchange: 'Bybit' }), { ...okx2024, schema: 2 }])).toThrow('Unsupported fee schedule schema');
+    expect(fees.resolve('Bybit', 'perp', at('2024-06-01'))).toBeUndefined();
+  });
+});
+
+describe('parseFeeSchedule', () => {
+  it('names what is wrong with a schedule', () => {
+    expect(() => parseFeeSchedule({ ...okx2024, product: 'options' })).toThrow('product of spot, perp or futures');
+    expect(() => parseFeeSchedule({ ...okx2024, effectiveFrom: 'soon' })).toThrow('valid effectiveFrom date');
+    expect(() => parseFeeSchedule({ ...okx2024, tiers: [] })).toThrow('has no tiers');
+    expect(() => parseFeeSchedule({ ...okx2024, defaultTier: 'VIP 9' })).toThrow('Default tier VIP 9');
+    expect(() => parseFeeSchedule({ ...okx2024, rules: [{ kind: 'token-discount', token: 'OKB', discount: 2 }] })).toThrow(
+      'Invalid fee rule'
+    );
+    expect(parseFeeSchedule(okx2025)).toBe(okx2025);
+  });
+});
+
+describe('resolveFeeRates', () => {
+  it('returns the tier rates of the schedule in force', () => {
+    const quote = resolveFeeRates({ exchange: 'OKX', product: 'perp', at: at('2024-06-01') }, 'VIP 1', registry());
+
+    expect(quote).toEqual({ exchange: 'OKX', product: 'perp', tier: 'VIP 1', version: '2024-01', maker: 0, taker: 0.0004, warning: undefined });
+  });
+
+  it('applies the token discount to positive rates before rebates', () => {
+    const fees = registry();
+    const market = { exchange: 'OKX', product: 'perp' as const, at: at('2025-06-01') };
+
+    const cash = resolveFeeRates(market, 'VIP 0', fees);
+    expect(cash.maker).toBeCloseTo(-0.0001, 12);
+    expect(cash.taker).toBeCloseTo(0.0004, 12);
+
+    const token = resolveFeeRates({ ...market, payInToken: true }, 'VIP 0', fees);
+    expect(token.maker).toBeCloseTo(0.000075 - 0.0002, 12);
+    expect(token.taker).toBeCloseTo(0.0003, 12);
+  });
+
+  it('falls back to the default tier and market with a warning', () => {
+    const fees = registry();
+
+    const tier = resolveFeeRates({ exchange: 'OKX', product: 'perp', at: at('2024-06-01') }, 'VIP 7', fees);
+    expect(tier.tier).toBe('VIP 0');
+    expect(tier.warning).toBe('Unknown fee tier VIP 7; using VIP 0');
+
+    const market = resolveFeeRates({ exchange: 'Kraken', product: 'perp', at: at('2024-06-01') }, 'VIP 0', fees);
+    expect(market).toMatchObject({ exchange: 'OKX', product: 'spot', taker: 0.001 });
+    expect(market.warning).toBe('No perp fee schedule for Kraken; using OKX spot');
+  });
+});
+
+describe('discountToken', () => {
+  it('finds the token of a discount rule', () => {
+    expect(discountToken(okx2025)).toBe('OKB');
+    expect(discountToken(okx2024)).toBeUndefined();
+  });
+});
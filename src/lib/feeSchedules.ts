@@ -0,0 +1,363 @@
+import { FeeQuote, ProductType } from './types';
+
+export const FEE_SCHEDULE_SCHEMA = 1;
+
+export interface FeeTierRates {
+  tier: string;
+  /** Fractions of notional; a negative maker rate is a rebate */
+  maker: number;
+  taker: number;
+}
+
+/** Fees paid in the venue's token are reduced by `discount` (e.g. 0.25 for 25% off) */
+export interface TokenDiscountRule {
+  kind: 'token-discount';
+  token: string;
+  discount: number;
+}
+
+/** Fixed rebate subtracted from one side's rate, optionally for some tiers only */
+export interface RebateRule {
+  kind: 'rebate';
+  liquidity: 'maker' | 'taker';
+  /** Fraction of notional paid back */
+  rate: number;
+  /** Tiers the rebate applies to; all tiers when unset */
+  tiers?: string[];
+}
+
+export type FeeRule = TokenDiscountRule | RebateRule;
+
+export interface FeeSchedule {
+  schema: typeof FEE_SCHEDULE_SCHEMA;
+  /** Venue, as in FeedAdapter.venue */
+  exchange: string;
+  product: ProductType;
+  /** Label for this revision of the venue's schedule, e.g. 2024-01 */
+  version: string;
+  /** ISO date from which this revision applies; the latest one not in the future wins */
+  effectiveFrom: string;
+  /** Tier used when the requested tier is not listed */
+  defaultTier: string;
+  tiers: FeeTierRates[];
+  rules?: FeeRule[];
+}
+
+/** Where and when an order is priced */
+export interface FeeMarket {
+  exchange: string;
+  product: ProductType;
+  /** Epoch milliseconds at which the schedule is resolved (defaults to now) */
+  at?: number;
+  /** Apply the schedule's token discount */
+  payInToken?: boolean;
+}
+
+// Used when no schedule matches the requested market
+export const defaultFeeMarket: FeeMarket = { exchange: 'OKX', product: 'spot' };
+
+const tiers = (rows: [string, number, number][]): FeeTierRates[] =>
+  rows.map(([tier, maker, taker]) => ({ tier, maker, taker }));
+
+// Published schedules for the venues the simulator streams, as of their effective date
+export const builtInFeeSchedules: FeeSchedule[] = [
+  {
+    schema: FEE_SCHEDULE_SCHEMA,
+    exchange: 'OKX',
+    product: 'spot',
+    version: '2024-01',
+    effectiveFrom: '2024-01-01',
+    defaultTier: 'VIP 0',
+    tiers: tiers([
+      // Regular users
+      ['Lvl 1', 0.0008, 0.0010],
+      ['Lvl 2', 0.00075, 0.0009],
+      ['Lvl 3', 0.0007, 0.0008],
+      ['Lvl 4', 0.00065, 0.0007],
+      ['Lvl 5', 0.0006, 0.0006],
+      // VIP users; VIP 0 is kept for backward compatibility
+      ['VIP 0', 0.0008, 0.0010],
+      ['VIP 1', 0.00045, 0.0005],
+      ['VIP 2', 0.0004, 0.00045],
+      ['VIP 3', 0.0003, 0.0004],
+      ['VIP 4', 0.0002, 0.00035],
+      ['VIP 5', 0.0, 0.0003],
+      ['VIP 6', -0.00002, 0.00025],
+      ['VIP 7', -0.00005, 0.0002],
+      ['VIP 8', -0.00005, 0.00015]
+    ])
+  },
+  ...(['perp', 'futures'] as const).map((product): FeeSchedule => ({
+    schema: FEE_SCHEDULE_SCHEMA,
+    exchange: 'OKX',
+    product,
+    version: '2024-01',
+    effectiveFrom: '2024-01-01',
+    defaultTier: 'VIP 0',
+    tiers: tiers([
+      ['Lvl 1', 0.0002, 0.0005],
+      ['Lvl 2', 0.00018, 0.00045],
+      ['Lvl 3', 0.00016, 0.0004],
+      ['Lvl 4', 0.00014, 0.00035],
+      ['Lvl 5', 0.00012, 0.0003],
+      ['VIP 0', 0.0002, 0.0005],
+      ['VIP 1', 0.0001, 0.0003],
+      ['VIP 2', 0.00008, 0.0003],
+      ['VIP 3', 0.00005, 0.00027],
+      ['VIP 4', 0.00003, 0.00025],
+      ['VIP 5', 0.0, 0.00023],
+      ['VIP 6', -0.00001, 0.0002],
+      ['VIP 7', -0.00002, 0.00018],
+      ['VIP 8', -0.00002, 0.00015]
+    ])
+  })),
+  {
+    schema: FEE_SCHEDULE_SCHEMA,
+    exchange: 'Binance',
+    product: 'spot',
+    version: '2024-01',
+    effectiveFrom: '2024-01-01',
+    defaultTier: 'Regular',
+    tiers: tiers([
+      ['Regular', 0.001, 0.001],
+      ['VIP 1', 0.0009, 0.001],
+      ['VIP 2', 0.0008, 0.001],
+      ['VIP 3', 0.00042, 0.0006],
+      ['VIP 4', 0.00042, 0.00054],
+      ['VIP 5', 0.00036, 0.00048],
+      ['VIP 6', 0.0003, 0.00042],
+      ['VIP 7', 0.00024, 0.00036],
+      ['VIP 8', 0.00018, 0.0003],
+      ['VIP 9', 0.00012, 0.00024]
+    ]),
+    rules: [{ kind: 'token-discount', token: 'BNB', discount: 0.25 }]
+  },
+  {
+    schema: FEE_SCHEDULE_SCHEMA,
+    exchange: 'Binance',
+    product: 'perp',
+    version: '2024-01',
+    effectiveFrom: '2024-01-01',
+    defaultTier: 'Regular',
+    tiers: tiers([
+      ['Regular', 0.0002, 0.0005],
+      ['VIP 1', 0.00016, 0.0004],
+      ['VIP 2', 0.00014, 0.00035],
+      ['VIP 3', 0.00012, 0.00032],
+      ['VIP 4', 0.0001, 0.0003],
+      ['VIP 5', 0.00008, 0.00027],
+      ['VIP 6', 0.00006, 0.00025],
+      ['VIP 7', 0.00004, 0.00022],
+      ['VIP 8', 0.00002, 0.0002],
+      ['VIP 9', 0.0, 0.00017]
+    ]),
+    rules: [{ kind: 'token-discount', token: 'BNB', discount: 0.1 }]
+  },
+  {
+    schema: FEE_SCHEDULE_SCHEMA,
+    exchange: 'Bybit',
+    product: 'spot',
+    version: '2024-01',
+    effectiveFrom: '2024-01-01',
+    defaultTier: 'Non-VIP',
+    tiers: tiers([
+      ['Non-VIP', 0.001, 0.001],
+      ['VIP 1', 0.000675, 0.0008],
+      ['VIP 2', 0.00065, 0.000775],
+      ['VIP 3', 0.000625, 0.00075],
+      ['VIP 4', 0.0006, 0.0006],
+      ['VIP 5', 0.0005, 0.0005]
+    ])
+  },
+  {
+    schema: FEE_SCHEDULE_SCHEMA,
+    exchange: 'Bybit',
+    product: 'perp',
+    version: '2024-01',
+    effectiveFrom: '2024-01-01',
+    defaultTier: 'Non-VIP',
+    tiers: tiers([
+      ['Non-VIP', 0.0002, 0.00055],
+      ['VIP 1', 0.00018, 0.0004],
+      ['VIP 2', 0.00016, 0.000375],
+      ['VIP 3', 0.00014, 0.00035],
+      ['VIP 4', 0.00012, 0.00032],
+      ['VIP 5', 0.0001, 0.00032]
+    ])
+  }
+];
+
+const STORAGE_KEY = 'goquant-fee-schedules';
+
+const sameRevision = (a: FeeSchedule, b: FeeSchedule): boolean =>
+  a.exchange === b.exchange && a.product === b.product && a.effectiveFrom === b.effectiveFrom;
+
+/**
+ * Validates a schedule read from JSON
+ * @param value Parsed JSON
+ * @returns The schedule
+ * @throws Error if the schema or fields do not match
+ */
+export function parseFeeSchedule(value: unknown): FeeSchedule {
+  const schedule = value as FeeSchedule;
+  if (!schedule || schedule.schema !== FEE_SCHEDULE_SCHEMA) {
+    throw new Error(`Unsupported fee schedule schema, expected ${FEE_SCHEDULE_SCHEMA}`);
+  }
+  if (typeof schedule.exchange !== 'string' || !['spot', 'perp', 'futures'].includes(schedule.product)) {
+    throw new Error('Fee schedule needs an exchange and a product of spot, perp or futures');
+  }
+  if (typeof schedule.version !== 'string' || Number.isNaN(Date.parse(schedule.effectiveFrom))) {
+    throw new Error(`Fee schedule for ${schedule.exchange} ${schedule.product} needs a version and a valid effectiveFrom date`);
+  }
+  if (!Array.isArray(schedule.tiers) || schedule.tiers.length === 0) {
+    throw new Error(`Fee schedule for ${schedule.exchange} ${schedule.product} has no tiers`);
+  }
+  for (const tier of schedule.tiers) {
+    if (typeof tier.tier !== 'string' || typeof tier.maker !== 'number' || typeof tier.taker !== 'number') {
+      throw new Error(`Fee tier ${tier.tier ?? '?'} needs numeric maker and taker rates`);
+    }
+  }
+  if (!schedule.tiers.some((tier) => tier.tier === schedule.defaultTier)) {
+    throw new Error(`Default tier ${schedule.defaultTier} is not in the ${schedule.exchange} ${schedule.product} schedule`);
+  }
+  for (const rule of schedule.rules ?? []) {
+    const valid = rule.kind === 'token-discount'
+      ? typeof rule.token === 'string' && rule.discount >= 0 && rule.discount <= 1
+      : rule.kind === 'rebate' && (rule.liquidity === 'maker' || rule.liquidity === 'taker') && typeof rule.rate === 'number';
+    if (!valid) {
+      throw new Error(`Invalid fee rule in the ${schedule.exchange} ${schedule.product} schedule`);
+    }
+  }
+  return schedule;
+}
+
+/**
+ * Fee schedules per venue, product and effective date. Built-in schedules can be
+ * overridden or extended by importing JSON; imports persist to localStorage
+ * when available.
+ */
+export class FeeScheduleRegistry {
+  private imported: FeeSchedule[] = [];
+
+  constructor(
+    private readonly builtIn: FeeSchedule[] = builtInFeeSchedules,
+    private readonly persist: boolean = typeof localStorage !== 'undefined'
+  ) {
+    if (!this.persist) return;
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]') as unknown[];
+      this.imported = stored.map(parseFeeSchedule);
+    } catch {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  }
+
+  /**
+   * All schedules; an imported revision replaces a built-in one with the same
+   * venue, product and effective date
+   */
+  list(): FeeSchedule[] {
+    return [
+      ...this.builtIn.filter((schedule) => !this.imported.some((other) => sameRevision(schedule, other))),
+      ...this.imported
+    ];
+  }
+
+  /**
+   * @returns The revision in effect for the market at `at`, or undefined if the venue has none
+   */
+  resolve(exchange: string, product: ProductType, at: number = Date.now()): FeeSchedule | undefined {
+    return this.list()
+      .filter((schedule) => schedule.exchange === exchange && schedule.product === product && Date.parse(schedule.effectiveFrom) <= at)
+      .sort((a, b) => Date.parse(b.effectiveFrom) - Date.parse(a.effectiveFrom))[0];
+  }
+
+  /**
+   * Adds schedules from parsed JSON, a single schedule or an array of them
+   * @returns The imported schedules
+   * @throws Error if any schedule is invalid; nothing is imported in that case
+   */
+  import(value: unknown): FeeSchedule[] {
+    const schedules = (Array.isArray(value) ? value : [value]).map(parseFeeSchedule);
+    this.imported = [
+      ...this.imported.filter((existing) => !schedules.some((schedule) => sameRevision(existing, schedule))),
+      ...schedules
+    ];
+    this.save();
+    return schedules;
+  }
+
+  /** Drops every imported schedule, leaving the built-in ones */
+  reset(): void {
+    this.imported = [];
+    this.save();
+  }
+
+  private save(): void {
+    if (!this.persist) return;
+    if (this.imported.length > 0) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.imported));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  }
+}
+
+export const feeScheduleRegistry = new FeeScheduleRegistry();
+
+/**
+ * Resolves the effective rates for a tier: the schedule in force for the
+ * market, then the token discount on positive rates if requested, then rebates.
+ * Falls back to the default market's schedule or the schedule's default tier,
+ * with a warning, when the venue or tier is unknown.
+ * @param market Venue, product, pricing time and token payment
+ * @param tier Fee tier name
+ * @param registry Schedules to resolve against
+ * @returns Maker and taker rates as fractions of notional
+ */
+export function resolveFeeRates(market: FeeMarket, tier: string, registry: FeeScheduleRegistry = feeScheduleRegistry): FeeQuote {
+  const at = market.at ?? Date.now();
+  let schedule = registry.resolve(market.exchange, market.product, at);
+  const warnings: string[] = [];
+  if (!schedule) {
+    schedule = registry.resolve(defaultFeeMarket.exchange, defaultFeeMarket.product, at) ?? builtInFeeSchedules[0];
+    warnings.push(`No ${market.product} fee schedule for ${market.exchange}; using ${schedule.exchange} ${schedule.product}`);
+  }
+
+  let rates = schedule.tiers.find((candidate) => candidate.tier === tier);
+  if (!rates) {
+    rates = schedule.tiers.find((candidate) => candidate.tier === schedule.defaultTier) ?? schedule.tiers[0];
+    warnings.push(`Unknown fee tier ${tier}; using ${rates.tier}`);
+  }
+
+  let { maker, taker } = rates;
+  for (const rule of schedule.rules ?? []) {
+    if (rule.kind === 'token-discount' && market.payInToken) {
+      maker = maker > 0 ? maker * (1 - rule.discount) : maker;
+      taker = taker > 0 ? taker * (1 - rule.discount) : taker;
+    }
+  }
+  for (const rule of schedule.rules ?? []) {
+    if (rule.kind === 'rebate' && (!rule.tiers || rule.tiers.includes(rates.tier))) {
+      if (rule.liquidity === 'maker') maker -= rule.rate;
+      else taker -= rule.rate;
+    }
+  }
+
+  return {
+    exchange: schedule.exchange,
+    product: schedule.product,
+    tier: rates.tier,
+    version: schedule.version,
+    maker,
+    taker,
+    warning: warnings.length > 0 ? warnings.join('. ') : undefined
+  };
+}
+
+/**
+ * Token whose payment earns a discount in the schedule, if any
+ */
+export function discountToken(schedule: FeeSchedule | undefined): string | undefined {
+  return schedule?.rules?.find((rule): rule is TokenDiscountRule => rule.kind === 'token-discount')?.token;
+}
@@ -0,0 +1,203 @@
+import { describe, expect, it } from 'vitest';
+import { binanceAdapter, bybitAdapter, goMarketAdapter, okxAdapter } from './feedAdapters';
+import { LocalOrderBook } from './orderBook';
+import { BookIntegrityMonitor } from './bookIntegrity';
+import goMarketRecording from './__fixtures__/gomarket.txt?raw';
+import okxRecording from './__fixtures__/okx-v5.txt?raw';
+import binanceRecording from './__fixtures__/binance.txt?raw';
+import bybitRecording from './__fixtures__/bybit.txt?raw';
+
+// Fixtures hold one raw WebSocket frame per line, in the order they were received
+const framesOf = (recording: string): string[] => recording.split('\n').filter((line) => line.trim() !== '');
+
+describe('goMarketAdapter', () => {
+  const [book, funding, heartbeat] = framesOf(goMarketRecording);
+
+  it('passes full books through as snapshots', () => {
+    expect(goMarketAdapter.parseMessage(book)).toEqual({
+      timestamp: '2024-06-03T10:20:00Z',
+      exchange: 'OKX',
+      symbol: 'BTC-USDT-SWAP',
+      action: 'snapshot',
+      asks: [['67012.4', '3.21'], ['67012.5', '0.8'], ['67013.0', '12.05']],
+      bids: [['67012.3', '5.02'], ['67011.9', '0.35'], ['67011.5', '2.0']]
+    });
+  });
+
+  it('parses funding frames', () => {
+    expect(goMarketAdapter.parseMessage(funding)).toBeNull();
+    expect(goMarketAdapter.parseFunding!(funding)).toEqual({
+      timestamp: '2024-06-03T10:20:01Z',
+      exchange: 'OKX',
+      symbol: 'BTC-USDT-SWAP',
+      fundingRate: 0.0000792,
+      predictedRate: 0.0001,
+      nextFundingTime: 1717430400000,
+      intervalHours: 8
+    });
+  });
+
+  it('ignores frames without book or funding data', () => {
+    expect(goMarketAdapter.parseMessage(heartbeat)).toBeNull();
+    expect(goMarketAdapter.parseFunding!(heartbeat)).toBeNull();
+  });
+});
+
+describe('okxAdapter', () => {
+  const [booksAck, fundingAck, snapshot, update, pong, funding, error] = framesOf(okxRecording);
+
+  it('normalizes the books snapshot with sizes converted from contracts to BTC', () => {
+    expect(okxAdapter.parseMessage(snapshot)).toEqual({
+      timestamp: '2024-06-03T10:20:00.123Z',
+      exchange: 'okx',
+      symbol: 'BTC-USDT-SWAP',
+      action: 'snapshot',
+      asks: [
+        ['67012.4', '0.0321', '3.21'],
+        ['67012.5', '0.008', '0.8'],
+        ['67013', '0.1205', '12.05'],
+        ['67013.7', '0.01', '1'],
+        ['67014.2', '0.044', '4.4']
+      ],
+      bids: [
+        ['67012.3', '0.0502', '5.02'],
+        ['67011.9', '0.0035', '0.35'],
+        ['67011.5', '0.02', '2'],
+        ['67010.8', '0.077', '7.7'],
+        ['67010', '0.151', '15.1']
+      ],
+      seqId: 30119446051,
+      prevSeqId: undefined,
+      checksum: 2027332678
+    });
+  });
+
+  it('normalizes incremental updates with their sequence link', () => {
+    expect(okxAdapter.parseMessage(update)).toEqual({
+      timestamp: '2024-06-03T10:20:00.223Z',
+      exchange: 'okx',
+      symbol: 'BTC-USDT-SWAP',
+      action: 'update',
+      asks: [['67012.4', '0.0271', '2.71'], ['67013', '0', '0']],
+      bids: [['67012.35', '0.005', '0.5']],
+      seqId: 30119446063,
+      prevSeqId: 30119446051,
+      checksum: 869305764
+    });
+  });
+
+  it('produces books that pass the sequence and checksum checks', () => {
+    const book = new LocalOrderBook();
+    const integrity = new BookIntegrityMonitor();
+    for (const frame of [snapshot, update]) {
+      const message = okxAdapter.parseMessage(frame)!;
+      expect(integrity.checkSequence(message)).toBeNull();
+      expect(book.apply(message)).toBe(true);
+      expect(integrity.checkChecksum(book, message)).toBeNull();
+    }
+    expect(book.bestBid()?.price).toBe(67012.35);
+    expect(book.bestBid()?.size).toBe(0.005);
+    expect(book.levelCount('asks')).toBe(4);
+  });
+
+  it('parses funding-rate frames', () => {
+    expect(okxAdapter.parseMessage(funding)).toBeNull();
+    expect(okxAdapter.parseFunding!(funding)).toEqual({
+      timestamp: '2024-06-03T10:20:00.500Z',
+      exchange: 'okx',
+      symbol: 'BTC-USDT-SWAP',
+      fundingRate: 0.0000792319116783,
+      predictedRate: undefined,
+      nextFundingTime: 1717430400000,
+      intervalHours: 8
+    });
+  });
+
+  it('ignores acks, pongs and errors', () => {
+    for (const frame of [booksAck, fundingAck, pong, error]) {
+      expect(okxAdapter.parseMessage(frame)).toBeNull();
+      expect(okxAdapter.parseFunding!(frame)).toBeNull();
+    }
+  });
+});
+
+describe('binanceAdapter', () => {
+  const [ack, depth, markPrice, markPriceWithoutFunding] = framesOf(binanceRecording);
+
+  it('normalizes partial depth pushes as snapshots in the canonical symbol', () => {
+    expect(binanceAdapter.parseMessage(depth)).toEqual({
+      timestamp: '2024-06-03T10:20:00.150Z',
+      exchange: 'binance',
+      symbol: 'BTC-USDT-SWAP',
+      action: 'snapshot',
+      asks: [['67005.20', '6.780'], ['67005.30', '0.002'], ['67005.60', '0.120']],
+      bids: [['67005.10', '3.412'], ['67005.00', '0.250'], ['67004.90', '1.008']]
+    });
+  });
+
+  it('parses the funding rate from mark price frames', () => {
+    expect(binanceAdapter.parseMessage(markPrice)).toBeNull();
+    expect(binanceAdapter.parseFunding!(markPrice)).toEqual({
+      timestamp: '2024-06-03T10:20:01.000Z',
+      exchange: 'binance',
+      symbol: 'BTC-USDT-SWAP',
+      fundingRate: 0.0001,
+      nextFundingTime: 1717430400000
+    });
+  });
+
+  it('ignores acks and mark price frames without a funding rate', () => {
+    expect(binanceAdapter.parseMessage(ack)).toBeNull();
+    expect(binanceAdapter.parseFunding!(ack)).toBeNull();
+    expect(binanceAdapter.parseFunding!(markPriceWithoutFunding)).toBeNull();
+  });
+});
+
+describe('bybitAdapter', () => {
+  const [ack, snapshot, delta, pong, ticker, tickerDelta] = framesOf(bybitRecording);
+
+  it('normalizes the orderbook snapshot', () => {
+    expect(bybitAdapter.parseMessage(snapshot)).toEqual({
+      timestamp: '2024-06-03T10:20:00.180Z',
+      exchange: 'bybit',
+      symbol: 'BTC-USDT-SWAP',
+      action: 'snapshot',
+      asks: [['67008.60', '2.901'], ['67008.90', '0.500']],
+      bids: [['67008.50', '1.235'], ['67008.40', '0.010']],
+      seqId: 8051927,
+      prevSeqId: undefined
+    });
+  });
+
+  it('normalizes deltas as updates chained to the previous update id', () => {
+    expect(bybitAdapter.parseMessage(delta)).toEqual({
+      timestamp: '2024-06-03T10:20:00.200Z',
+      exchange: 'bybit',
+      symbol: 'BTC-USDT-SWAP',
+      action: 'update',
+      asks: [['67008.60', '2.456'], ['67009.00', '0.044']],
+      bids: [['67008.40', '0']],
+      seqId: 8051928,
+      prevSeqId: 8051927
+    });
+  });
+
+  it('parses the funding rate from ticker snapshots only', () => {
+    expect(bybitAdapter.parseMessage(ticker)).toBeNull();
+    expect(bybitAdapter.parseFunding!(ticker)).toEqual({
+      timestamp: '2024-06-03T10:20:00.300Z',
+      exchange: 'bybit',
+      symbol: 'BTC-USDT-SWAP',
+      fundingRate: 0.0001,
+      nextFundingTime: 1717430400000
+    });
+    expect(bybitAdapter.parseFunding!(tickerDelta)).toBeNull();
+  });
+
+  it('ignores acks and pongs', () => {
+    for (const frame of [ack, pong]) {
+      expect(bybitAdapter.parseMessage(frame)).toBeNull();
+      expect(bybitAdapter.parseFunding!(frame)).toBeNull();
+    }
+  });
+});
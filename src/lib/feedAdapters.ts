@@ -0,0 +1,296 @@
+import { Decimal } from 'decimal.js';
+import { FundingRateData, OrderBookData, PriceLevelTuple } from './types';
+import { contractValueOf, productTypeOf } from './instruments';
+
+/**
+ * Adapter between a venue's WebSocket protocol and the normalized OrderBookData
+ * shape consumed by the rest of the app. Symbols are always passed in the app's
+ * canonical OKX-style form (e.g. BTC-USDT-SWAP) and translated by the adapter,
+ * and sizes are normalized to base units.
+ */
+export interface FeedAdapter {
+  /** Value stored in SimulationParameters.exchange */
+  id: string;
+  /** Human readable name shown in the exchange selector */
+  label: string;
+  /** Venue whose book is streamed (used for fees and display) */
+  venue: string;
+  /** Whether one connection can carry several instruments */
+  multiplexed: boolean;
+  /** Keep-alive frame the venue expects from the client, if any */
+  heartbeat?: { intervalMs: number; message: string };
+  getUrl(symbol: string): string;
+  getSubscribeMessages(symbol: string): string[];
+  getUnsubscribeMessages(symbol: string): string[];
+  /**
+   * Normalizes a raw frame. Returns null for acks, pongs and anything else that
+   * does not carry book data; throws if the frame cannot be parsed at all.
+   */
+  parseMessage(raw: string): OrderBookData | null;
+  /**
+   * Normalizes a funding-rate frame for perpetuals. Called for frames that
+   * parseMessage did not turn into a book; returns null for anything else.
+   */
+  parseFunding?(raw: string): FundingRateData | null;
+}
+
+type Level = PriceLevelTuple;
+
+const toLevels = (levels: string[][] | undefined): Level[] =>
+  (levels || []).map((level) => [level[0], level[1]] as Level);
+
+/**
+ * Converts contract sizes to base units, keeping the size as quoted for the
+ * venue's checksum. Scaling is decimal so the converted strings are exact.
+ */
+const toBaseLevels = (levels: string[][] | undefined, contractValue: number): Level[] =>
+  contractValue === 1
+    ? toLevels(levels)
+    : (levels || []).map((level) => [level[0], new Decimal(level[1]).times(contractValue).toFixed(), level[1]] as Level);
+
+const toIsoTimestamp = (ms: number | string | undefined): string =>
+  new Date(ms !== undefined ? Number(ms) : Date.now()).toISOString();
+
+// BTC-USDT-SWAP <-> BTCUSDT for venues that use concatenated linear perp symbols
+const toConcatenatedSymbol = (symbol: string): string =>
+  symbol.replace(/-SWAP$/, '').replace(/-/g, '');
+
+const fromConcatenatedSymbol = (symbol: string): string => {
+  const match = symbol.toUpperCase().match(/^(.+)(USDT|USDC)$/);
+  return match ? `${match[1]}-${match[2]}-SWAP` : symbol.toUpperCase();
+};
+
+const isPerpetual = (symbol: string): boolean => productTypeOf(symbol) === 'perp';
+
+const toRate = (value: string | number | undefined): number | undefined =>
+  value === undefined || value === '' ? undefined : Number(value);
+
+/**
+ * GoMarket L2 gateway: one URL per instrument, pushes full OrderBookData
+ * snapshots with no subscribe handshake.
+ */
+export const goMarketAdapter: FeedAdapter = {
+  id: 'OKX',
+  label: 'OKX (GoMarket)',
+  venue: 'OKX',
+  multiplexed: false,
+  getUrl: (symbol) => `wss://ws.gomarket-cpp.goquant.io/ws/l2-orderbook/okx/${symbol}`,
+  getSubscribeMessages: () => [],
+  getUnsubscribeMessages: () => [],
+  parseMessage: (raw) => {
+    const data: OrderBookData = JSON.parse(raw);
+    if (!data || !Array.isArray(data.asks) || !Array.isArray(data.bids)) {
+      return null;
+    }
+    return { ...data, action: 'snapshot' };
+  },
+  // Funding frames share the book socket: {"type":"funding","symbol":...,"fundingRate":...}
+  parseFunding: (raw) => {
+    const message = JSON.parse(raw);
+    if (message?.type !== 'funding' || typeof message.fundingRate !== 'number') return null;
+    return {
+      timestamp: message.timestamp ?? new Date().toISOString(),
+      exchange: message.exchange,
+      symbol: message.symbol,
+      fundingRate: message.fundingRate,
+      predictedRate: message.predictedRate,
+      nextFundingTime: message.nextFundingTime,
+      intervalHours: message.intervalHours
+    };
+  }
+};
+
+/**
+ * Local mock server (`npm run mock-server`) speaking the GoMarket format. The
+ * base URL can be overridden with VITE_MOCK_FEED_URL.
+ */
+export const mockAdapter: FeedAdapter = {
+  ...goMarketAdapter,
+  id: 'Mock',
+  label: 'Local mock server',
+  getUrl: (symbol) =>
+    `${import.meta.env.VITE_MOCK_FEED_URL || 'ws://localhost:8765'}/ws/l2-orderbook/okx/${symbol}`
+};
+
+const okxChannels = (symbol: string) => [
+  { channel: 'books', instId: symbol },
+  ...(isPerpetual(symbol) ? [{ channel: 'funding-rate', instId: symbol }] : [])
+];
+
+/**
+ * OKX public v5 `books` channel: a 400-level snapshot followed by incremental
+ * updates. Swap sizes are quoted in contracts and converted to base units.
+ * Perpetuals also subscribe to `funding-rate`.
+ */
+export const okxAdapter: FeedAdapter = {
+  id: 'OKX-V5',
+  label: 'OKX (native v5)',
+  venue: 'OKX',
+  multiplexed: true,
+  heartbeat: { intervalMs: 25000, message: 'ping' },
+  getUrl: () => 'wss://ws.okx.com:8443/ws/v5/public',
+  getSubscribeMessages: (symbol) => [
+    JSON.stringify({ op: 'subscribe', args: okxChannels(symbol) })
+  ],
+  getUnsubscribeMessages: (symbol) => [
+    JSON.stringify({ op: 'unsubscribe', args: okxChannels(symbol) })
+  ],
+  parseMessage: (raw) => {
+    if (raw === 'pong') return null;
+    const message = JSON.parse(raw);
+    if (message.event || message.arg?.channel !== 'books' || !Array.isArray(message.data) || message.data.length === 0) {
+      return null;
+    }
+    const book = message.data[0];
+    const contractValue = contractValueOf('OKX', message.arg.instId);
+    return {
+      timestamp: toIsoTimestamp(book.ts),
+      exchange: 'okx',
+      symbol: message.arg.instId,
+      action: message.action === 'update' ? 'update' : 'snapshot',
+      asks: toBaseLevels(book.asks, contractValue),
+      bids: toBaseLevels(book.bids, contractValue),
+      seqId: book.seqId,
+      prevSeqId: message.action === 'update' ? book.prevSeqId : undefined,
+      checksum: book.checksum
+    };
+  },
+  parseFunding: (raw) => {
+    if (raw === 'pong') return null;
+    const message = JSON.parse(raw);
+    if (message.arg?.channel !== 'funding-rate' || !Array.isArray(message.data) || message.data.length === 0) {
+      return null;
+    }
+    const funding = message.data[0];
+    // fundingTime is the upcoming settlement; nextFundingTime the one after it
+    const nextFundingTime = Number(funding.fundingTime);
+    const following = Number(funding.nextFundingTime);
+    return {
+      timestamp: toIsoTimestamp(funding.ts),
+      exchange: 'okx',
+      symbol: funding.instId,
+      fundingRate: Number(funding.fundingRate),
+      predictedRate: toRate(funding.nextFundingRate),
+      nextFundingTime,
+      intervalHours: following > nextFundingTime ? (following - nextFundingTime) / 3600000 : undefined
+    };
+  }
+};
+
+const binanceStreams = (symbol: string) => {
+  const stream = toConcatenatedSymbol(symbol).toLowerCase();
+  return [`${stream}@depth20@100ms`, ...(isPerpetual(symbol) ? [`${stream}@markPrice@1s`] : [])];
+};
+
+/**
+ * Binance USD-M futures partial depth stream (top 20 levels every 100ms). Each
+ * push is a complete top-of-book snapshot. Perpetuals also get the mark price
+ * stream, which carries the funding rate.
+ */
+export const binanceAdapter: FeedAdapter = {
+  id: 'Binance',
+  label: 'Binance',
+  venue: 'Binance',
+  multiplexed: true,
+  getUrl: () => 'wss://fstream.binance.com/ws',
+  getSubscribeMessages: (symbol) => [
+    JSON.stringify({ method: 'SUBSCRIBE', params: binanceStreams(symbol), id: 1 })
+  ],
+  getUnsubscribeMessages: (symbol) => [
+    JSON.stringify({ method: 'UNSUBSCRIBE', params: binanceStreams(symbol), id: 2 })
+  ],
+  parseMessage: (raw) => {
+    const message = JSON.parse(raw);
+    if (message.e !== 'depthUpdate') return null;
+    return {
+      timestamp: toIsoTimestamp(message.E),
+      exchange: 'binance',
+      symbol: fromConcatenatedSymbol(message.s),
+      action: 'snapshot',
+      asks: toLevels(message.a),
+      bids: toLevels(message.b)
+    };
+  },
+  parseFunding: (raw) => {
+    const message = JSON.parse(raw);
+    if (message.e !== 'markPriceUpdate' || message.r === undefined || message.r === '') return null;
+    return {
+      timestamp: toIsoTimestamp(message.E),
+      exchange: 'binance',
+      symbol: fromConcatenatedSymbol(message.s),
+      fundingRate: Number(message.r),
+      nextFundingTime: Number(message.T)
+    };
+  }
+};
+
+const bybitTopics = (symbol: string) => {
+  const topic = toConcatenatedSymbol(symbol);
+  return [`orderbook.50.${topic}`, ...(isPerpetual(symbol) ? [`tickers.${topic}`] : [])];
+};
+
+/**
+ * Bybit v5 linear `orderbook.50` topic: snapshot followed by deltas. Perpetuals
+ * also subscribe to `tickers` for the funding rate.
+ */
+export const bybitAdapter: FeedAdapter = {
+  id: 'Bybit',
+  label: 'Bybit',
+  venue: 'Bybit',
+  multiplexed: true,
+  heartbeat: { intervalMs: 20000, message: JSON.stringify({ op: 'ping' }) },
+  getUrl: () => 'wss://stream.bybit.com/v5/public/linear',
+  getSubscribeMessages: (symbol) => [
+    JSON.stringify({ op: 'subscribe', args: bybitTopics(symbol) })
+  ],
+  getUnsubscribeMessages: (symbol) => [
+    JSON.stringify({ op: 'unsubscribe', args: bybitTopics(symbol) })
+  ],
+  parseMessage: (raw) => {
+    const message = JSON.parse(raw);
+    if (!message.topic || !message.topic.startsWith('orderbook.') || !message.data) {
+      return null;
+    }
+    return {
+      timestamp: toIsoTimestamp(message.ts),
+      exchange: 'bybit',
+      symbol: fromConcatenatedSymbol(message.data.s),
+      action: message.type === 'delta' ? 'update' : 'snapshot',
+      asks: toLevels(message.data.a),
+      bids: toLevels(message.data.b),
+      // Update ids are contiguous per topic; a snapshot restarts the sequence
+      seqId: message.data.u,
+      prevSeqId: message.type === 'delta' ? message.data.u - 1 : undefined
+    };
+  },
+  parseFunding: (raw) => {
+    const message = JSON.parse(raw);
+    // Ticker deltas only carry changed fields; wait for one that has both
+    const ticker = message.topic?.startsWith('tickers.') ? message.data : null;
+    if (!ticker || toRate(ticker.fundingRate) === undefined || !ticker.nextFundingTime) return null;
+    return {
+      timestamp: toIsoTimestamp(message.ts),
+      exchange: 'bybit',
+      symbol: fromConcatenatedSymbol(ticker.symbol),
+      fundingRate: Number(ticker.fundingRate),
+      nextFundingTime: Number(ticker.nextFundingTime)
+    };
+  }
+};
+
+export const feedAdapters: FeedAdapter[] = [
+  goMarketAdapter,
+  okxAdapter,
+  binanceAdapter,
+  bybitAdapter,
+  mockAdapter
+];
+
+/**
+ * Looks up an adapter by its exchange id, falling back to the GoMarket feed
+ * @param exchange Value of SimulationParameters.exchange
+ * @returns Matching feed adapter
+ */
+export function getFeedAdapter(exchange: string): FeedAdapter {
+  return feedAdapters.find((adapter) => adapter.id === exchange) || goMarketAdapter;
+}
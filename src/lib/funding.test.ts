@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { nextFundingBoundary, projectFunding } from './funding';
+import { FundingRateData } from './types';
+
+const hour = 3600 * 1000;
+const midnight = Date.UTC(2024, 5, 3);
+const now = midnight + 5 * hour;
+
+const feed: FundingRateData = {
+  timestamp: new Date(now).toISOString(),
+  exchange: 'okx',
+  symbol: 'BTC-USDT-SWAP',
+  fundingRate: 0.0001,
+  predictedRate: 0.0002,
+  nextFundingTime: midnight + 8 * hour
+};
+
+describe('nextFundingBoundary', () => {
+  it('rounds up to the next settlement on the UTC grid', () => {
+    expect(nextFundingBoundary(now)).toBe(midnight + 8 * hour);
+    expect(nextFundingBoundary(midnight + 8 * hour)).toBe(midnight + 16 * hour);
+    expect(nextFundingBoundary(now, 4)).toBe(midnight + 8 * hour);
+  });
+});
+
+describe('projectFunding', () => {
+  it('charges longs the current rate first and the predicted rate after', () => {
+    // Held until 01:00 the next day: settlements at 08:00, 16:00 and 00:00
+    const projection = projectFunding(10000, 'buy', 20, feed, undefined, now);
+
+    expect(projection.source).toBe('feed');
+    expect(projection.payments.map((payment) => payment.time)).toEqual([8, 16, 24].map((hours) => midnight + hours * hour));
+    expect(projection.payments.map((payment) => payment.amount)).toEqual([1, 2, 2]);
+    expect(projection.total).toBeCloseTo(5, 12);
+  });
+
+  it('pays shorts a positive rate', () => {
+    expect(projectFunding(10000, 'sell', 20, feed, undefined, now).total).toBeCloseTo(-5, 12);
+  });
+
+  it('uses a manual rate in percent for every settlement', () => {
+    const projection = projectFunding(10000, 'buy', 20, feed, 0.05, now);
+
+    expect(projection.source).toBe('manual');
+    expect(projection.payments.map((payment) => payment.rate)).toEqual([0.0005, 0.0005, 0.0005]);
+  });
+
+  it('rolls a stale settlement time forward and honours the feed interval', () => {
+    const projection = projectFunding(10000, 'buy', 8, { ...feed, nextFundingTime: midnight, intervalHours: 4 }, undefined, now);
+
+    expect(projection.nextFundingTime).toBe(midnight + 8 * hour);
+    expect(projection.payments.map((payment) => payment.time)).toEqual([midnight + 8 * hour, midnight + 12 * hour]);
+  });
+
+  it('projects nothing without a feed or manual rate, or before the first settlement', () => {
+    expect(projectFunding(10000, 'buy', 20, undefined, undefined, now)).toMatchObject({ source: 'none', payments: [], total: 0 });
+    expect(projectFunding(10000, 'buy', 2, feed, undefined, now).payments).toEqual([]);
+  });
+});
@@ -0,0 +1,72 @@
+import { FundingPayment, FundingProjection, FundingRateData, OrderSide } from './types';
+
+export const fundingDefaults = {
+  // Settlement interval on OKX, Binance and Bybit for most perpetuals
+  intervalHours: 8
+};
+
+const HOUR_MS = 3600 * 1000;
+
+/**
+ * Next settlement on a UTC grid of `intervalHours`, for when the feed has not
+ * published one
+ */
+export function nextFundingBoundary(now: number, intervalHours: number = fundingDefaults.intervalHours): number {
+  const interval = intervalHours * HOUR_MS;
+  return Math.floor(now / interval) * interval + interval;
+}
+
+/**
+ * Projects the funding settlements a perpetual position goes through while it
+ * is held. Longs pay a positive rate and shorts receive it. The first settlement
+ * uses the current rate and later ones the venue's predicted rate (or the
+ * current one if none is published); the position notional is held constant.
+ * @param notional Position notional in quote currency
+ * @param side Side of the opening order
+ * @param holdingPeriodHours Hours the position is held after the fill
+ * @param funding Latest funding state from the feed, if any
+ * @param manualRate Funding rate per interval in percent, overriding the feed
+ * @param now Fill time in epoch milliseconds
+ * @returns Settlement schedule and the total paid (negative if received)
+ */
+export function projectFunding(
+  notional: number,
+  side: OrderSide,
+  holdingPeriodHours: number,
+  funding?: FundingRateData,
+  manualRate?: number,
+  now: number = Date.now()
+): FundingProjection {
+  const intervalHours = funding?.intervalHours ?? fundingDefaults.intervalHours;
+  const interval = intervalHours * HOUR_MS;
+  const source = manualRate !== undefined ? 'manual' : funding ? 'feed' : 'none';
+  const currentRate = manualRate !== undefined ? manualRate / 100 : funding?.fundingRate ?? 0;
+  const predictedRate = manualRate !== undefined ? currentRate : funding?.predictedRate ?? currentRate;
+
+  // A stale next-funding time is rolled forward onto the same grid
+  let nextFundingTime = funding?.nextFundingTime ?? nextFundingBoundary(now, intervalHours);
+  if (nextFundingTime <= now) {
+    nextFundingTime += Math.ceil((now - nextFundingTime + 1) / interval) * interval;
+  }
+
+  const payments: FundingPayment[] = [];
+  const end = now + Math.max(0, holdingPeriodHours) * HOUR_MS;
+  const direction = side === 'buy' ? 1 : -1;
+  if (source !== 'none') {
+    for (let time = nextFundingTime; time <= end; time += interval) {
+      const rate = payments.length === 0 ? currentRate : predictedRate;
+      payments.push({ time, rate, amount: direction * rate * notional });
+    }
+  }
+
+  return {
+    source,
+    currentRate,
+    predictedRate,
+    nextFundingTime,
+    intervalHours,
+    holdingPeriodHours,
+    payments,
+    total: payments.reduce((sum, payment) => sum + payment.amount, 0)
+  };
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { ImpactCalibrator, ImpactParameterCache, calibrateImpactFromRecords, impactCalibrationDefaults } from './impactCalibration';
+import { LocalOrderBook } from './orderBook';
+import { BookSample } from './slippageCalibration';
+import { CalibratedImpactParameters, OrderBookData } from './types';
+
+// Signed trade flow between consecutive books; every unit moves the mid by 0.5
+const flows = [2, -2, 4, -4];
+const mids = [100];
+for (let i = 1; i < 40; i++) mids.push(mids[i - 1] + 0.5 * flows[i % flows.length]);
+
+const bookAt = (i: number): OrderBookData => ({
+  timestamp: new Date(i * 1000).toISOString(),
+  exchange: 'okx',
+  symbol: 'BTC-USDT-SWAP',
+  asks: [[String(mids[i] + 0.5), '10'], [String(mids[i] + 1.5), '1000']],
+  bids: [[String(mids[i] - 0.5), '10'], [String(mids[i] - 1.5), '1000']]
+});
+
+const records = (source: string): BookSample[] =>
+  mids.map((_, i) => ({ source, receivedAt: i * 1000, data: bookAt(i) }));
+
+const parameters = (overrides: Partial<CalibratedImpactParameters>): CalibratedImpactParameters => ({
+  exchange: 'okx',
+  symbol: 'BTC-USDT-SWAP',
+  eta: 1e-6,
+  gamma: 1e-7,
+  calibratedAt: Date.now(),
+  samples: 30,
+  windowSeconds: 30,
+  permanentSource: 'order-flow',
+  ...overrides
+});
+
+describe('ImpactParameterCache', () => {
+  it('keys entries by feed and instrument and ignores stale calibrations', () => {
+    const cache = new ImpactParameterCache(false);
+    cache.set(parameters({}));
+    cache.set(parameters({ exchange: 'okx-backup', calibratedAt: Date.now() - impactCalibrationDefaults.maxAgeMs - 1000 }));
+
+    expect(cache.get('okx', 'BTC-USDT-SWAP')?.eta).toBe(1e-6);
+    expect(cache.get('okx-backup', 'BTC-USDT-SWAP')).toBeUndefined();
+    expect(cache.get('okx-backup', 'BTC-USDT-SWAP', Infinity)).toBeDefined();
+    expect(cache.all()).toHaveLength(2);
+  });
+});
+
+describe('ImpactCalibrator', () => {
+  it('throttles samples and waits for enough of them', () => {
+    const cache = new ImpactParameterCache(false);
+    const calibrator = new ImpactCalibrator(cache, { ...impactCalibrationDefaults, minSamples: 3 });
+
+    // Two updates inside one sample interval count once
+    calibrator.observe(LocalOrderBook.fromOrderBookData(bookAt(0)), 'okx', 0);
+    calibrator.observe(LocalOrderBook.fromOrderBookData(bookAt(1)), 'okx', 500);
+    calibrator.observe(LocalOrderBook.fromOrderBookData(bookAt(2)), 'okx', 1000);
+    expect(calibrator.calibrate('okx', 'BTC-USDT-SWAP')).toBeNull();
+
+    calibrator.observe(LocalOrderBook.fromOrderBookData(bookAt(3)), 'okx', 2000);
+    expect(calibrator.calibrate('okx', 'BTC-USDT-SWAP')?.samples).toBe(3);
+    expect(cache.get('okx', 'BTC-USDT-SWAP')).toBeDefined();
+  });
+});
+
+describe('calibrateImpactFromRecords', () => {
+  it('regresses mid moves on signed trade volume for the permanent coefficient', () => {
+    const trades = mids.slice(1).map((_, j) => {
+      const flow = flows[(j + 1) % flows.length];
+      return { symbol: 'BTC-USDT-SWAP', timestamp: j * 1000 + 500, price: mids[j], size: Math.abs(flow), side: flow > 0 ? 'buy' as const : 'sell' as const };
+    });
+    const meanMid = mids.reduce((sum, mid) => sum + mid, 0) / mids.length;
+    const [fit] = calibrateImpactFromRecords(records('okx'), trades);
+
+    expect(fit.permanentSource).toBe('trades');
+    expect(fit.eta).toBeCloseTo(0.5 / meanMid, 12);
+    expect(fit.gamma).toBeGreaterThanOrEqual(0);
+    expect(fit.windowSeconds).toBe(39);
+  });
+
+  it('calibrates every feed separately and falls back to order flow', () => {
+    const fits = calibrateImpactFromRecords([...records('okx'), ...records('okx-backup')]);
+
+    expect(fits.map((fit) => fit.exchange)).toEqual(['okx', 'okx-backup']);
+    expect(fits.every((fit) => fit.permanentSource === 'order-flow' && fit.samples === 40)).toBe(true);
+  });
+});
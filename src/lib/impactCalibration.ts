@@ -0,0 +1,296 @@
+import { CalibratedImpactParameters, ImpactCoefficients, OrderSide } from './types';
+import { LocalOrderBook } from './orderBook';
+import { TouchSnapshot, calculateMarketMetrics, orderFlowImbalance, touchOf, walkTheBook } from './marketMetrics';
+import { realizedVolatility } from './statistics';
+import type { BookSample } from './slippageCalibration';
+
+/** Executed trade, if the feed provides them */
+export interface TradePrint {
+  /** Epoch milliseconds */
+  timestamp: number;
+  price: number;
+  /** Base units */
+  size: number;
+  /** Aggressor side */
+  side: OrderSide;
+}
+
+export const impactCalibrationDefaults = {
+  // Rolling window the coefficients are fitted on
+  windowSeconds: 600,
+  // At most one book sample per symbol per interval
+  sampleIntervalMs: 1000,
+  recalibrateIntervalMs: 30000,
+  minSamples: 30,
+  // Order sizes in quote currency walked against every sample
+  quantities: [1000, 10000, 50000, 100000],
+  // Calibrations older than this fall back to the default constants
+  maxAgeMs: 30 * 60 * 1000,
+  secondsPerDay: 86400
+};
+
+interface CalibrationSample {
+  time: number;
+  mid: number;
+  touch: TouchSnapshot;
+  /** Depth scaling applied by calculateMarketImpact */
+  depthFactor: number;
+  /** Realized walk-the-book slippage (fraction) per order size in base units */
+  walks: { size: number; slippage: number }[];
+}
+
+const STORAGE_KEY = 'goquant-impact-parameters';
+const cacheKey = (exchange: string, symbol: string) => `${exchange}:${symbol}`;
+
+/**
+ * Calibrated impact coefficients per feed and instrument with their calibration time,
+ * persisted to localStorage when available
+ */
+export class ImpactParameterCache {
+  private entries = new Map<string, CalibratedImpactParameters>();
+
+  constructor(private readonly persist: boolean = typeof localStorage !== 'undefined') {
+    if (!this.persist) return;
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]') as CalibratedImpactParameters[];
+      for (const entry of stored) this.entries.set(cacheKey(entry.exchange, entry.symbol), entry);
+    } catch {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  }
+
+  /**
+   * @param exchange Feed adapter id
+   * @param maxAgeMs Ignore calibrations older than this
+   * @returns Fresh calibrated parameters, or undefined to use the defaults
+   */
+  get(exchange: string, symbol: string, maxAgeMs: number = impactCalibrationDefaults.maxAgeMs): CalibratedImpactParameters | undefined {
+    const entry = this.entries.get(cacheKey(exchange, symbol));
+    return entry && Date.now() - entry.calibratedAt <= maxAgeMs ? entry : undefined;
+  }
+
+  set(parameters: CalibratedImpactParameters): void {
+    this.entries.set(cacheKey(parameters.exchange, parameters.symbol), parameters);
+    if (this.persist) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify([...this.entries.values()]));
+    }
+  }
+
+  all(): CalibratedImpactParameters[] {
+    return [...this.entries.values()];
+  }
+
+  clear(): void {
+    this.entries.clear();
+    if (this.persist) localStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+export const impactParameterCache = new ImpactParameterCache();
+
+/**
+ * Takes one calibration sample from the current book
+ */
+function sampleBook(book: LocalOrderBook, time: number, quantities: number[]): CalibrationSample | null {
+  const touch = touchOf(book);
+  const mid = book.midPrice();
+  if (!touch || !mid) return null;
+
+  const depth = calculateMarketMetrics(book).depth.toNumber();
+  const walks: CalibrationSample['walks'] = [];
+  for (const quantity of quantities) {
+    for (const side of ['buy', 'sell'] as const) {
+      const execution = walkTheBook(book, quantity, side);
+      if (execution.unfilledQuantity > 0 || execution.filledSize === 0) continue;
+      walks.push({ size: execution.filledSize, slippage: execution.slippage / 100 });
+    }
+  }
+
+  return { time, mid, touch, depthFactor: 1 + 1 / Math.sqrt(depth || 1), walks };
+}
+
+/**
+ * Fits the one-shot Almgren-Chriss coefficients on a window of samples.
+ * eta is Kyle's lambda as a fraction of price, regressed on signed trade
+ * volume when trades are available and on order flow imbalance otherwise.
+ * gamma is the least-squares fit of the remaining walk-the-book slippage on
+ * size² * volatility / 2, with volatility realized over the window.
+ * @returns Coefficients, or null if the window is too short or degenerate
+ */
+function fitImpactCoefficients(
+  samples: CalibrationSample[],
+  trades: TradePrint[] = []
+): (ImpactCoefficients & { permanentSource: CalibratedImpactParameters['permanentSource'] }) | null {
+  if (samples.length < 2) return null;
+
+  const useTrades = trades.length > 0;
+  let tradeIndex = 0;
+  const flows: number[] = [];
+  const moves: number[] = [];
+  for (let i = 1; i < samples.length; i++) {
+    let flow = 0;
+    if (useTrades) {
+      while (tradeIndex < trades.length && trades[tradeIndex].timestamp <= samples[i].time) {
+        const trade = trades[tradeIndex++];
+        if (trade.timestamp > samples[i - 1].time) flow += trade.side === 'buy' ? trade.size : -trade.size;
+      }
+    } else {
+      flow = orderFlowImbalance(samples[i - 1].touch, samples[i].touch);
+    }
+    flows.push(flow);
+    moves.push(samples[i].mid - samples[i - 1].mid);
+  }
+
+  const n = flows.length;
+  const meanFlow = flows.reduce((sum, x) => sum + x, 0) / n;
+  const meanMove = moves.reduce((sum, y) => sum + y, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (flows[i] - meanFlow) * (moves[i] - meanMove);
+    variance += (flows[i] - meanFlow) ** 2;
+  }
+  const meanMid = samples.reduce((sum, sample) => sum + sample.mid, 0) / samples.length;
+  const lambda = variance > 0 ? Math.max(0, covariance / variance) : 0;
+  const eta = lambda / meanMid;
+
+  const volatility = realizedVolatility(
+    samples.map((sample) => ({ time: sample.time, price: sample.mid })),
+    impactCalibrationDefaults.secondsPerDay
+  ) / 100;
+
+  let numerator = 0;
+  let denominator = 0;
+  for (const sample of samples) {
+    for (const walk of sample.walks) {
+      const temporary = Math.max(0, walk.slippage / sample.depthFactor - eta * walk.size);
+      const regressor = (walk.size ** 2 * volatility) / 2;
+      numerator += temporary * regressor;
+      denominator += regressor ** 2;
+    }
+  }
+  if (denominator === 0) return null;
+
+  return { eta, gamma: numerator / denominator, permanentSource: useTrades ? 'trades' : 'order-flow' };
+}
+
+/**
+ * Keeps a rolling window of book samples per feed and instrument and
+ * periodically refits its impact coefficients into the cache. Feeds of the
+ * same venue are kept apart since their books update independently.
+ */
+export class ImpactCalibrator {
+  private windows = new Map<string, { samples: CalibrationSample[]; trades: TradePrint[]; calibratedAt: number }>();
+
+  constructor(
+    private readonly cache: ImpactParameterCache = impactParameterCache,
+    private readonly options: typeof impactCalibrationDefaults = impactCalibrationDefaults
+  ) {}
+
+  /**
+   * Samples a book update; throttled per instrument
+   * @param book Updated book
+   * @param exchange Feed adapter id the book streams from
+   * @param time Sample time in epoch milliseconds (defaults to the book's own timestamp)
+   */
+  observe(book: LocalOrderBook, exchange: string, time: number = Date.parse(book.timestamp) || Date.now()): void {
+    const window = this.windowFor(exchange, book.symbol);
+    const last = window.samples[window.samples.length - 1];
+    if (last && time - last.time < this.options.sampleIntervalMs) return;
+
+    const sample = sampleBook(book, time, this.options.quantities);
+    if (!sample) return;
+    window.samples.push(sample);
+    this.prune(window, time);
+
+    if (window.samples.length >= this.options.minSamples && time - window.calibratedAt >= this.options.recalibrateIntervalMs) {
+      window.calibratedAt = time;
+      this.calibrate(exchange, book.symbol);
+    }
+  }
+
+  /**
+   * Adds executed trades for an instrument, oldest first
+   */
+  addTrades(exchange: string, symbol: string, trades: TradePrint[]): void {
+    this.windowFor(exchange, symbol).trades.push(...trades);
+  }
+
+  /**
+   * Fits the current window and stores the result in the cache
+   * @returns The new parameters, or null if the window is not usable yet
+   */
+  calibrate(exchange: string, symbol: string): CalibratedImpactParameters | null {
+    const window = this.windowFor(exchange, symbol);
+    if (window.samples.length < this.options.minSamples) return null;
+    const fit = fitImpactCoefficients(window.samples, window.trades);
+    if (!fit) return null;
+
+    const first = window.samples[0];
+    const last = window.samples[window.samples.length - 1];
+    const parameters: CalibratedImpactParameters = {
+      ...fit,
+      exchange,
+      symbol,
+      calibratedAt: Date.now(),
+      samples: window.samples.length,
+      windowSeconds: (last.time - first.time) / 1000
+    };
+    this.cache.set(parameters);
+    return parameters;
+  }
+
+  private windowFor(exchange: string, symbol: string) {
+    const key = cacheKey(exchange, symbol);
+    let window = this.windows.get(key);
+    if (!window) {
+      window = { samples: [], trades: [], calibratedAt: 0 };
+      this.windows.set(key, window);
+    }
+    return window;
+  }
+
+  private prune(window: { samples: CalibrationSample[]; trades: TradePrint[] }, now: number): void {
+    const cutoff = now - this.options.windowSeconds * 1000;
+    while (window.samples.length > 0 && window.samples[0].time < cutoff) window.samples.shift();
+    while (window.trades.length > 0 && window.trades[0].timestamp < cutoff) window.trades.shift();
+  }
+}
+
+export const impactCalibrator = new ImpactCalibrator();
+
+/**
+ * Calibrates every instrument in a recording in one pass, using the whole
+ * recording as the window
+ * @param records Recorded books in receive order
+ * @param trades Optional trades, oldest first, for all instruments
+ * @returns One parameter set per feed and instrument that had enough samples
+ */
+export function calibrateImpactFromRecords(records: BookSample[], trades: (TradePrint & { symbol: string })[] = []): CalibratedImpactParameters[] {
+  const calibrator = new ImpactCalibrator(new ImpactParameterCache(false), {
+    ...impactCalibrationDefaults,
+    windowSeconds: Infinity,
+    recalibrateIntervalMs: Infinity
+  });
+  const books = new Map<string, { source: string; book: LocalOrderBook }>();
+
+  for (const record of records) {
+    const key = cacheKey(record.source, record.data.symbol);
+    let entry = books.get(key);
+    if (!entry) {
+      entry = { source: record.source, book: new LocalOrderBook() };
+      books.set(key, entry);
+    }
+    if (entry.book.apply(record.data) && entry.book.isReady()) {
+      calibrator.observe(entry.book, entry.source, record.receivedAt);
+    }
+  }
+
+  const results: CalibratedImpactParameters[] = [];
+  for (const { source, book } of books.values()) {
+    calibrator.addTrades(source, book.symbol, trades.filter((trade) => trade.symbol === book.symbol));
+    const parameters = calibrator.calibrate(source, book.symbol);
+    if (parameters) results.push(parameters);
+  }
+  return results;
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ImpactContext,
+  KyleLambdaEstimator,
+  almgrenChrissImpactModel,
+  estimateAverageDailyVolume,
+  getImpactModel,
+  impactModelDefaults,
+  kyleImpactModel,
+  obizhaevaWangImpactModel,
+  squareRootImpactModel
+} from './impactModels';
+import { LocalOrderBook } from './orderBook';
+import { PriceLevelTuple } from './types';
+
+const bookOf = (asks: PriceLevelTuple[], bids: PriceLevelTuple[], timestamp = '2024-06-03T10:20:00.000Z') =>
+  LocalOrderBook.fromOrderBookData({ timestamp, exchange: 'okx', symbol: 'BTC-USDT-SWAP', asks, bids });
+
+// 201 of quote fills 1 unit at 100 and 1 at 101: a slope of 0.5 per unit
+const book = bookOf([['100', '1'], ['101', '1']], [['99', '1']]);
+const context: ImpactContext = { book, exchange: 'impact-test', quantity: 201, side: 'buy', volatility: 2 };
+const size = 201 / 100;
+const mid = 99.5;
+
+describe('squareRootImpactModel', () => {
+  it('scales volatility by the square root of the share of daily volume', () => {
+    expect(squareRootImpactModel.estimate({ ...context, quantity: 1e6, averageDailyVolume: 1e8 })).toBeCloseTo(0.2, 12);
+  });
+
+  it('falls back to visible depth turned over for the daily volume', () => {
+    const adv = estimateAverageDailyVolume(book);
+    const small = squareRootImpactModel.estimate(context);
+
+    expect(adv).toBeGreaterThan(0);
+    expect(small).toBeCloseTo(2 * Math.sqrt(201 / adv), 12);
+    expect(squareRootImpactModel.estimate({ ...context, quantity: 804 })).toBeCloseTo(2 * small, 12);
+  });
+});
+
+describe('KyleLambdaEstimator', () => {
+  // Touch moving up and down by 1 with unit sizes: OFI is +2 on every rise and -2 on every fall
+  const walk = (steps: number, estimator: KyleLambdaEstimator) => {
+    for (let i = 0; i < steps; i++) {
+      const shift = i % 2;
+      estimator.observe(bookOf([[String(101 + shift), '1']], [[String(99 + shift), '1']], new Date(i * 1000).toISOString()));
+    }
+  };
+
+  it('regresses mid moves on order flow imbalance once it has enough updates', () => {
+    const estimator = new KyleLambdaEstimator();
+    walk(impactModelDefaults.kyleMinObservations, estimator);
+    expect(estimator.lambda()).toBeNull();
+
+    walk(impactModelDefaults.kyleMinObservations + 2, estimator);
+    expect(estimator.lambda()).toBeCloseTo(0.5, 12);
+  });
+
+  it('ignores repeated books and keeps a rolling window', () => {
+    const estimator = new KyleLambdaEstimator(5);
+    estimator.observe(book);
+    estimator.observe(book);
+    expect(estimator.observations()).toBe(0);
+
+    walk(10, estimator);
+    expect(estimator.observations()).toBe(5);
+  });
+});
+
+describe('kyleImpactModel', () => {
+  it('uses the book slope until lambda has been fitted', () => {
+    expect(kyleImpactModel.estimate(context)).toBeCloseTo(((0.5 * size) / mid) * 100, 12);
+  });
+});
+
+describe('obizhaevaWangImpactModel', () => {
+  it('charges the permanent part in full and the transient part spread over the horizon', () => {
+    const { permanentFraction, resilienceHalfLifeSeconds, executionHorizonSeconds } = impactModelDefaults;
+    const rho = Math.LN2 / resilienceHalfLifeSeconds;
+    const permanent = 0.5 * permanentFraction;
+    const cost = (permanent * size * size) / 2 + ((0.5 - permanent) * size * size) / (rho * executionHorizonSeconds + 2);
+
+    const estimate = obizhaevaWangImpactModel.estimate(context);
+    expect(estimate).toBeCloseTo((cost / (size * mid)) * 100, 12);
+    // Cheaper than taking the whole linear book at once
+    expect(estimate).toBeLessThan(((0.5 * size) / 2 / mid) * 100);
+  });
+
+  it('is zero without a book to trade against', () => {
+    expect(obizhaevaWangImpactModel.estimate({ ...context, book: new LocalOrderBook() })).toBe(0);
+  });
+});
+
+describe('getImpactModel', () => {
+  it('falls back to Almgren-Chriss for unknown ids', () => {
+    expect(getImpactModel('square-root')).toBe(squareRootImpactModel);
+    expect(getImpactModel('unknown')).toBe(almgrenChrissImpactModel);
+  });
+});
@@ -0,0 +1,238 @@
+import { ImpactModelId, OrderSide } from './types';
+import { LocalOrderBook, bookSideFor } from './orderBook';
+import { TouchSnapshot, calculateMarketMetrics, orderFlowImbalance, touchOf, walkTheBook } from './marketMetrics';
+import { calculateMarketImpact } from './marketModels';
+import { impactCalibrator, impactParameterCache } from './impactCalibration';
+
+export interface ImpactContext {
+  book: LocalOrderBook;
+  /** Feed adapter id the book streams from */
+  exchange: string;
+  /** Order quantity in quote currency */
+  quantity: number;
+  side: OrderSide;
+  /** Volatility as a daily percentage */
+  volatility: number;
+  /** Average daily volume in quote currency; estimated from the book when unset */
+  averageDailyVolume?: number;
+}
+
+export interface ImpactModel {
+  id: ImpactModelId;
+  label: string;
+  description: string;
+  /**
+   * @returns Expected market impact as a percentage of the order's value
+   */
+  estimate(context: ImpactContext): number;
+  /** Feeds a book update to models that learn from the live stream, per feed adapter id */
+  observe?(book: LocalOrderBook, exchange: string): void;
+}
+
+// Assumptions shared by the models below
+export const impactModelDefaults = {
+  // Square-root law prefactor (Y), of order one empirically
+  squareRootCoefficient: 1,
+  // Times per day the visible depth within 2% of mid turns over, for the ADV proxy
+  depthTurnoverPerDay: 200,
+  // Book changes kept for the Kyle lambda regression, and the minimum to trust it
+  kyleWindow: 300,
+  kyleMinObservations: 20,
+  // Obizhaeva-Wang resilience half-life and execution horizon, in seconds
+  resilienceHalfLifeSeconds: 10,
+  executionHorizonSeconds: 60,
+  // Share of the book's price concession that is permanent
+  permanentFraction: 0.1
+};
+
+/**
+ * Price concession per base unit from walking the book for the order, treating
+ * the book as linear (the marginal price moves twice as far as the average)
+ */
+function bookSlope(context: ImpactContext): number {
+  const { book, quantity, side } = context;
+  const execution = walkTheBook(book, quantity, side);
+  const concession = Math.abs(execution.averagePrice - execution.touchPrice);
+  if (execution.filledSize > 0 && concession > 0) {
+    return (2 * concession) / execution.filledSize;
+  }
+  const touch = book.levelAt(bookSideFor(side), 0);
+  return touch && touch.size > 0 ? book.spread() / touch.size : 0;
+}
+
+const quantityBase = (context: ImpactContext): number => {
+  const touch = context.book.levelAt(bookSideFor(context.side), 0);
+  return touch ? context.quantity / touch.price : 0;
+};
+
+/**
+ * The original one-shot Almgren-Chriss style estimate, with eta and gamma
+ * calibrated per instrument from the live book once enough history is available
+ */
+export const almgrenChrissImpactModel: ImpactModel = {
+  id: 'almgren-chriss',
+  label: 'Almgren-Chriss',
+  description: 'Permanent plus temporary impact for a single block, calibrated per symbol',
+  observe: (book, exchange) => impactCalibrator.observe(book, exchange),
+  estimate: ({ book, exchange, quantity, volatility, side }) =>
+    calculateMarketImpact(book, quantity, volatility, side, impactParameterCache.get(exchange, book.symbol))
+};
+
+/**
+ * Square-root law: impact = Y * sigma * sqrt(Q / ADV)
+ *
+ * Reference: Tóth, B., et al. (2011). "Anomalous price impact and the critical
+ * nature of liquidity in financial markets"
+ */
+export const squareRootImpactModel: ImpactModel = {
+  id: 'square-root',
+  label: 'Square-root',
+  description: 'Y * sigma * sqrt(Q / ADV); ADV falls back to a multiple of visible depth',
+  estimate: (context) => {
+    const adv = context.averageDailyVolume || estimateAverageDailyVolume(context.book);
+    if (adv <= 0) return 0;
+    return impactModelDefaults.squareRootCoefficient * context.volatility * Math.sqrt(context.quantity / adv);
+  }
+};
+
+/**
+ * Proxy for average daily volume in quote currency when none is supplied: the
+ * depth within 2% of mid, turned over a fixed number of times per day
+ */
+export function estimateAverageDailyVolume(book: LocalOrderBook): number {
+  const mid = book.midPrice();
+  if (!mid) return 0;
+  const depth = calculateMarketMetrics(book).depth.toNumber();
+  return depth * mid * impactModelDefaults.depthTurnoverPerDay;
+}
+
+/**
+ * Rolling regression of mid-price changes on order flow imbalance for one
+ * instrument; the slope is Kyle's lambda in quote per base unit
+ */
+export class KyleLambdaEstimator {
+  private flows: number[] = [];
+  private moves: number[] = [];
+  private previous: TouchSnapshot | null = null;
+  private lastTimestamp = '';
+
+  constructor(private readonly window: number = impactModelDefaults.kyleWindow) {}
+
+  /**
+   * Records the change since the previous update; repeated calls with the
+   * same book state are ignored
+   */
+  observe(book: LocalOrderBook): void {
+    const touch = touchOf(book);
+    if (!touch || book.timestamp === this.lastTimestamp) return;
+    this.lastTimestamp = book.timestamp;
+
+    if (this.previous) {
+      const previousMid = (this.previous.bidPrice + this.previous.askPrice) / 2;
+      const mid = (touch.bidPrice + touch.askPrice) / 2;
+      this.flows.push(orderFlowImbalance(this.previous, touch));
+      this.moves.push(mid - previousMid);
+      if (this.flows.length > this.window) {
+        this.flows.shift();
+        this.moves.shift();
+      }
+    }
+    this.previous = touch;
+  }
+
+  observations(): number {
+    return this.flows.length;
+  }
+
+  /**
+   * @returns Fitted lambda, or null with too little or degenerate history
+   */
+  lambda(): number | null {
+    const n = this.flows.length;
+    if (n < impactModelDefaults.kyleMinObservations) return null;
+
+    const meanFlow = this.flows.reduce((sum, x) => sum + x, 0) / n;
+    const meanMove = this.moves.reduce((sum, y) => sum + y, 0) / n;
+    let covariance = 0;
+    let variance = 0;
+    for (let i = 0; i < n; i++) {
+      covariance += (this.flows[i] - meanFlow) * (this.moves[i] - meanMove);
+      variance += (this.flows[i] - meanFlow) ** 2;
+    }
+    return variance > 0 ? Math.max(0, covariance / variance) : null;
+  }
+}
+
+const kyleEstimators = new Map<string, KyleLambdaEstimator>();
+
+const kyleEstimatorFor = (book: LocalOrderBook, exchange: string): KyleLambdaEstimator => {
+  const key = `${exchange}:${book.symbol}`;
+  let estimator = kyleEstimators.get(key);
+  if (!estimator) {
+    estimator = new KyleLambdaEstimator();
+    kyleEstimators.set(key, estimator);
+  }
+  return estimator;
+};
+
+/**
+ * Kyle's linear model: the price moves lambda per unit of net order flow. Lambda
+ * is regressed from live book changes and falls back to the book's own slope
+ * until enough updates have been seen
+ *
+ * Reference: Kyle, A. S. (1985). "Continuous auctions and insider trading"
+ */
+export const kyleImpactModel: ImpactModel = {
+  id: 'kyle',
+  label: 'Kyle lambda',
+  description: 'Linear in size, lambda regressed on order flow imbalance',
+  observe: (book, exchange) => kyleEstimatorFor(book, exchange).observe(book),
+  estimate: (context) => {
+    const mid = context.book.midPrice();
+    if (!mid) return 0;
+    const lambda = kyleEstimatorFor(context.book, context.exchange).lambda() ?? bookSlope(context);
+    return ((lambda * quantityBase(context)) / mid) * 100;
+  }
+};
+
+/**
+ * Obizhaeva-Wang: a linear book of density q that refills at rate rho. The
+ * optimal schedule over T trades blocks of Q / (rho T + 2) at both ends and
+ * the rest evenly, for an expected cost of lambda Q² / 2 + kappa Q² / (rho T + 2)
+ * where kappa = 1 / q - lambda is the transient part of the impact
+ *
+ * Reference: Obizhaeva, A. A., & Wang, J. (2013). "Optimal trading strategy and
+ * supply/demand dynamics"
+ */
+export const obizhaevaWangImpactModel: ImpactModel = {
+  id: 'obizhaeva-wang',
+  label: 'Obizhaeva-Wang',
+  description: 'Transient impact in a resilient book, optimally scheduled over the horizon',
+  estimate: (context) => {
+    const mid = context.book.midPrice();
+    const size = quantityBase(context);
+    if (!mid || size <= 0) return 0;
+
+    const slope = bookSlope(context);
+    const permanent = slope * impactModelDefaults.permanentFraction;
+    const transient = slope - permanent;
+    const rho = Math.LN2 / impactModelDefaults.resilienceHalfLifeSeconds;
+    const cost = (permanent * size * size) / 2
+      + (transient * size * size) / (rho * impactModelDefaults.executionHorizonSeconds + 2);
+    return (cost / (size * mid)) * 100;
+  }
+};
+
+export const impactModels: ImpactModel[] = [
+  almgrenChrissImpactModel,
+  squareRootImpactModel,
+  kyleImpactModel,
+  obizhaevaWangImpactModel
+];
+
+/**
+ * Looks up an impact model, falling back to Almgren-Chriss
+ */
+export function getImpactModel(id: string): ImpactModel {
+  return impactModels.find((model) => model.id === id) ?? almgrenChrissImpactModel;
+}
@@ -0,0 +1,34 @@
+import { ProductType } from './types';
+
+// Perpetual swaps offered in the simulator, in canonical OKX instrument form
+export const assets = ["BTC-USDT-SWAP", "ETH-USDT-SWAP", "SOL-USDT-SWAP", "BNB-USDT-SWAP"];
+
+// Base units per contract on venues whose books quote derivatives in contracts
+const contractValues: Record<string, Record<string, number>> = {
+  OKX: {
+    'BTC-USDT-SWAP': 0.01,
+    'ETH-USDT-SWAP': 0.1,
+    'SOL-USDT-SWAP': 1,
+    'BNB-USDT-SWAP': 0.01
+  }
+};
+
+/**
+ * Multiplier from a venue's book sizes to base units
+ * @param venue Venue name, e.g. OKX
+ * @param symbol Canonical instrument id
+ * @returns Base units per contract, or 1 where sizes are already in base units
+ */
+export function contractValueOf(venue: string, symbol: string): number {
+  return contractValues[venue]?.[symbol] ?? 1;
+}
+
+/**
+ * Product type of a canonical instrument id: -SWAP is a perpetual, a trailing
+ * YYMMDD expiry is a dated future, anything else is spot
+ */
+export function productTypeOf(symbol: string): ProductType {
+  if (/-SWAP$/.test(symbol)) return 'perp';
+  if (/-\d{6}$/.test(symbol)) return 'futures';
+  return 'spot';
+}
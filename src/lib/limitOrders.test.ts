@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { estimateLimitOrder, limitOrderModel } from './limitOrders';
+import { normalCdf } from './statistics';
+import { OrderBookData } from './types';
+
+const book: OrderBookData = {
+  timestamp: '2024-06-03T10:20:00.000Z',
+  exchange: 'okx',
+  symbol: 'BTC-USDT-SWAP',
+  asks: [['100', '1'], ['101', '1']],
+  bids: [['99', '2']]
+};
+
+const order = { quantity: 150, side: 'buy' as const, volatility: 2, fillHorizon: 30 };
+
+describe('estimateLimitOrder', () => {
+  it('rejects what the time in force does not allow', () => {
+    expect(estimateLimitOrder(book, { ...order, limitPrice: 100, timeInForce: 'POST_ONLY' }).rejectedReason).toBe(
+      'Post-only order would cross the spread'
+    );
+    expect(estimateLimitOrder(book, { ...order, limitPrice: 100, timeInForce: 'FOK' }).rejectedReason).toMatch(/fill or kill/);
+    expect(estimateLimitOrder(book, { ...order, limitPrice: 98, timeInForce: 'IOC' }).rejectedReason).toMatch(/immediate-or-cancel/);
+  });
+
+  it('fills the marketable part at once and cancels the rest of an IOC order', () => {
+    const ioc = estimateLimitOrder(book, { ...order, limitPrice: 100, timeInForce: 'IOC' });
+    const fok = estimateLimitOrder(book, { ...order, limitPrice: 101, timeInForce: 'FOK' });
+
+    expect(ioc.marketableQuantity).toBe(100);
+    expect(ioc.restingQuantity).toBe(0);
+    expect(ioc.expectedFillRatio).toBeCloseTo(2 / 3, 12);
+    expect(fok.expectedFillRatio).toBe(1);
+    expect(fok.expectedTimeToFill).toBe(0);
+  });
+
+  it('rests behind the queue at the touch and fills on flow or a price move', () => {
+    // Joins the bid at 99 when no limit price is given
+    const estimate = estimateLimitOrder(book, { ...order, quantity: 99, timeInForce: 'GTC' });
+    const sigmaHorizon = (2 / 100 / Math.sqrt(limitOrderModel.secondsPerDay)) * Math.sqrt(30);
+    const priceHit = 2 * (1 - normalCdf(Math.log(100 / 99) / sigmaHorizon));
+
+    expect(estimate.limitPrice).toBe(99);
+    expect(estimate.queueAhead).toBe(2);
+    // Flow of 2 per 30 seconds only clears the queue ahead within the horizon
+    expect(estimate.restingFillProbability).toBeCloseTo(priceHit, 12);
+    expect(estimate.expectedTimeToFill).toBeCloseTo((3 / 2) * limitOrderModel.queueTurnoverSeconds, 9);
+
+    const longer = estimateLimitOrder(book, { ...order, quantity: 99, timeInForce: 'GTC', fillHorizon: 45 });
+    expect(longer.restingFillProbability).toBe(1);
+  });
+
+  it('reports an empty book', () => {
+    expect(estimateLimitOrder({ ...book, asks: [] }, { ...order, timeInForce: 'GTC' }).rejectedReason).toBe('Order book is empty');
+  });
+});
@@ -0,0 +1,127 @@
+import { LimitOrderEstimate, SimulationParameters } from './types';
+import { OrderBookSource, bookSideFor, toLocalOrderBook } from './orderBook';
+import { normalCdf } from './statistics';
+
+// Limit-order fill model assumptions
+export const limitOrderModel = {
+  // Seconds for incoming market flow to consume the displayed size at the touch
+  queueTurnoverSeconds: 30,
+  // Seconds per day used to scale the daily volatility input
+  secondsPerDay: 86400,
+  // Inverse normal CDF at 0.75, gives the median first-passage time
+  medianPassageQuantile: 0.6745
+};
+
+type LimitOrderParameters = Pick<
+  SimulationParameters,
+  'quantity' | 'side' | 'limitPrice' | 'timeInForce' | 'fillHorizon' | 'volatility'
+>;
+
+const emptyEstimate = (limitPrice: number, parameters: LimitOrderParameters, rejectedReason?: string): LimitOrderEstimate => ({
+  limitPrice,
+  timeInForce: parameters.timeInForce,
+  marketableQuantity: 0,
+  restingQuantity: 0,
+  queueAhead: 0,
+  restingFillProbability: 0,
+  expectedFillRatio: 0,
+  expectedTimeToFill: Infinity,
+  adverseSelectionCost: 0,
+  rejectedReason
+});
+
+/**
+ * Estimates how a limit order would execute against the current book. The
+ * marketable portion is whatever the opposite side offers at or better than the
+ * limit; the remainder rests on the order's own side (GTC and post-only) and fills
+ * when market flow works through the queue ahead of it or when the price diffuses
+ * through the limit (Brownian first passage). Volatility is read as daily %.
+ * @param orderBook Current order book state
+ * @param parameters Order quantity (quote currency), side, limit price, time in force,
+ *                   fill horizon and volatility
+ * @returns Fill ratio, time to fill and adverse-selection estimate
+ */
+export function estimateLimitOrder(orderBook: OrderBookSource, parameters: LimitOrderParameters): LimitOrderEstimate {
+  const { quantity, side, timeInForce, fillHorizon, volatility } = parameters;
+  const book = toLocalOrderBook(orderBook);
+  const opposite = bookSideFor(side);
+  const own = opposite === 'asks' ? 'bids' : 'asks';
+  const oppositeTouch = book.levelAt(opposite, 0);
+  const ownTouch = book.levelAt(own, 0);
+
+  if (!oppositeTouch) {
+    return emptyEstimate(parameters.limitPrice ?? 0, parameters, 'Order book is empty');
+  }
+
+  const limitPrice = parameters.limitPrice && parameters.limitPrice > 0 ? parameters.limitPrice : ownTouch?.price ?? oppositeTouch.price;
+  const crosses = side === 'buy' ? limitPrice >= oppositeTouch.price : limitPrice <= oppositeTouch.price;
+  const marketableNotional = crosses ? book.notionalToPrice(opposite, limitPrice) : 0;
+
+  if (timeInForce === 'POST_ONLY' && crosses) {
+    return emptyEstimate(limitPrice, parameters, 'Post-only order would cross the spread');
+  }
+  if (timeInForce === 'FOK' && marketableNotional < quantity) {
+    return emptyEstimate(limitPrice, parameters, 'Not enough liquidity at or better than the limit to fill or kill');
+  }
+
+  if (timeInForce === 'IOC' && !crosses) {
+    return emptyEstimate(limitPrice, parameters, 'Nothing marketable at the limit, immediate-or-cancel order cancelled');
+  }
+
+  const marketableQuantity = Math.min(quantity, marketableNotional);
+  const restingQuantity = timeInForce === 'GTC' || timeInForce === 'POST_ONLY' ? quantity - marketableQuantity : 0;
+
+  if (restingQuantity <= 0) {
+    return {
+      ...emptyEstimate(limitPrice, parameters),
+      marketableQuantity,
+      expectedFillRatio: quantity > 0 ? marketableQuantity / quantity : 0,
+      expectedTimeToFill: 0
+    };
+  }
+
+  const restingBase = restingQuantity / limitPrice;
+  const queueAhead = book.depthToPrice(own, limitPrice);
+
+  // Queue depletion by market flow hitting the order's own side
+  const flowRate = (ownTouch?.size ?? 0) / limitOrderModel.queueTurnoverSeconds;
+  const flowFillFraction = Math.min(1, Math.max(0, (flowRate * fillHorizon - queueAhead) / restingBase));
+
+  // Distance the opposite side must travel to reach the limit; after a partial
+  // sweep that is the first level the sweep did not consume
+  const oppositeAnchor = crosses
+    ? book.getLevels(opposite).find((level) => (side === 'buy' ? level.price > limitPrice : level.price < limitPrice))?.price
+    : oppositeTouch.price;
+  const distance = oppositeAnchor
+    ? Math.max(0, side === 'buy' ? Math.log(oppositeAnchor / limitPrice) : Math.log(limitPrice / oppositeAnchor))
+    : Infinity;
+
+  const sigmaPerSecond = volatility / 100 / Math.sqrt(limitOrderModel.secondsPerDay);
+  const sigmaHorizon = sigmaPerSecond * Math.sqrt(fillHorizon);
+  const priceHitProbability = distance === 0
+    ? 1
+    : sigmaHorizon > 0 && Number.isFinite(distance) ? 2 * (1 - normalCdf(distance / sigmaHorizon)) : 0;
+
+  const restingFillProbability = 1 - (1 - priceHitProbability) * (1 - flowFillFraction);
+
+  const flowTime = flowRate > 0 ? (queueAhead + restingBase) / flowRate : Infinity;
+  const priceTime = distance === 0
+    ? 0
+    : sigmaPerSecond > 0 ? (distance / (sigmaPerSecond * limitOrderModel.medianPassageQuantile)) ** 2 : Infinity;
+
+  // Fills caused by the price running through the order are followed on average
+  // by a continued move of E|W_T| = sigma * sqrt(T) * sqrt(2 / pi) against it
+  const adverseSelectionCost = restingQuantity * priceHitProbability * sigmaHorizon * Math.sqrt(2 / Math.PI);
+
+  return {
+    limitPrice,
+    timeInForce,
+    marketableQuantity,
+    restingQuantity,
+    queueAhead,
+    restingFillProbability,
+    expectedFillRatio: (marketableQuantity + restingQuantity * restingFillProbability) / quantity,
+    expectedTimeToFill: Math.min(flowTime, priceTime),
+    adverseSelectionCost
+  };
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { buildMakerTakerDataset, makerTakerFeatures } from './makerTakerClassifier';
+import { BookSample } from './slippageCalibration';
+import { OrderBookData, PriceLevelTuple } from './types';
+
+const book = (asks: PriceLevelTuple[], bids: PriceLevelTuple[]): OrderBookData => ({
+  timestamp: '2024-06-03T10:20:00.000Z',
+  exchange: 'okx',
+  symbol: 'BTC-USDT-SWAP',
+  asks,
+  bids
+});
+
+const quiet = book([['101', '10']], [['99', '10']]);
+
+describe('makerTakerFeatures', () => {
+  it('measures how far a limit order is from crossing', () => {
+    const market = makerTakerFeatures(quiet, 1010, 'buy', { orderType: 'market' })!;
+    const passive = makerTakerFeatures(quiet, 1010, 'buy', { orderType: 'limit', limitPrice: 99 })!;
+    const crossing = makerTakerFeatures(quiet, 1010, 'buy', { orderType: 'limit', limitPrice: 102 })!;
+
+    expect(market.limitOrder).toBe(0);
+    expect(market.limitDistanceBps).toBe(0);
+    expect(market.sizeToTouch).toBeCloseTo(1, 12);
+    expect(passive.limitDistanceBps).toBeCloseTo(200, 9);
+    expect(crossing.limitDistanceBps).toBeCloseTo(-100, 9);
+    expect(makerTakerFeatures(book([['101', '10']], []), 1010, 'buy', { orderType: 'market' })).toBeNull();
+  });
+});
+
+describe('buildMakerTakerDataset', () => {
+  // The ask drops onto the resting bid at 99 one second later
+  const records: BookSample[] = [
+    { source: 'okx', receivedAt: 0, data: quiet },
+    { source: 'okx', receivedAt: 1000, data: book([['99', '10']], [['98', '10']]) }
+  ];
+  const options = { quantities: [99], sides: ['buy' as const], limitOffsetsBps: [0] };
+
+  it('labels resting orders reached within the horizon as maker fills', () => {
+    const dataset = buildMakerTakerDataset(records, options);
+
+    // Market and limit on the first book; the limit on the last book never fills
+    expect(dataset.target).toEqual([0, 1, 0]);
+    expect(dataset.books).toBe(2);
+    expect(dataset.symbols).toEqual(['BTC-USDT-SWAP']);
+  });
+
+  it('drops resting orders the horizon does not reach', () => {
+    expect(buildMakerTakerDataset(records, { ...options, horizonSeconds: 0.5 }).target).toEqual([0, 0]);
+  });
+});
@@ -0,0 +1,343 @@
+import { MicrostructureSignals, OrderSide, SimulationParameters } from './types';
+import { LocalOrderBook, OrderBookSource, bookSideFor, toLocalOrderBook } from './orderBook';
+import { TouchSnapshot, calculateMarketMetrics, touchOf } from './marketMetrics';
+import { microstructureFeatureNames, microstructureFeatures, microstructureSignals } from './microstructure';
+import { ClassificationStats, classificationStats, fitLogisticRegression } from './regression';
+import type { BookSample } from './slippageCalibration';
+
+export const MAKER_TAKER_MODEL_SCHEMA = 1;
+
+// Order matters: coefficients are stored in this order after the intercept
+export const makerTakerFeatureNames = [
+  'limitOrder',
+  'limitDistanceBps',
+  'sizeToTouch',
+  'spreadBps',
+  'imbalance',
+  ...microstructureFeatureNames
+] as const;
+
+export type MakerTakerFeatureName = typeof makerTakerFeatureNames[number];
+export type MakerTakerFeatures = Record<MakerTakerFeatureName, number>;
+
+/** The parts of an order the classifier looks at besides size and side */
+export type MakerTakerOrder = Pick<SimulationParameters, 'orderType' | 'limitPrice'>;
+
+export interface MakerTakerModel {
+  schema: typeof MAKER_TAKER_MODEL_SCHEMA;
+  /** Unique identifier of this fit, e.g. maker-taker-20261019T101500Z */
+  version: string;
+  /** ISO timestamp of the fit */
+  fittedAt: string;
+  intercept: number;
+  coefficients: MakerTakerFeatures;
+  ridge: number;
+  stats: {
+    training: ClassificationStats;
+    /** Out-of-sample scores on the most recent part of the recording */
+    holdout?: ClassificationStats;
+  };
+  /** What the model was trained on */
+  training: {
+    symbols: string[];
+    books: number;
+    from: number;
+    to: number;
+    horizonSeconds: number;
+  };
+}
+
+export interface MakerTakerCalibrationOptions {
+  /** Order sizes in quote currency to simulate against every sampled book */
+  quantities?: number[];
+  sides?: OrderSide[];
+  /** Limit prices to simulate, in bps behind the order's own touch (negative is more aggressive) */
+  limitOffsetsBps?: number[];
+  /** Seconds a resting order is given to fill in the recording */
+  horizonSeconds?: number;
+  /** Use every Nth book per symbol */
+  stride?: number;
+  /** Share of the most recent observations held out for evaluation */
+  holdout?: number;
+  /** L2 penalty on the slopes */
+  ridge?: number;
+}
+
+export interface MakerTakerDataset {
+  features: MakerTakerFeatures[];
+  /** Share of the filled quantity that executed as maker */
+  target: number[];
+  symbols: string[];
+  books: number;
+  from: number;
+  to: number;
+}
+
+const defaultQuantities = [1000, 10000, 50000];
+const defaultLimitOffsetsBps = [-20, -5, 0, 5, 20];
+
+/**
+ * Limit price for an order, joining the order's own touch when unset
+ */
+const limitPriceFor = (book: LocalOrderBook, side: OrderSide, order: MakerTakerOrder): number | null => {
+  if (order.limitPrice && order.limitPrice > 0) return order.limitPrice;
+  const own = side === 'buy' ? book.bestBid() : book.bestAsk();
+  return own?.price ?? null;
+};
+
+/**
+ * Extracts the classifier features for one order against the current book
+ * @param orderBook Current order book state
+ * @param quantity Order quantity in quote currency
+ * @param side Order side; buys walk the asks, sells walk the bids
+ * @param order Order type and limit price
+ * @param signals Microstructure signals for the book; computed without OFI when unset
+ * @returns Feature values, or null if the book is one-sided
+ */
+export function makerTakerFeatures(
+  orderBook: OrderBookSource,
+  quantity: number,
+  side: OrderSide,
+  order: MakerTakerOrder,
+  signals?: MicrostructureSignals
+): MakerTakerFeatures | null {
+  const book = toLocalOrderBook(orderBook);
+  const touch = book.levelAt(bookSideFor(side), 0);
+  const mid = book.midPrice();
+  if (!touch || !mid) return null;
+
+  const imbalance = calculateMarketMetrics(book).imbalance.toNumber();
+  const limitPrice = order.orderType === 'limit' ? limitPriceFor(book, side, order) : null;
+
+  return {
+    limitOrder: limitPrice !== null ? 1 : 0,
+    // Distance still to travel before the order crosses; negative once it does
+    limitDistanceBps: limitPrice !== null
+      ? ((side === 'buy' ? touch.price - limitPrice : limitPrice - touch.price) / mid) * 10000
+      : 0,
+    sizeToTouch: quantity / touch.price / (touch.size || 1),
+    spreadBps: (book.spread() / mid) * 10000,
+    // Same sign convention as the slippage features
+    imbalance: side === 'buy' ? imbalance : -imbalance,
+    ...microstructureFeatures(book, side, signals ?? microstructureSignals(book))
+  };
+}
+
+/**
+ * Evaluates a fitted model
+ * @returns Predicted maker share of the filled quantity (0-1)
+ */
+export function predictMakerShare(model: MakerTakerModel, features: MakerTakerFeatures): number {
+  const z = makerTakerFeatureNames.reduce(
+    (sum, name) => sum + model.coefficients[name] * features[name],
+    model.intercept
+  );
+  return 1 / (1 + Math.exp(-z));
+}
+
+interface PendingOrder {
+  features: MakerTakerFeatures;
+  side: OrderSide;
+  limitPrice: number;
+  marketable: number;
+  resting: number;
+  index: number;
+}
+
+interface Stream {
+  book: LocalOrderBook;
+  touch: TouchSnapshot | null;
+  times: number[];
+  bids: number[];
+  asks: number[];
+  count: number;
+}
+
+/**
+ * Whether a resting order at the limit would have been reached within the
+ * horizon: the opposite touch traded through it or its own side's touch moved
+ * past it, which means the queue at the limit was consumed
+ */
+function restingFilled(stream: Stream, order: PendingOrder, horizonMs: number): boolean {
+  const end = stream.times[order.index] + horizonMs;
+  for (let i = order.index + 1; i < stream.times.length && stream.times[i] <= end; i++) {
+    const filled = order.side === 'buy'
+      ? stream.asks[i] <= order.limitPrice || stream.bids[i] < order.limitPrice
+      : stream.bids[i] >= order.limitPrice || stream.asks[i] > order.limitPrice;
+    if (filled) return true;
+  }
+  return false;
+}
+
+/**
+ * Rebuilds each recorded stream, simulates market and limit orders against
+ * sampled books and labels each with the maker share it would have realized:
+ * the marketable part fills as taker immediately and the resting part fills as
+ * maker if the later books reach its limit within the horizon
+ * @param records Recorded books in receive order
+ * @param options Sizes, sides, limit offsets, horizon and sampling stride
+ * @returns Feature rows and maker shares in time order; orders that would not fill are skipped
+ */
+export function buildMakerTakerDataset(records: BookSample[], options: MakerTakerCalibrationOptions = {}): MakerTakerDataset {
+  const quantities = options.quantities ?? defaultQuantities;
+  const sides = options.sides ?? ['buy', 'sell'];
+  const offsets = options.limitOffsetsBps ?? defaultLimitOffsetsBps;
+  const stride = Math.max(1, options.stride ?? 1);
+  const horizonMs = (options.horizonSeconds ?? 60) * 1000;
+
+  const streams = new Map<string, Stream>();
+  const dataset: MakerTakerDataset = { features: [], target: [], symbols: [], books: 0, from: Infinity, to: -Infinity };
+  const sampled: { stream: Stream; order: PendingOrder }[] = [];
+
+  for (const record of records) {
+    const key = `${record.source}:${record.data.symbol}`;
+    let stream = streams.get(key);
+    if (!stream) {
+      stream = { book: new LocalOrderBook(), touch: null, times: [], bids: [], asks: [], count: 0 };
+      streams.set(key, stream);
+    }
+    const { book } = stream;
+    if (!book.apply(record.data) || !book.isReady()) continue;
+
+    // OFI compares consecutive books, so signals are taken on every book, sampled or not
+    const signals = microstructureSignals(book, stream.touch);
+    stream.touch = touchOf(book);
+
+    const bid = book.bestBid();
+    const ask = book.bestAsk();
+    if (!bid || !ask) continue;
+    const index = stream.times.length;
+    stream.times.push(record.receivedAt);
+    stream.bids.push(bid.price);
+    stream.asks.push(ask.price);
+    if (stream.count++ % stride !== 0) continue;
+
+    dataset.books++;
+    dataset.from = Math.min(dataset.from, record.receivedAt);
+    dataset.to = Math.max(dataset.to, record.receivedAt);
+    if (!dataset.symbols.includes(record.data.symbol)) dataset.symbols.push(record.data.symbol);
+
+    for (const side of sides) {
+      const ownTouch = side === 'buy' ? bid.price : ask.price;
+      for (const quantity of quantities) {
+        const market = makerTakerFeatures(book, quantity, side, { orderType: 'market' }, signals);
+        if (market) {
+          sampled.push({ stream, order: { features: market, side, limitPrice: 0, marketable: quantity, resting: 0, index } });
+        }
+
+        for (const offset of offsets) {
+          const limitPrice = side === 'buy' ? ownTouch * (1 - offset / 10000) : ownTouch * (1 + offset / 10000);
+          const features = makerTakerFeatures(book, quantity, side, { orderType: 'limit', limitPrice }, signals);
+          if (!features) continue;
+          const marketable = features.limitDistanceBps <= 0
+            ? Math.min(quantity, book.notionalToPrice(bookSideFor(side), limitPrice))
+            : 0;
+          sampled.push({
+            stream,
+            order: { features, side, limitPrice, marketable, resting: quantity - marketable, index }
+          });
+        }
+      }
+    }
+  }
+
+  // Label once every stream has its full future
+  for (const { stream, order } of sampled) {
+    const maker = order.resting > 0 && restingFilled(stream, order, horizonMs) ? order.resting : 0;
+    const filled = order.marketable + maker;
+    if (filled <= 0) continue;
+    dataset.features.push(order.features);
+    dataset.target.push(maker / filled);
+  }
+
+  return dataset;
+}
+
+const compactTimestamp = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+
+const toRow = (features: MakerTakerFeatures): number[] => makerTakerFeatureNames.map((name) => features[name]);
+
+/**
+ * Scores a model on a labelled dataset
+ * @returns Log loss, Brier score and accuracy at a 0.5 threshold
+ */
+export function evaluateMakerTakerModel(model: MakerTakerModel, dataset: Pick<MakerTakerDataset, 'features' | 'target'>): ClassificationStats {
+  return classificationStats(
+    dataset.features.map((features) => predictMakerShare(model, features)),
+    dataset.target
+  );
+}
+
+/**
+ * Fits the maker/taker classifier on recorded order book history, holding out
+ * the most recent observations for evaluation
+ * @param records Recorded books in receive order
+ * @param options Dataset options, holdout share and ridge penalty
+ * @returns Versioned model with in- and out-of-sample scores
+ * @throws Error if the recording yields too few observations
+ */
+export function calibrateMakerTakerModel(records: BookSample[], options: MakerTakerCalibrationOptions = {}): MakerTakerModel {
+  const ridge = options.ridge ?? 1e-3;
+  const dataset = buildMakerTakerDataset(records, options);
+  const holdoutSize = Math.floor(dataset.target.length * Math.min(0.5, Math.max(0, options.holdout ?? 0.2)));
+  const trainSize = dataset.target.length - holdoutSize;
+
+  const fit = fitLogisticRegression(
+    dataset.features.slice(0, trainSize).map(toRow),
+    dataset.target.slice(0, trainSize),
+    ridge
+  );
+  const [intercept, ...slopes] = fit.coefficients;
+  const fittedAt = new Date();
+
+  const model: MakerTakerModel = {
+    schema: MAKER_TAKER_MODEL_SCHEMA,
+    version: `maker-taker-${compactTimestamp(fittedAt)}`,
+    fittedAt: fittedAt.toISOString(),
+    intercept,
+    coefficients: Object.fromEntries(makerTakerFeatureNames.map((name, i) => [name, slopes[i]])) as MakerTakerFeatures,
+    ridge,
+    stats: { training: fit.stats },
+    training: {
+      symbols: dataset.symbols,
+      books: dataset.books,
+      from: dataset.from,
+      to: dataset.to,
+      horizonSeconds: options.horizonSeconds ?? 60
+    }
+  };
+
+  if (holdoutSize > 0) {
+    model.stats.holdout = evaluateMakerTakerModel(model, {
+      features: dataset.features.slice(trainSize),
+      target: dataset.target.slice(trainSize)
+    });
+  }
+  return model;
+}
+
+/**
+ * Validates a model read from JSON
+ * @param value Parsed JSON
+ * @returns The model
+ * @throws Error if the schema or fields do not match
+ */
+export function parseMakerTakerModel(value: unknown): MakerTakerModel {
+  const model = value as MakerTakerModel;
+  if (!model || model.schema !== MAKER_TAKER_MODEL_SCHEMA) {
+    throw new Error(`Unsupported maker/taker model schema, expected ${MAKER_TAKER_MODEL_SCHEMA}`);
+  }
+  if (typeof model.version !== 'string' || typeof model.intercept !== 'number') {
+    throw new Error('Maker/taker model is missing its version or intercept');
+  }
+  for (const name of makerTakerFeatureNames) {
+    // Models fitted before the microstructure features give them no weight
+    if (model.coefficients && model.coefficients[name] === undefined && (microstructureFeatureNames as readonly string[]).includes(name)) {
+      model.coefficients[name] = 0;
+    }
+    if (typeof model.coefficients?.[name] !== 'number') {
+      throw new Error(`Maker/taker model is missing the ${name} coefficient`);
+    }
+  }
+  return model;
+}
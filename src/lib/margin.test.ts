@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { estimateMargin, marginDefaults, marginRulesFor } from './margin';
+
+const okx = marginRulesFor('OKX');
+const isolated = { side: 'buy' as const, leverage: 10, marginMode: 'isolated' as const, accountEquity: 10000 };
+
+describe('estimateMargin', () => {
+  it('liquidates an isolated long when its initial margin is used down to maintenance', () => {
+    const estimate = estimateMargin(isolated, okx, 10000, 100, 100, 0, 0);
+    const liquidation = 9000 / (100 * 0.996);
+
+    expect(estimate.initialMargin).toBe(1000);
+    expect(estimate.maintenanceMargin).toBeCloseTo(40, 9);
+    expect(estimate.liquidationPrice).toBeCloseTo(liquidation, 9);
+    // At that mark the margin balance equals the maintenance margin
+    expect(1000 + 100 * (liquidation - 100)).toBeCloseTo(100 * liquidation * 0.004, 9);
+    expect(estimate.distanceToLiquidation).toBeCloseTo(100 - liquidation, 9);
+    expect(estimate.warnings).toEqual([]);
+  });
+
+  it('mirrors the liquidation price for shorts and takes fees out of the collateral', () => {
+    const estimate = estimateMargin({ ...isolated, side: 'sell' }, okx, 10000, 100, 100, 5, 0);
+
+    expect(estimate.collateral).toBe(995);
+    expect(estimate.liquidationPrice).toBeCloseTo(10995 / (100 * 1.004), 9);
+    expect(estimate.distanceToLiquidation).toBeCloseTo(10995 / 100.4 - 100, 9);
+  });
+
+  it('backs cross positions with the whole account equity', () => {
+    const estimate = estimateMargin({ ...isolated, marginMode: 'cross', accountEquity: 5000 }, okx, 10000, 100, 100, 0, 0);
+
+    expect(estimate.collateral).toBe(5000);
+    expect(estimate.liquidationPrice).toBeCloseTo(5000 / 99.6, 9);
+    expect(estimateMargin({ ...isolated, marginMode: 'cross' }, okx, 10000, 100, 100, 0, 0).liquidationPrice).toBe(0);
+  });
+
+  it('warns about leverage caps, thin equity and slippage eating the cushion', () => {
+    const estimate = estimateMargin({ ...isolated, leverage: 150, accountEquity: 50 }, okx, 10000, 100, 100, 40, 0.05);
+
+    expect(estimate.warnings).toEqual([
+      'Leverage 150x is above the venue maximum of 100x',
+      'Account equity does not cover the initial margin and opening fees',
+      'The position would be liquidated at the expected fill'
+    ]);
+
+    // 100x leaves 0.6% to liquidation; 0.3% slippage is a third of the cushion
+    const near = estimateMargin({ ...isolated, leverage: 100 }, okx, 10000, 100, 100, 0, 0.3);
+    expect(near.warnings).toHaveLength(1);
+    expect(near.warnings[0]).toMatch(/^Expected slippage alone uses \d+% of the margin cushion/);
+  });
+
+  it('reports no liquidation price without a fill', () => {
+    const estimate = estimateMargin(isolated, okx, 0, 0, 100, 0, 0);
+
+    expect(estimate.liquidationPrice).toBe(0);
+    expect(estimate.distanceToLiquidation).toBe(Infinity);
+  });
+});
+
+describe('marginRulesFor', () => {
+  it('falls back to the default rules for unknown venues', () => {
+    expect(marginRulesFor('Bybit').maintenanceMarginRate).toBe(0.005);
+    expect(marginRulesFor('Unknown')).toBe(marginDefaults.rules);
+  });
+});
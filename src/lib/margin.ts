@@ -0,0 +1,118 @@
+import { MarginEstimate, SimulationParameters } from './types';
+
+export interface MarginRules {
+  /** Maintenance margin as a fraction of notional */
+  maintenanceMarginRate: number;
+  maxLeverage: number;
+}
+
+// First-tier rules for linear USDT perpetuals; larger positions fall into
+// higher tiers with stricter rates
+const venueMarginRules: Record<string, MarginRules> = {
+  OKX: { maintenanceMarginRate: 0.004, maxLeverage: 100 },
+  Binance: { maintenanceMarginRate: 0.004, maxLeverage: 125 },
+  Bybit: { maintenanceMarginRate: 0.005, maxLeverage: 100 }
+};
+
+export const marginDefaults = {
+  rules: { maintenanceMarginRate: 0.005, maxLeverage: 100 } as MarginRules,
+  // Warn once expected slippage uses this share of the margin cushion
+  nearLiquidationShare: 0.25
+};
+
+/**
+ * @param venue Venue, as in FeedAdapter.venue
+ * @returns Maintenance margin rate and leverage cap for the venue
+ */
+export function marginRulesFor(venue: string): MarginRules {
+  return venueMarginRules[venue] ?? marginDefaults.rules;
+}
+
+type MarginParameters = Pick<SimulationParameters, 'side' | 'leverage' | 'marginMode' | 'accountEquity'>;
+
+/**
+ * Estimates margin and the liquidation price of a linear position. Isolated
+ * positions are backed by their initial margin, cross positions by the whole
+ * account equity; opening fees are paid out of that collateral. The position is
+ * liquidated when its margin balance falls to the maintenance margin at the mark.
+ * @param parameters Side, leverage, margin mode and account equity
+ * @param rules Venue maintenance margin rate and leverage cap
+ * @param notional Filled notional in quote currency
+ * @param entryPrice Volume-weighted fill price
+ * @param markPrice Mid price after the fill
+ * @param fees Opening fees in quote currency
+ * @param expectedSlippage Expected slippage as a percentage
+ * @returns Margin requirements, liquidation price and warnings
+ */
+export function estimateMargin(
+  parameters: MarginParameters,
+  rules: MarginRules,
+  notional: number,
+  entryPrice: number,
+  markPrice: number,
+  fees: number,
+  expectedSlippage: number
+): MarginEstimate {
+  const { side, marginMode } = parameters;
+  const leverage = Math.max(1, parameters.leverage || 1);
+  const mmr = rules.maintenanceMarginRate;
+  const initialMargin = notional / leverage;
+  const maintenanceMargin = notional * mmr;
+  const collateral = (marginMode === 'isolated' ? initialMargin : parameters.accountEquity) - fees;
+  const warnings: string[] = [];
+
+  if (leverage > rules.maxLeverage) {
+    warnings.push(`Leverage ${leverage}x is above the venue maximum of ${rules.maxLeverage}x`);
+  }
+  if (parameters.accountEquity < initialMargin + fees) {
+    warnings.push('Account equity does not cover the initial margin and opening fees');
+  }
+
+  if (notional <= 0 || entryPrice <= 0 || markPrice <= 0) {
+    return {
+      marginMode,
+      leverage,
+      notional,
+      entryPrice,
+      markPrice,
+      initialMargin,
+      maintenanceMargin,
+      maintenanceMarginRate: mmr,
+      collateral,
+      liquidationPrice: 0,
+      distanceToLiquidation: Infinity,
+      warnings
+    };
+  }
+
+  // Solve collateral + PnL(P) = size * P * mmr for the mark price P
+  const size = notional / entryPrice;
+  const liquidationPrice = side === 'buy'
+    ? Math.max(0, (notional - collateral) / (size * (1 - mmr)))
+    : (notional + collateral) / (size * (1 + mmr));
+  const distanceToLiquidation = side === 'buy'
+    ? ((markPrice - liquidationPrice) / markPrice) * 100
+    : ((liquidationPrice - markPrice) / markPrice) * 100;
+
+  if (distanceToLiquidation <= 0) {
+    warnings.push('The position would be liquidated at the expected fill');
+  } else if (expectedSlippage > 0 && expectedSlippage / (expectedSlippage + distanceToLiquidation) >= marginDefaults.nearLiquidationShare) {
+    const share = (expectedSlippage / (expectedSlippage + distanceToLiquidation)) * 100;
+    warnings.push(`Expected slippage alone uses ${share.toFixed(0)}% of the margin cushion; the position opens near liquidation`);
+  }
+
+  return {
+    marginMode,
+    leverage,
+    notional,
+    entryPrice,
+    markPrice,
+    initialMargin,
+    maintenanceMargin,
+    maintenanceMarginRate: mmr,
+    collateral,
+    liquidationPrice,
+    distanceToLiquidation,
+    warnings
+  };
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { walkTheBook } from './marketMetrics';
+import { OrderBookData } from './types';
+
+const book: OrderBookData = {
+  timestamp: '2024-06-03T10:20:00.000Z',
+  exchange: 'okx',
+  symbol: 'BTC-USDT-SWAP',
+  asks: [['100', '1'], ['101', '1']],
+  bids: [['99', '1']]
+};
+
+describe('walkTheBook', () => {
+  it('fills level by level and measures slippage against the touch', () => {
+    const execution = walkTheBook(book, 201, 'buy');
+
+    expect(execution.fills).toEqual([
+      { price: 100, size: 1, notional: 100 },
+      { price: 101, size: 1, notional: 101 }
+    ]);
+    expect(execution.averagePrice).toBeCloseTo(100.5, 12);
+    expect(execution.worstPrice).toBe(101);
+    expect(execution.slippage).toBeCloseTo(0.5, 12);
+    expect(execution.unfilledQuantity).toBe(0);
+  });
+
+  it('reports what a thin book cannot absorb', () => {
+    const execution = walkTheBook(book, 300, 'buy');
+
+    expect(execution.filledQuantity).toBe(201);
+    expect(execution.unfilledQuantity).toBe(99);
+    expect(execution.requestedQuantity).toBe(300);
+  });
+
+  it('takes base quantities and reports quote amounts', () => {
+    const partial = walkTheBook(book, 1.5, 'buy', 'base');
+    const short = walkTheBook(book, 3, 'buy', 'base');
+
+    expect(partial.filledSize).toBe(1.5);
+    expect(partial.filledQuantity).toBe(150.5);
+    // The missing unit is valued at the deepest level reached
+    expect(short.unfilledQuantity).toBe(101);
+  });
+
+  it('has no slippage within the touch and nothing to fill on an empty side', () => {
+    expect(walkTheBook(book, 99, 'sell').slippage).toBe(0);
+    expect(walkTheBook({ ...book, bids: [] }, 99, 'sell')).toMatchObject({ filledQuantity: 0, averagePrice: 0, slippage: 0 });
+  });
+});
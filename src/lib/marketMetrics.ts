@@ -1,90 +1,137 @@
 
 import { Decimal } from 'decimal.js';
-import { OrderBookData, MarketMetrics } from './types';
+import { ExecutionEstimate, LevelFill, MarketMetrics, OrderSide } from './types';
+import { OrderBookSource, bookSideFor, toLocalOrderBook } from './orderBook';
 
 Decimal.set({ precision: 20 });
 
 /**
  * Calculates key market metrics from order book data
  * @param orderBook Current order book state
- * @returns Object containing spread, depth, imbalance, and volatility metrics
+ * @returns Object containing spread, depth, imbalance and relative spread
  */
-export function calculateMarketMetrics(orderBook: OrderBookData): MarketMetrics {
-  if (!orderBook?.asks?.[0] || !orderBook?.bids?.[0]) {
+export function calculateMarketMetrics(orderBook: OrderBookSource): MarketMetrics {
+  const book = toLocalOrderBook(orderBook);
+  const bestAskLevel = book.bestAsk();
+  const bestBidLevel = book.bestBid();
+  if (!bestAskLevel || !bestBidLevel) {
     return {
       spread: new Decimal(0),
       depth: new Decimal(0),
       imbalance: new Decimal(0),
-      volatility: new Decimal(0)
+      relativeSpread: new Decimal(0)
     };
   }
 
   // Calculate spread
-  const bestAsk = new Decimal(orderBook.asks[0][0]);
-  const bestBid = new Decimal(orderBook.bids[0][0]);
+  const bestAsk = new Decimal(bestAskLevel.rawPrice);
+  const bestBid = new Decimal(bestBidLevel.rawPrice);
   const spread = bestAsk.minus(bestBid);
   const midPrice = bestAsk.plus(bestBid).div(2);
   
   // Calculate market depth (sum of volumes within 2% of mid price)
   const depthThreshold = midPrice.mul('0.02'); // 2% threshold
   
-  let bidDepth = new Decimal(0);
-  let askDepth = new Decimal(0);
-  
-  // Calculate bid depth
-  for (const [price, size] of orderBook.bids) {
-    if (midPrice.minus(new Decimal(price)).abs().lte(depthThreshold)) {
-      bidDepth = bidDepth.plus(new Decimal(size));
-    }
-  }
-  
-  // Calculate ask depth
-  for (const [price, size] of orderBook.asks) {
-    if (midPrice.minus(new Decimal(price)).abs().lte(depthThreshold)) {
-      askDepth = askDepth.plus(new Decimal(size));
-    }
-  }
+  const bidDepth = new Decimal(book.depthToPrice('bids', midPrice.minus(depthThreshold).toNumber()));
+  const askDepth = new Decimal(book.depthToPrice('asks', midPrice.plus(depthThreshold).toNumber()));
   
   const depth = bidDepth.plus(askDepth);
   
   // Calculate order book imbalance
   const imbalance = depth.isZero() ? new Decimal(0) : bidDepth.minus(askDepth).div(depth);
   
-  // Calculate short-term volatility estimate
-  // We use spread as a proxy for short-term volatility
-  const volatility = spread.div(midPrice).mul('100');
+  const relativeSpread = spread.div(midPrice).mul('100');
 
   return {
     spread,
     depth,
     imbalance,
-    volatility
+    relativeSpread
   };
 }
 
 /**
  * Calculates Volume-Weighted Average Price for one side of the order book
- * @param orderBook Current order book state
+ * @param orderBook Current order book state (snapshot or LocalOrderBook)
  * @param side Which side of the book to calculate VWAP for ('bids' or 'asks')
  * @returns Calculated VWAP as a Decimal
  */
-export function calculateVWAP(orderBook: OrderBookData, side: 'bids' | 'asks'): Decimal {
-  if (!orderBook?.[side] || orderBook[side].length === 0) {
-    return new Decimal(0);
-  }
+export function calculateVWAP(orderBook: OrderBookSource, side: 'bids' | 'asks'): Decimal {
+  const book = toLocalOrderBook(orderBook);
+  const totalVolume = new Decimal(book.cumulativeSize(side));
+  const weightedSum = new Decimal(book.cumulativeNotional(side));
 
-  let totalVolume = new Decimal(0);
-  let weightedSum = new Decimal(0);
+  return totalVolume.isZero() ? new Decimal(0) : weightedSum.div(totalVolume);
+}
 
-  for (const [price, size] of orderBook[side]) {
-    const decPrice = new Decimal(price);
-    const decSize = new Decimal(size);
-    
-    weightedSum = weightedSum.plus(decPrice.mul(decSize));
-    totalVolume = totalVolume.plus(decSize);
+/**
+ * Fills an order against the visible book level by level, starting at the touch
+ * @param orderBook Current order book state
+ * @param quantity Order quantity, in quote currency unless `unit` is 'base'
+ * @param side Order side; buys walk the asks, sells walk the bids
+ * @param unit Whether `quantity` is quote (e.g. USD) or base currency
+ * @returns Average and worst fill price, levels consumed, per-level fills and any
+ *          quantity the book was too thin to absorb
+ */
+export function walkTheBook(
+  orderBook: OrderBookSource,
+  quantity: number,
+  side: OrderSide,
+  unit: 'quote' | 'base' = 'quote'
+): ExecutionEstimate {
+  const book = toLocalOrderBook(orderBook);
+  const bookSide = bookSideFor(side);
+  const touch = book.levelAt(bookSide, 0);
+
+  let remaining = new Decimal(Math.max(quantity, 0));
+  let filledSize = new Decimal(0);
+  let filledNotional = new Decimal(0);
+  const fills: LevelFill[] = [];
+
+  for (let i = 0; remaining.gt(0); i++) {
+    const level = book.levelAt(bookSide, i);
+    if (!level) break;
+
+    const price = new Decimal(level.rawPrice);
+    const levelSize = new Decimal(level.rawSize);
+    const available = unit === 'base' ? levelSize : levelSize.mul(price);
+    const taken = Decimal.min(remaining, available);
+    const size = unit === 'base' ? taken : taken.div(price);
+    const notional = unit === 'base' ? taken.mul(price) : taken;
+
+    fills.push({ price: level.price, size: size.toNumber(), notional: notional.toNumber() });
+    filledSize = filledSize.plus(size);
+    filledNotional = filledNotional.plus(notional);
+    remaining = remaining.minus(taken);
   }
 
-  return totalVolume.isZero() ? new Decimal(0) : weightedSum.div(totalVolume);
+  const touchPrice = touch ? new Decimal(touch.rawPrice) : new Decimal(0);
+  const averagePrice = filledSize.isZero() ? new Decimal(0) : filledNotional.div(filledSize);
+  const slippage = filledSize.isZero()
+    ? new Decimal(0)
+    : side === 'buy'
+      ? averagePrice.minus(touchPrice).div(touchPrice).mul(100)
+      : touchPrice.minus(averagePrice).div(touchPrice).mul(100);
+
+  // Report quantities in quote currency whichever unit the order came in
+  const filledQuantity = filledNotional.toNumber();
+  const unfilledQuantity = unit === 'base'
+    ? remaining.mul(fills.length > 0 ? fills[fills.length - 1].price : touchPrice).toNumber()
+    : remaining.toNumber();
+
+  return {
+    side,
+    requestedQuantity: filledQuantity + unfilledQuantity,
+    filledQuantity,
+    unfilledQuantity,
+    filledSize: filledSize.toNumber(),
+    touchPrice: touchPrice.toNumber(),
+    averagePrice: averagePrice.toNumber(),
+    worstPrice: fills.length > 0 ? fills[fills.length - 1].price : 0,
+    levelsConsumed: fills.length,
+    slippage: slippage.toNumber(),
+    fills
+  };
 }
 
 /**
@@ -92,65 +139,62 @@ export function calculateVWAP(orderBook: OrderBookData, side: 'bids' | 'asks'):
  * @param orderBook Current order book state
  * @param quantity Order quantity in base currency
  * @param side 'buy' or 'sell'
- * @returns Price impact as a percentage
+ * @returns Price impact as a percentage over the part of the order the book can
+ *          fill; use walkTheBook to see any shortfall
  */
 export function calculatePriceImpact(
-  orderBook: OrderBookData,
+  orderBook: OrderBookSource,
   quantity: number,
-  side: 'buy' | 'sell'
+  side: OrderSide
 ): Decimal {
-  const levels = side === 'buy' ? orderBook.asks : orderBook.bids;
-  if (!levels || levels.length === 0) {
-    return new Decimal(0);
-  }
-
-  let remainingQty = new Decimal(quantity);
-  let totalCost = new Decimal(0);
-  const basePrice = new Decimal(levels[0][0]);
-
-  for (const [price, size] of levels) {
-    if (remainingQty.lte(0)) break;
-
-    const levelPrice = new Decimal(price);
-    const levelSize = new Decimal(size);
-    const fillSize = Decimal.min(remainingQty, levelSize);
-    
-    totalCost = totalCost.plus(levelPrice.mul(fillSize));
-    remainingQty = remainingQty.minus(fillSize);
-  }
-
-  if (remainingQty.gt(0)) {
-    // Not enough liquidity in the order book to fill the order
-    return new Decimal(100); // Maximum impact (100%)
-  }
+  return new Decimal(walkTheBook(orderBook, quantity, side, 'base').slippage);
+}
 
-  const avgPrice = totalCost.div(quantity);
-  const impact = side === 'buy' 
-    ? avgPrice.minus(basePrice).div(basePrice).mul(100) // For buys, impact is positive
-    : basePrice.minus(avgPrice).div(basePrice).mul(100); // For sells, impact is positive when price decreases
-  
-  return impact;
+export interface TouchSnapshot {
+  bidPrice: number;
+  bidSize: number;
+  askPrice: number;
+  askSize: number;
 }
 
 /**
- * Estimates market volatility based on recent price history
- * @param timeSeriesData Array of price data points
- * @param window Window size for rolling volatility calculation
- * @returns Annualized volatility as a percentage
+ * Copies the best bid and ask out of a book, which is mutated in place
+ * @returns The touch, or null if either side is empty
  */
-export function estimateVolatility(timeSeriesData: { price: number }[], window: number = 20): number {
-  if (timeSeriesData.length < 2) return 0;
-
-  const returns = [];
-  for (let i = 1; i < timeSeriesData.length; i++) {
-    const returnVal = Math.log(timeSeriesData[i].price / timeSeriesData[i - 1].price);
-    returns.push(returnVal);
-  }
+export function touchOf(orderBook: OrderBookSource): TouchSnapshot | null {
+  const book = toLocalOrderBook(orderBook);
+  const bid = book.bestBid();
+  const ask = book.bestAsk();
+  return bid && ask ? { bidPrice: bid.price, bidSize: bid.size, askPrice: ask.price, askSize: ask.size } : null;
+}
 
-  const windowReturns = returns.slice(-window);
-  const mean = windowReturns.reduce((a, b) => a + b, 0) / windowReturns.length;
-  const variance = windowReturns.reduce((a, b) => a + Math.pow(b - mean, 2), 0) / (windowReturns.length - 1);
-  const annualizedVol = Math.sqrt(variance * 252) * 100; // Annualized volatility in percentage
+/**
+ * Volume the book implies has traded between two touches: size that left
+ * either touch without the price moving away from it
+ * @returns Base size and quote notional
+ */
+export function impliedVolume(previous: TouchSnapshot, current: TouchSnapshot): { size: number; notional: number } {
+  const bidTaken = current.bidPrice < previous.bidPrice
+    ? previous.bidSize
+    : current.bidPrice === previous.bidPrice ? Math.max(0, previous.bidSize - current.bidSize) : 0;
+  const askTaken = current.askPrice > previous.askPrice
+    ? previous.askSize
+    : current.askPrice === previous.askPrice ? Math.max(0, previous.askSize - current.askSize) : 0;
+  return { size: bidTaken + askTaken, notional: bidTaken * previous.bidPrice + askTaken * previous.askPrice };
+}
 
-  return annualizedVol;
+/**
+ * Order flow imbalance between two consecutive touches: net buying pressure in
+ * base units implied by queue changes at the best bid and ask
+ * @returns Positive for net buying, negative for net selling
+ *
+ * Reference: Cont, R., Kukanov, A., & Stoikov, S. (2014).
+ * "The price impact of order book events"
+ */
+export function orderFlowImbalance(previous: TouchSnapshot, current: TouchSnapshot): number {
+  const bidFlow = (current.bidPrice >= previous.bidPrice ? current.bidSize : 0)
+    - (current.bidPrice <= previous.bidPrice ? previous.bidSize : 0);
+  const askFlow = (current.askPrice <= previous.askPrice ? current.askSize : 0)
+    - (current.askPrice >= previous.askPrice ? previous.askSize : 0);
+  return bidFlow - askFlow;
 }
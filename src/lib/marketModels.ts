@@ -1,86 +1,115 @@
 import { Decimal } from 'decimal.js';
-import { OrderBookData } from './types';
 import { calculateMarketMetrics, calculateVWAP, calculatePriceImpact } from './marketMetrics';
+import { ImpactCoefficients, MicrostructureSignals, OrderSide } from './types';
+import { OrderBookSource, bookSideFor, toLocalOrderBook } from './orderBook';
+import { SlippageModel, predictSlippage, slippageFeatures } from './slippageCalibration';
+import { MakerTakerModel, MakerTakerOrder, makerTakerFeatures, predictMakerShare } from './makerTakerClassifier';
+import { FeeMarket, defaultFeeMarket, resolveFeeRates } from './feeSchedules';
 
 Decimal.set({ precision: 20 });
 
-// Fee rates for OKX USDT pairs spot trading
-const feeRates: Record<string, { maker: number, taker: number }> = {
-  // Regular users
-  "Lvl 1": { maker: 0.0008, taker: 0.0010 },
-  "Lvl 2": { maker: 0.00075, taker: 0.0009 },
-  "Lvl 3": { maker: 0.0007, taker: 0.0008 },
-  "Lvl 4": { maker: 0.00065, taker: 0.0007 },
-  "Lvl 5": { maker: 0.0006, taker: 0.0006 },
-  // VIP users
-  "VIP 0": { maker: 0.0008, taker: 0.0010 }, // Kept for backward compatibility
-  "VIP 1": { maker: 0.00045, taker: 0.0005 },
-  "VIP 2": { maker: 0.0004, taker: 0.00045 },
-  "VIP 3": { maker: 0.0003, taker: 0.0004 },
-  "VIP 4": { maker: 0.0002, taker: 0.00035 },
-  "VIP 5": { maker: 0.0, taker: 0.0003 },
-  "VIP 6": { maker: -0.00002, taker: 0.00025 },
-  "VIP 7": { maker: -0.00005, taker: 0.0002 },
-  "VIP 8": { maker: -0.00005, taker: 0.00015 }
-};
-
-// Almgren-Chriss model parameters
-const almgrenChriss = {
+// Almgren-Chriss model parameters, used until a symbol has been calibrated
+export const almgrenChriss: ImpactCoefficients = {
   eta: 0.01,  // Permanent impact parameter
   gamma: 0.1, // Temporary impact parameter
 };
 
+// Calibrated slippage regression; the heuristic below is used until one is loaded
+let slippageModel: SlippageModel | null = null;
+
+/**
+ * Replaces the slippage model used by calculateSlippage
+ * @param model Fitted model, or null to fall back to the heuristic
+ */
+export function loadSlippageModel(model: SlippageModel | null): void {
+  slippageModel = model;
+}
+
+export function getSlippageModel(): SlippageModel | null {
+  return slippageModel;
+}
+
+// Trained maker/taker classifier; the hand-weighted logistic is used until one is loaded
+let makerTakerModel: MakerTakerModel | null = null;
+
+/**
+ * Replaces the classifier used by calculateMakerTakerProportion
+ * @param model Fitted model, or null to fall back to the hand-picked weights
+ */
+export function loadMakerTakerModel(model: MakerTakerModel | null): void {
+  makerTakerModel = model;
+}
+
+export function getMakerTakerModel(): MakerTakerModel | null {
+  return makerTakerModel;
+}
+
 /**
- * Calculates expected slippage based on order book data and quantity using a simplified linear model
- * as a proxy for regression
+ * Calculates expected slippage from the loaded regression model, or from a
+ * simplified linear heuristic when no model has been calibrated
  * @param orderBook Current order book state
  * @param quantity Order quantity in quote currency (e.g., USD)
+ * @param side Order side; buys walk the asks, sells walk the bids
+ * @param volatility Recent volatility as a daily percentage (regression feature)
+ * @param signals Microstructure signals for the book (regression features)
  * @returns Calculated slippage as a percentage
  */
-export function calculateSlippage(orderBook: OrderBookData, quantity: number): number {
-  if (!orderBook?.asks || orderBook.asks.length === 0) {
+export function calculateSlippage(
+  orderBook: OrderBookSource,
+  quantity: number,
+  side: OrderSide,
+  volatility: number = 0,
+  signals?: MicrostructureSignals
+): number {
+  const book = toLocalOrderBook(orderBook);
+  const bookSide = bookSideFor(side);
+  const touch = book.levelAt(bookSide, 0);
+  if (!touch) {
     return 0;
   }
 
-  // Get the best ask price to convert quantity to base currency
-  const bestAsk = parseFloat(orderBook.asks[0][0]);
-  const quantityBase = quantity / bestAsk;
+  if (slippageModel) {
+    const features = slippageFeatures(book, quantity, side, volatility, signals);
+    return features ? predictSlippage(slippageModel, features) : 0;
+  }
+
+  // Get the best price on the executed side to convert quantity to base currency
+  const touchPrice = touch.price;
+  const quantityBase = quantity / touchPrice;
   
   // Calculate available depth at best 10 levels
-  const sortedAsks = [...orderBook.asks].sort((a, b) => parseFloat(a[0]) - parseFloat(b[0]));
-  let cumulativeDepth = 0;
-  for (let i = 0; i < Math.min(10, sortedAsks.length); i++) {
-    cumulativeDepth += parseFloat(sortedAsks[i][1]);
-  }
+  const cumulativeDepth = book.cumulativeSize(bookSide, 10);
 
   // Get market metrics for additional factors
-  const metrics = calculateMarketMetrics(orderBook);
+  const metrics = calculateMarketMetrics(book);
   
-  // Simplified linear model: slippage = k * (orderSize / depth) * volatility * (1 + abs(imbalance))
-  const k = 0.1; // Sensitivity factor (calibrated constant)
-  const volatilityFactor = metrics.volatility.toNumber() / 100; // Convert from percentage
+  // Simplified linear model: slippage = k * (orderSize / depth) * relativeSpread * (1 + abs(imbalance)),
+  // with the relative spread standing in for short-term volatility
+  const k = 0.1; // Sensitivity factor (uncalibrated constant)
+  const spreadFactor = metrics.relativeSpread.toNumber() / 100; // Convert from percentage
   const imbalanceFactor = 1 + metrics.imbalance.abs().toNumber(); // Imbalance adjustment
   
-  const slippage = k * (quantityBase / (cumulativeDepth || 1)) * volatilityFactor * imbalanceFactor;
+  const slippage = k * (quantityBase / (cumulativeDepth || 1)) * spreadFactor * imbalanceFactor;
   return slippage * 100; // Convert to percentage
 }
 
 /**
- * Calculates expected fees based on fee tier and quantity using exchange fee structure
+ * Calculates expected fees from the fee schedule in force for the market
  * @param feeTier Exchange fee tier
  * @param quantity Order quantity in quote currency
  * @param price Current market price
  * @param makerTakerProportion Maker proportion (0-1), used to calculate effective fee rate
+ * @param market Venue, product and token payment the schedule is resolved for
  * @returns Calculated fees in quote currency
  */
 export function calculateFees(
   feeTier: string, 
   quantity: number, 
   price: number,
-  makerTakerProportion: number = 0
+  makerTakerProportion: number = 0,
+  market: FeeMarket = defaultFeeMarket
 ): number {
-  // Use the actual OKX fee schedule
-  const tierRates = feeRates[feeTier] || feeRates["VIP 0"];
+  const tierRates = resolveFeeRates(market, feeTier);
   
   // Calculate effective fee rate based on maker/taker proportion
   const effectiveFeeRate = (makerTakerProportion * tierRates.maker) + 
@@ -94,34 +123,39 @@ export function calculateFees(
  * @param orderBook Current order book state
  * @param quantity Order quantity in quote currency
  * @param volatility Market volatility parameter (percentage)
+ * @param side Order side; buys walk the asks, sells walk the bids
+ * @param coefficients Calibrated eta and gamma for the symbol (defaults to the constants above)
  * @returns Estimated market impact as a percentage
  * 
  * Reference: Almgren, R., & Chriss, N. (2001). 
  * "Optimal execution of portfolio transactions"
  */
 export function calculateMarketImpact(
-  orderBook: OrderBookData, 
+  orderBook: OrderBookSource, 
   quantity: number, 
-  volatility: number
+  volatility: number,
+  side: OrderSide,
+  coefficients: ImpactCoefficients = almgrenChriss
 ): number {
-  if (!orderBook?.asks || orderBook.asks.length === 0) {
+  const book = toLocalOrderBook(orderBook);
+  const touch = book.levelAt(bookSideFor(side), 0);
+  if (!touch) {
     return 0;
   }
   
-  // Get the best ask price to convert quantity to base currency
-  const bestAsk = parseFloat(orderBook.asks[0][0]);
-  const quantityBase = quantity / bestAsk;
+  // Get the best price on the executed side to convert quantity to base currency
+  const quantityBase = quantity / touch.price;
   
   // Calculate market depth and metrics
-  const metrics = calculateMarketMetrics(orderBook);
+  const metrics = calculateMarketMetrics(book);
   const marketDepth = metrics.depth.toNumber();
   
   // Convert volatility from percentage to decimal
   const volatilityDecimal = volatility / 100;
   
   // Calculate market impact components using Almgren-Chriss model
-  const permanentImpact = almgrenChriss.eta * quantityBase;
-  const temporaryImpact = (almgrenChriss.gamma / 2) * (quantityBase ** 2) * volatilityDecimal;
+  const permanentImpact = coefficients.eta * quantityBase;
+  const temporaryImpact = (coefficients.gamma / 2) * (quantityBase ** 2) * volatilityDecimal;
   
   // Total impact scaled by market depth factor
   const depthFactor = 1 + (1 / Math.sqrt(marketDepth || 1));
@@ -131,28 +165,43 @@ export function calculateMarketImpact(
 }
 
 /**
- * Estimates maker/taker proportion using a logistic regression model
+ * Estimates maker/taker proportion with the loaded logistic classifier, or with
+ * hand-picked logistic weights when no model has been trained
  * @param orderBook Current order book state
  * @param quantity Order quantity in quote currency
+ * @param side Order side; buys walk the asks, sells walk the bids
+ * @param order Order type and limit price (classifier feature)
+ * @param signals Microstructure signals for the book (classifier features)
  * @returns Estimated maker portion (0-1)
  */
 export function calculateMakerTakerProportion(
-  orderBook: OrderBookData, 
-  quantity: number
+  orderBook: OrderBookSource, 
+  quantity: number,
+  side: OrderSide,
+  order: MakerTakerOrder = { orderType: 'market' },
+  signals?: MicrostructureSignals
 ): number {
-  if (!orderBook?.asks || orderBook.asks.length === 0) {
+  const book = toLocalOrderBook(orderBook);
+  const touch = book.levelAt(bookSideFor(side), 0);
+  if (!touch) {
     return 0;
   }
+
+  if (makerTakerModel) {
+    const features = makerTakerFeatures(book, quantity, side, order, signals);
+    return features ? predictMakerShare(makerTakerModel, features) : 0;
+  }
   
-  // For market orders, we always assume 100% taker
-  // This is a simplification, as the assignment mentions a logistic regression model
+  const metrics = calculateMarketMetrics(book);
+  const touchPrice = touch.price;
+  const quantityBase = quantity / touchPrice;
   
-  const metrics = calculateMarketMetrics(orderBook);
-  const bestAsk = parseFloat(orderBook.asks[0][0]);
-  const quantityBase = quantity / bestAsk;
+  // Calculate available liquidity at the touch
+  const availableLiquidity = touch.size;
   
-  // Calculate available liquidity at the best ask
-  const availableLiquidity = parseFloat(orderBook.asks[0][1]);
+  // Imbalance is signed towards the bid side; flip it for sells so that more
+  // competing interest on the order's own side lowers the maker share
+  const sideImbalance = side === 'buy' ? metrics.imbalance.toNumber() : -metrics.imbalance.toNumber();
   
   // Calculate relative order size
   const relativeOrderSize = quantityBase / availableLiquidity;
@@ -162,8 +211,8 @@ export function calculateMakerTakerProportion(
   // where z is a linear combination of features
   
   const z = -2 * relativeOrderSize +
-           -1 * metrics.spread.div(bestAsk).toNumber() +
-           -0.5 * metrics.imbalance.toNumber() +
+           -1 * metrics.spread.div(touchPrice).toNumber() +
+           -0.5 * sideImbalance +
            0.5;  // Base term
   
   const makerProportion = 1 / (1 + Math.exp(-z));
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { RollingMarketStatistics } from './marketStatistics';
+import { OrderBookData, PriceLevelTuple } from './types';
+
+const book = (bids: PriceLevelTuple[], asks: PriceLevelTuple[]): OrderBookData => ({
+  timestamp: '2024-06-03T10:20:00.000Z',
+  exchange: 'okx',
+  symbol: 'BTC-USDT-SWAP',
+  asks,
+  bids
+});
+
+// Mid 10000 gives 1-dollar buckets: bids round down, asks up
+const first = book([['9999.5', '1'], ['9998', '2']], [['10000.5', '1']]);
+const second = book([['9999.2', '3']], [['10000.8', '1']]);
+const third = book([['9999', '1']], [['10001', '1']]);
+
+describe('RollingMarketStatistics', () => {
+  it('is empty before the first book', () => {
+    expect(new RollingMarketStatistics().results()).toEqual({});
+  });
+
+  it('describes the mid and the spread in bps over the window', () => {
+    const statistics = new RollingMarketStatistics(2);
+    [first, second, third].forEach((entry) => statistics.observe(entry));
+    const results = statistics.results();
+
+    expect(results.priceStats).toMatchObject({ mean: 10000, count: 2 });
+    expect(results.spreadStats?.min).toBeCloseTo(1.6, 9);
+    expect(results.spreadStats?.max).toBeCloseTo(2, 9);
+    expect(results.spreadHistogram?.reduce((sum, bin) => sum + bin.count, 0)).toBe(2);
+  });
+
+  it('averages resting size per bucket and forgets books that leave the window', () => {
+    const statistics = new RollingMarketStatistics(2);
+    statistics.observe(first);
+    statistics.observe(second);
+
+    expect(statistics.results().volumeProfile).toEqual([
+      { side: 'ask', price: 10001, volume: 1 },
+      { side: 'bid', price: 9999, volume: 2 },
+      { side: 'bid', price: 9998, volume: 1 }
+    ]);
+
+    statistics.observe(third);
+    expect(statistics.results().volumeProfile).toEqual([
+      { side: 'ask', price: 10001, volume: 1 },
+      { side: 'bid', price: 9999, volume: 2 }
+    ]);
+
+    statistics.reset();
+    expect(statistics.results()).toEqual({});
+  });
+});
@@ -0,0 +1,109 @@
+import { SimulationResults, VolumeProfile } from './types';
+import { BookSide, OrderBookSource, toLocalOrderBook } from './orderBook';
+import { bucketPrice, bucketSizesFor } from './consolidatedBook';
+import { describe, histogram } from './statistics';
+
+export const marketStatisticsDefaults = {
+  // Book updates kept in the rolling window
+  window: 600,
+  histogramBins: 20,
+  // Levels per side added to the liquidity profile from each book
+  profileLevels: 50
+};
+
+export type MarketStatisticsResults = Pick<
+  SimulationResults,
+  'priceStats' | 'spreadStats' | 'priceHistogram' | 'spreadHistogram' | 'volumeProfile'
+>;
+
+const profileSides: { side: BookSide; label: VolumeProfile['side'] }[] = [
+  { side: 'bids', label: 'bid' },
+  { side: 'asks', label: 'ask' }
+];
+
+/**
+ * Rolling statistics of the mid price and spread, and the average resting size
+ * per price bucket, over the most recent books of one instrument
+ */
+export class RollingMarketStatistics {
+  private mids: number[] = [];
+  private spreads: number[] = [];
+  // Resting size per side and bucket that each book in the window contributed
+  private frames: Map<string, number>[] = [];
+  private totals = new Map<string, number>();
+  private bucketSize = 0;
+
+  constructor(private readonly window: number = marketStatisticsDefaults.window) {}
+
+  /**
+   * Adds a book to the window, dropping the oldest once it is full
+   * @param orderBook Book after the latest update
+   */
+  observe(orderBook: OrderBookSource): void {
+    const book = toLocalOrderBook(orderBook);
+    const mid = book.midPrice();
+    if (!mid) return;
+
+    this.mids.push(mid);
+    this.spreads.push((book.spread() / mid) * 10000);
+    // Fixed for the life of the window so buckets stay comparable
+    if (this.bucketSize === 0) this.bucketSize = bucketSizesFor(mid)[1] ?? 0;
+
+    const frame = new Map<string, number>();
+    for (const { side, label } of profileSides) {
+      for (const level of book.getLevels(side, marketStatisticsDefaults.profileLevels)) {
+        const key = `${label}:${bucketPrice(level.price, this.bucketSize, side)}`;
+        frame.set(key, (frame.get(key) ?? 0) + level.size);
+      }
+    }
+    this.frames.push(frame);
+    this.addFrame(frame, 1);
+
+    if (this.mids.length > this.window) {
+      this.mids.shift();
+      this.spreads.shift();
+      this.addFrame(this.frames.shift()!, -1);
+    }
+  }
+
+  reset(): void {
+    this.mids = [];
+    this.spreads = [];
+    this.frames = [];
+    this.totals.clear();
+    this.bucketSize = 0;
+  }
+
+  /**
+   * Statistics over the current window
+   * @returns Result fields to merge into the simulation results; empty before the first book
+   */
+  results(): MarketStatisticsResults {
+    if (this.mids.length === 0) return {};
+    const { histogramBins } = marketStatisticsDefaults;
+
+    const volumeProfile: VolumeProfile[] = [...this.totals.entries()]
+      .map(([key, total]) => {
+        const [side, price] = key.split(':');
+        return { side: side as VolumeProfile['side'], price: Number(price), volume: total / this.frames.length };
+      })
+      .sort((a, b) => b.price - a.price);
+
+    return {
+      priceStats: describe(this.mids),
+      spreadStats: describe(this.spreads),
+      priceHistogram: histogram(this.mids, histogramBins),
+      spreadHistogram: histogram(this.spreads, histogramBins),
+      volumeProfile
+    };
+  }
+
+  private addFrame(frame: Map<string, number>, sign: 1 | -1): void {
+    for (const [key, size] of frame) {
+      const total = (this.totals.get(key) ?? 0) + sign * size;
+      // Float residue would otherwise keep buckets the window has left behind
+      if (total > 1e-12) this.totals.set(key, total);
+      else this.totals.delete(key);
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { microstructureFeatures, microstructureSignals } from './microstructure';
+import { touchOf } from './marketMetrics';
+import { OrderBookData, PriceLevelTuple } from './types';
+
+const book = (asks: PriceLevelTuple[], bids: PriceLevelTuple[]): OrderBookData => ({
+  timestamp: '2024-06-03T10:20:00.000Z',
+  exchange: 'okx',
+  symbol: 'BTC-USDT-SWAP',
+  asks,
+  bids
+});
+
+const heavyBid = book([['101', '1']], [['99', '3']]);
+
+describe('microstructureSignals', () => {
+  it('leans the microprice towards the thinner side', () => {
+    const signals = microstructureSignals(heavyBid);
+
+    expect(signals.microprice).toBeCloseTo(100.5, 12);
+    expect(signals.micropriceBps).toBeCloseTo(50, 9);
+    expect(signals.weightedImbalance).toBeCloseTo(0.5, 12);
+    expect(signals.ofi).toBe(0);
+  });
+
+  it('measures order-flow imbalance against the previous touch', () => {
+    const previous = touchOf(heavyBid);
+
+    // Bid queue grows by 2 at the same price
+    expect(microstructureSignals(book([['101', '1']], [['99', '5']]), previous).ofi).toBe(2);
+    // The ask is lifted away: its old queue counts as buying
+    expect(microstructureSignals(book([['102', '4']], [['99', '3']]), previous).ofi).toBe(1);
+    // A new, better bid counts in full
+    expect(microstructureSignals(book([['101', '1']], [['100', '2']]), previous).ofi).toBe(2);
+  });
+
+  it('fits the depth decay exponent and reads a symmetric book as balanced', () => {
+    // Mid 10000, so each unit of price is one bps from the mid
+    const kappa = 0.3;
+    const levels = (sign: number): PriceLevelTuple[] =>
+      [1, 2, 3, 4, 5].map((distance) => [String(10000 + sign * distance), String(Math.exp(-kappa * distance))]);
+    const signals = microstructureSignals(book(levels(1), levels(-1)));
+
+    expect(signals.depthDecay).toBeCloseTo(kappa, 9);
+    expect(signals.weightedImbalance).toBeCloseTo(0, 12);
+    expect(signals.pressureSlope).toBeCloseTo(0, 12);
+  });
+
+  it('gives positive pressure slope when bid depth builds faster', () => {
+    const signals = microstructureSignals(book([['101', '1'], ['102', '1']], [['99', '1'], ['98', '5']]));
+
+    expect(signals.pressureSlope).toBeGreaterThan(0);
+  });
+
+  it('is all zero for a one-sided book', () => {
+    expect(Object.values(microstructureSignals(book([['101', '1']], [])))).toEqual([0, 0, 0, 0, 0, 0]);
+  });
+});
+
+describe('microstructureFeatures', () => {
+  it('signs features so that pressure against the order is positive', () => {
+    const signals = { ...microstructureSignals(heavyBid), ofi: 4 };
+    const buy = microstructureFeatures(heavyBid, 'buy', signals);
+    const sell = microstructureFeatures(heavyBid, 'sell', signals);
+
+    // OFI is scaled by the average touch size of 2
+    expect(buy.ofi).toBe(2);
+    expect(sell.ofi).toBe(-2);
+    expect(sell.micropriceBps).toBeCloseTo(-buy.micropriceBps, 12);
+    expect(sell.weightedImbalance).toBeCloseTo(-buy.weightedImbalance, 12);
+    expect(sell.depthDecay).toBe(buy.depthDecay);
+  });
+});
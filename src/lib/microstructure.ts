@@ -0,0 +1,130 @@
+import { MicrostructureSignals, OrderSide } from './types';
+import { BookSide, OrderBookSource, toLocalOrderBook } from './orderBook';
+import { TouchSnapshot, orderFlowImbalance, touchOf } from './marketMetrics';
+
+export const microstructureDefaults = {
+  // Levels per side used by the weighted imbalance
+  imbalanceLevels: 5,
+  // Weight of level i is exp(-imbalanceDecay * i)
+  imbalanceDecay: 0.5,
+  // Levels per side used by the pressure slope and depth-decay fit
+  fitLevels: 10
+};
+
+// Order matters: model coefficients are stored in this order after the core features
+export const microstructureFeatureNames = ['ofi', 'micropriceBps', 'weightedImbalance', 'pressureSlope', 'depthDecay'] as const;
+
+export type MicrostructureFeatureName = typeof microstructureFeatureNames[number];
+export type MicrostructureFeatures = Record<MicrostructureFeatureName, number>;
+
+const emptySignals: MicrostructureSignals = {
+  ofi: 0,
+  microprice: 0,
+  micropriceBps: 0,
+  weightedImbalance: 0,
+  pressureSlope: 0,
+  depthDecay: 0
+};
+
+/**
+ * Least-squares slope through the origin of cumulative size against distance
+ * from the mid, over the first levels of one side
+ */
+function depthSlope(levels: { price: number; size: number }[], mid: number): number {
+  let cumulative = 0;
+  let xy = 0;
+  let xx = 0;
+  for (const level of levels) {
+    cumulative += level.size;
+    const distance = (Math.abs(level.price - mid) / mid) * 10000;
+    xy += distance * cumulative;
+    xx += distance * distance;
+  }
+  return xx > 0 ? xy / xx : 0;
+}
+
+/**
+ * Fits log size against distance from the mid over both sides
+ * @returns κ, the decay rate per bps, or 0 when the levels do not span a range of distances
+ */
+function fitDepthDecay(levels: { price: number; size: number }[], mid: number): number {
+  const points = levels
+    .filter((level) => level.size > 0)
+    .map((level) => ({ x: (Math.abs(level.price - mid) / mid) * 10000, y: Math.log(level.size) }));
+  if (points.length < 3) return 0;
+
+  const meanX = points.reduce((sum, point) => sum + point.x, 0) / points.length;
+  const meanY = points.reduce((sum, point) => sum + point.y, 0) / points.length;
+  let sxy = 0;
+  let sxx = 0;
+  for (const point of points) {
+    sxy += (point.x - meanX) * (point.y - meanY);
+    sxx += (point.x - meanX) ** 2;
+  }
+  return sxx > 0 ? -sxy / sxx : 0;
+}
+
+/**
+ * Computes the microstructure signals for the current book
+ * @param orderBook Current order book state
+ * @param previous Touch of the previous book in the same stream; OFI is 0 without it
+ * @returns Signals, all zero if either side is empty
+ *
+ * OFI reference: Cont, R., Kukanov, A., & Stoikov, S. (2014).
+ * The price impact of order book events. Journal of Financial Econometrics, 12(1), 47-88.
+ */
+export function microstructureSignals(orderBook: OrderBookSource, previous?: TouchSnapshot | null): MicrostructureSignals {
+  const book = toLocalOrderBook(orderBook);
+  const touch = touchOf(book);
+  if (!touch) return emptySignals;
+
+  const mid = (touch.bidPrice + touch.askPrice) / 2;
+  const touchSize = touch.bidSize + touch.askSize;
+  const microprice = touchSize > 0
+    ? (touch.bidPrice * touch.askSize + touch.askPrice * touch.bidSize) / touchSize
+    : mid;
+
+  const { imbalanceLevels, imbalanceDecay, fitLevels } = microstructureDefaults;
+  const weighted = (side: BookSide) =>
+    book.getLevels(side, imbalanceLevels).reduce((sum, level, i) => sum + Math.exp(-imbalanceDecay * i) * level.size, 0);
+  const bidWeighted = weighted('bids');
+  const askWeighted = weighted('asks');
+
+  const bids = book.getLevels('bids', fitLevels);
+  const asks = book.getLevels('asks', fitLevels);
+  const bidSlope = depthSlope(bids, mid);
+  const askSlope = depthSlope(asks, mid);
+
+  return {
+    ofi: previous ? orderFlowImbalance(previous, touch) : 0,
+    microprice,
+    micropriceBps: ((microprice - mid) / mid) * 10000,
+    weightedImbalance: bidWeighted + askWeighted > 0 ? (bidWeighted - askWeighted) / (bidWeighted + askWeighted) : 0,
+    pressureSlope: bidSlope + askSlope > 0 ? (bidSlope - askSlope) / (bidSlope + askSlope) : 0,
+    depthDecay: fitDepthDecay([...bids, ...asks], mid)
+  };
+}
+
+/**
+ * Model features from the signals, signed like the order book imbalance
+ * features so that pressure against the order is positive for both sides
+ * @param orderBook Current order book state, for scaling OFI by touch depth
+ * @param side Order side
+ * @param signals Signals for the same book
+ */
+export function microstructureFeatures(
+  orderBook: OrderBookSource,
+  side: OrderSide,
+  signals: MicrostructureSignals
+): MicrostructureFeatures {
+  const touch = touchOf(orderBook);
+  const touchDepth = touch ? (touch.bidSize + touch.askSize) / 2 : 0;
+  const sign = side === 'buy' ? 1 : -1;
+  return {
+    ofi: touchDepth > 0 ? (sign * signals.ofi) / touchDepth : 0,
+    micropriceBps: sign * signals.micropriceBps,
+    weightedImbalance: sign * signals.weightedImbalance,
+    pressureSlope: sign * signals.pressureSlope,
+    depthDecay: signals.depthDecay
+  };
+}
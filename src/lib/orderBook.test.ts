@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { LocalOrderBook, toLocalOrderBook } from './orderBook';
+import { OrderBookData, PriceLevelTuple } from './types';
+
+const frame = (
+  action: 'snapshot' | 'update',
+  asks: PriceLevelTuple[],
+  bids: PriceLevelTuple[]
+): OrderBookData => ({
+  timestamp: '2024-06-03T10:20:00.000Z',
+  exchange: 'okx',
+  symbol: 'BTC-USDT-SWAP',
+  action,
+  asks,
+  bids
+});
+
+const snapshot = frame(
+  'snapshot',
+  [['67001', '1'], ['67000', '0.5'], ['67003', '2'], ['67002', '0.25']],
+  [['66999', '1.5'], ['66997', '3'], ['66998', '0.75']]
+);
+
+const prices = (book: LocalOrderBook, side: 'bids' | 'asks') =>
+  book.getLevels(side).map((level) => level.price);
+
+describe('LocalOrderBook', () => {
+  it('orders asks ascending and bids descending', () => {
+    const book = LocalOrderBook.fromOrderBookData(snapshot);
+
+    expect(prices(book, 'asks')).toEqual([67000, 67001, 67002, 67003]);
+    expect(prices(book, 'bids')).toEqual([66999, 66998, 66997]);
+    expect(book.midPrice()).toBe(66999.5);
+    expect(book.spread()).toBe(1);
+    expect(book.getLevels('asks', 2).map((level) => level.price)).toEqual([67000, 67001]);
+    expect(book.levelAt('bids', 2)?.size).toBe(3);
+    expect(book.levelAt('bids', 3)).toBeUndefined();
+  });
+
+  it('upserts levels on deltas and removes levels updated to zero size', () => {
+    const book = LocalOrderBook.fromOrderBookData(snapshot);
+    book.apply(frame('update', [['67000', '0'], ['67001', '4'], ['67004', '1']], [['66999', '0.000']]));
+
+    expect(book.getLevels('asks').map(({ price, size }) => [price, size])).toEqual([
+      [67001, 4],
+      [67002, 0.25],
+      [67003, 2],
+      [67004, 1]
+    ]);
+    expect(book.bestBid()?.price).toBe(66998);
+    expect(book.levelCount('bids')).toBe(2);
+
+    // Removing a level that is not in the book is a no-op
+    book.apply(frame('update', [['60000', '0']], []));
+    expect(book.levelCount('asks')).toBe(4);
+  });
+
+  it('drops deltas until a snapshot arrives and replaces the book on each snapshot', () => {
+    const book = new LocalOrderBook();
+
+    expect(book.apply(frame('update', [['67000', '1']], [['66999', '1']]))).toBe(false);
+    expect(book.isReady()).toBe(false);
+
+    book.apply(snapshot);
+    book.apply(frame('snapshot', [['68000', '1']], [['67990', '2']]));
+    expect(prices(book, 'asks')).toEqual([68000]);
+    expect(prices(book, 'bids')).toEqual([67990]);
+    expect(book.isReady()).toBe(true);
+  });
+
+  it('sums size and notional through a price on either side', () => {
+    const book = LocalOrderBook.fromOrderBookData(snapshot);
+
+    expect(book.depthToPrice('asks', 67001.5)).toBeCloseTo(1.5, 12);
+    expect(book.depthToPrice('asks', 67002)).toBeCloseTo(1.75, 12);
+    expect(book.depthToPrice('asks', 66000)).toBe(0);
+    expect(book.depthToPrice('bids', 66998)).toBeCloseTo(2.25, 12);
+    expect(book.notionalToPrice('asks', 67001)).toBeCloseTo(67000 * 0.5 + 67001, 6);
+    expect(book.notionalToPrice('bids', 0)).toBeCloseTo(66999 * 1.5 + 66998 * 0.75 + 66997 * 3, 6);
+    expect(book.cumulativeSize('asks', 2)).toBeCloseTo(1.5, 12);
+    expect(book.cumulativeNotional('bids', 1)).toBeCloseTo(66999 * 1.5, 6);
+  });
+
+  it('finds the level at which cumulative size is reached', () => {
+    const book = LocalOrderBook.fromOrderBookData(snapshot);
+
+    expect(book.levelForCumulativeSize('asks', 0.5)).toBe(0);
+    expect(book.levelForCumulativeSize('asks', 0.51)).toBe(1);
+    expect(book.levelForCumulativeSize('asks', 1.75)).toBe(2);
+    expect(book.levelForCumulativeSize('asks', 3.75)).toBe(3);
+    expect(book.levelForCumulativeSize('asks', 3.76)).toBe(-1);
+  });
+
+  it('matches a sorted array through a long run of random updates', () => {
+    let seed = 42;
+    const random = () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed / 2147483648;
+    };
+
+    const book = LocalOrderBook.fromOrderBookData(frame('snapshot', [], []));
+    const reference = new Map<number, number>();
+    for (let i = 0; i < 2000; i++) {
+      const price = 67000 + Math.floor(random() * 200);
+      const size = random() < 0.3 ? 0 : Math.round(random() * 100) / 10;
+      book.apply(frame('update', [[String(price), String(size)]], []));
+      if (size === 0) reference.delete(price);
+      else reference.set(price, size);
+    }
+
+    const levels = [...reference.entries()].sort(([a], [b]) => a - b);
+    expect(book.getLevels('asks').map(({ price, size }) => [price, size])).toEqual(levels);
+
+    const through = 67100;
+    const expected = levels.filter(([price]) => price <= through).reduce((sum, [, size]) => sum + size, 0);
+    expect(book.depthToPrice('asks', through)).toBeCloseTo(expected, 9);
+
+    const target = expected / 2;
+    let cumulative = 0;
+    const index = levels.findIndex(([, size]) => (cumulative += size) >= target);
+    expect(book.levelForCumulativeSize('asks', target)).toBe(index);
+  });
+
+  it('round-trips venue sizes through toOrderBookData', () => {
+    const book = LocalOrderBook.fromOrderBookData(frame('snapshot', [['67000', '0.05', '5']], [['66999', '1']]));
+
+    expect(book.toOrderBookData()).toMatchObject({
+      action: 'snapshot',
+      asks: [['67000', '0.05', '5']],
+      bids: [['66999', '1']]
+    });
+  });
+});
+
+describe('toLocalOrderBook', () => {
+  it('indexes a raw snapshot once and passes books through', () => {
+    const book = toLocalOrderBook(snapshot);
+
+    expect(toLocalOrderBook(snapshot)).toBe(book);
+    expect(toLocalOrderBook(book)).toBe(book);
+  });
+});
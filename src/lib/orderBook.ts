@@ -0,0 +1,435 @@
+import { OrderBookData, OrderSide, PriceLevelTuple } from './types';
+
+export type BookSide = 'bids' | 'asks';
+
+/**
+ * Side of the book an order of the given side executes against
+ * (buys lift asks, sells hit bids)
+ */
+export const bookSideFor = (side: OrderSide): BookSide => (side === 'buy' ? 'asks' : 'bids');
+
+export interface BookLevel {
+  price: number;
+  size: number;
+  /** Price and size exactly as received, kept for checksums and display */
+  rawPrice: string;
+  rawSize: string;
+  /** Size in the venue's own units, for venues that quote contracts */
+  venueSize?: string;
+}
+
+interface LevelNode {
+  level: BookLevel;
+  /** Random heap priority that keeps the tree balanced in expectation */
+  priority: number;
+  left: LevelNode | null;
+  right: LevelNode | null;
+  /** Levels, total size and total notional of the subtree rooted here */
+  count: number;
+  size: number;
+  notional: number;
+}
+
+const countOf = (node: LevelNode | null) => (node ? node.count : 0);
+const sizeOf = (node: LevelNode | null) => (node ? node.size : 0);
+const notionalOf = (node: LevelNode | null) => (node ? node.notional : 0);
+
+/** Recomputes a node's subtree totals from its children */
+function refreshTotals(node: LevelNode): LevelNode {
+  node.count = countOf(node.left) + 1 + countOf(node.right);
+  node.size = sizeOf(node.left) + node.level.size + sizeOf(node.right);
+  node.notional = notionalOf(node.left) + node.level.size * node.level.price + notionalOf(node.right);
+  return node;
+}
+
+/** Joins two treaps where every level of `a` has priority over every level of `b` */
+function merge(a: LevelNode | null, b: LevelNode | null): LevelNode | null {
+  if (!a) return b;
+  if (!b) return a;
+  if (a.priority > b.priority) {
+    a.right = merge(a.right, b);
+    return refreshTotals(a);
+  }
+  b.left = merge(a, b.left);
+  return refreshTotals(b);
+}
+
+/**
+ * One side of the book, kept in priority order (best price first) in a treap
+ * whose nodes carry the level count, size and notional of their subtree.
+ * Inserts, removals, lookups by price or index and cumulative size or notional
+ * queries are all O(log n) expected; listing the top k levels is O(k + log n).
+ */
+class PriceLevels {
+  private root: LevelNode | null = null;
+
+  constructor(private readonly descending: boolean) {}
+
+  /** True when price a has priority over price b on this side */
+  private isBetter(a: number, b: number): boolean {
+    return this.descending ? a > b : a < b;
+  }
+
+  /**
+   * Splits a subtree into the levels priced better than `price` (or at it, when
+   * `inclusive`) and the rest
+   */
+  private split(node: LevelNode | null, price: number, inclusive: boolean): [LevelNode | null, LevelNode | null] {
+    if (!node) return [null, null];
+    const takeLeft = this.isBetter(node.level.price, price) || (inclusive && node.level.price === price);
+    if (takeLeft) {
+      const [left, right] = this.split(node.right, price, inclusive);
+      node.right = left;
+      return [refreshTotals(node), right];
+    }
+    const [left, right] = this.split(node.left, price, inclusive);
+    node.left = right;
+    return [left, refreshTotals(node)];
+  }
+
+  /**
+   * Number, size and notional of the levels priced at or better than `price`
+   */
+  private totalsThrough(price: number): { count: number; size: number; notional: number } {
+    const totals = { count: 0, size: 0, notional: 0 };
+    let node = this.root;
+    while (node) {
+      if (node.level.price === price || this.isBetter(node.level.price, price)) {
+        totals.count += countOf(node.left) + 1;
+        totals.size += sizeOf(node.left) + node.level.size;
+        totals.notional += notionalOf(node.left) + node.level.size * node.level.price;
+        node = node.right;
+      } else {
+        node = node.left;
+      }
+    }
+    return totals;
+  }
+
+  /**
+   * Size and notional of the best `count` levels
+   */
+  private totalsOfTop(count: number): { size: number; notional: number } {
+    const totals = { size: 0, notional: 0 };
+    let remaining = Math.min(count, this.length);
+    let node = this.root;
+    while (node && remaining > 0) {
+      const leftCount = countOf(node.left);
+      if (remaining <= leftCount) {
+        node = node.left;
+        continue;
+      }
+      totals.size += sizeOf(node.left) + node.level.size;
+      totals.notional += notionalOf(node.left) + node.level.size * node.level.price;
+      remaining -= leftCount + 1;
+      node = node.right;
+    }
+    return totals;
+  }
+
+  clear(): void {
+    this.root = null;
+  }
+
+  /**
+   * Inserts, replaces or (for zero size) removes the level at `rawPrice`
+   */
+  set(rawPrice: string, rawSize: string, venueSize?: string): void {
+    const price = parseFloat(rawPrice);
+    const size = parseFloat(rawSize);
+    if (!Number.isFinite(price)) return;
+
+    // Cut out the level at this price, if any, and join the rest around its replacement
+    const [better, rest] = this.split(this.root, price, false);
+    const [, worse] = this.split(rest, price, true);
+    const node = size > 0
+      ? refreshTotals({ level: { price, size, rawPrice, rawSize, venueSize }, priority: Math.random(), left: null, right: null, count: 0, size: 0, notional: 0 })
+      : null;
+    this.root = merge(merge(better, node), worse);
+  }
+
+  get length(): number {
+    return countOf(this.root);
+  }
+
+  at(index: number): BookLevel | undefined {
+    let node = this.root;
+    let remaining = index;
+    while (node) {
+      const leftCount = countOf(node.left);
+      if (remaining < leftCount) {
+        node = node.left;
+      } else if (remaining === leftCount) {
+        return node.level;
+      } else {
+        remaining -= leftCount + 1;
+        node = node.right;
+      }
+    }
+    return undefined;
+  }
+
+  slice(limit?: number): BookLevel[] {
+    const max = limit === undefined ? this.length : Math.max(0, limit);
+    const levels: BookLevel[] = [];
+    const stack: LevelNode[] = [];
+    let node = this.root;
+    while ((node || stack.length > 0) && levels.length < max) {
+      while (node) {
+        stack.push(node);
+        node = node.left;
+      }
+      node = stack.pop()!;
+      levels.push(node.level);
+      node = node.right;
+    }
+    return levels;
+  }
+
+  sizeThroughPrice(price: number): number {
+    return this.totalsThrough(price).size;
+  }
+
+  notionalThroughPrice(price: number): number {
+    return this.totalsThrough(price).notional;
+  }
+
+  sizeOfTopLevels(count: number): number {
+    return this.totalsOfTop(count).size;
+  }
+
+  notionalOfTopLevels(count: number): number {
+    return this.totalsOfTop(count).notional;
+  }
+
+  /**
+   * Index of the level at which cumulative size first reaches `size`, or -1
+   */
+  levelForCumulativeSize(size: number): number {
+    if (sizeOf(this.root) < size) return -1;
+
+    let node = this.root;
+    let remaining = size;
+    let index = 0;
+    while (node) {
+      const leftSize = sizeOf(node.left);
+      if (node.left && leftSize >= remaining) {
+        node = node.left;
+        continue;
+      }
+      if (leftSize + node.level.size >= remaining) {
+        return index + countOf(node.left);
+      }
+      remaining -= leftSize + node.level.size;
+      index += countOf(node.left) + 1;
+      node = node.right;
+    }
+    return -1;
+  }
+}
+
+/**
+ * Incrementally maintained L2 order book. Snapshots replace the book, deltas
+ * upsert levels and zero-size levels are removed. Level updates and best-price,
+ * depth-to-price and cumulative-size queries are O(log n) expected.
+ */
+export class LocalOrderBook {
+  timestamp = '';
+  exchange = '';
+  symbol = '';
+
+  private readonly sides: Record<BookSide, PriceLevels> = {
+    bids: new PriceLevels(true),
+    asks: new PriceLevels(false)
+  };
+  private hasSnapshot = false;
+
+  /**
+   * Builds a book from a full OrderBookData snapshot
+   * @param data Snapshot to load
+   * @returns New LocalOrderBook
+   */
+  static fromOrderBookData(data: OrderBookData): LocalOrderBook {
+    const book = new LocalOrderBook();
+    book.applySnapshot(data);
+    return book;
+  }
+
+  /**
+   * Replaces the whole book with the given snapshot
+   * @param data Full book snapshot
+   */
+  applySnapshot(data: OrderBookData): void {
+    this.sides.bids.clear();
+    this.sides.asks.clear();
+    this.hasSnapshot = true;
+    this.applyLevels(data);
+  }
+
+  /**
+   * Applies an incremental update on top of the current book
+   * @param data Changed levels; a size of zero deletes the level
+   * @returns false if no snapshot has been applied yet and the delta was dropped
+   */
+  applyDelta(data: OrderBookData): boolean {
+    if (!this.hasSnapshot) return false;
+    this.applyLevels(data);
+    return true;
+  }
+
+  /**
+   * Applies a normalized feed message, dispatching on its action
+   * @param data Snapshot or update message
+   * @returns false if the message was an update that could not be applied
+   */
+  apply(data: OrderBookData): boolean {
+    if (data.action === 'update') {
+      return this.applyDelta(data);
+    }
+    this.applySnapshot(data);
+    return true;
+  }
+
+  private applyLevels(data: OrderBookData): void {
+    this.timestamp = data.timestamp;
+    this.exchange = data.exchange;
+    this.symbol = data.symbol;
+    for (const [price, size, venueSize] of data.bids || []) this.sides.bids.set(price, size, venueSize);
+    for (const [price, size, venueSize] of data.asks || []) this.sides.asks.set(price, size, venueSize);
+  }
+
+  /**
+   * Drops all levels; deltas are ignored until the next snapshot
+   */
+  reset(): void {
+    this.sides.bids.clear();
+    this.sides.asks.clear();
+    this.hasSnapshot = false;
+  }
+
+  isReady(): boolean {
+    return this.hasSnapshot && this.sides.bids.length > 0 && this.sides.asks.length > 0;
+  }
+
+  levelCount(side: BookSide): number {
+    return this.sides[side].length;
+  }
+
+  bestBid(): BookLevel | undefined {
+    return this.sides.bids.at(0);
+  }
+
+  bestAsk(): BookLevel | undefined {
+    return this.sides.asks.at(0);
+  }
+
+  /**
+   * @returns Level at `index` from the top of the side (0 is best)
+   */
+  levelAt(side: BookSide, index: number): BookLevel | undefined {
+    return this.sides[side].at(index);
+  }
+
+  /**
+   * @returns Up to `limit` levels of one side, best price first
+   */
+  getLevels(side: BookSide, limit?: number): BookLevel[] {
+    return this.sides[side].slice(limit);
+  }
+
+  midPrice(): number {
+    const bid = this.bestBid();
+    const ask = this.bestAsk();
+    return bid && ask ? (bid.price + ask.price) / 2 : 0;
+  }
+
+  spread(): number {
+    const bid = this.bestBid();
+    const ask = this.bestAsk();
+    return bid && ask ? ask.price - bid.price : 0;
+  }
+
+  /**
+   * Total size resting at prices at or better than `price` on one side
+   * (bids at or above, asks at or below)
+   */
+  depthToPrice(side: BookSide, price: number): number {
+    return this.sides[side].sizeThroughPrice(price);
+  }
+
+  /**
+   * Total notional resting at prices at or better than `price` on one side
+   */
+  notionalToPrice(side: BookSide, price: number): number {
+    return this.sides[side].notionalThroughPrice(price);
+  }
+
+  /**
+   * Total size of the best `levels` levels on one side
+   */
+  cumulativeSize(side: BookSide, levels: number = Infinity): number {
+    return this.sides[side].sizeOfTopLevels(levels);
+  }
+
+  /**
+   * Total notional (price * size) of the best `levels` levels on one side
+   */
+  cumulativeNotional(side: BookSide, levels: number = Infinity): number {
+    return this.sides[side].notionalOfTopLevels(levels);
+  }
+
+  /**
+   * Index of the level at which cumulative size first reaches `size`
+   * @returns Level index, or -1 if the side is too thin
+   */
+  levelForCumulativeSize(side: BookSide, size: number): number {
+    return this.sides[side].levelForCumulativeSize(size);
+  }
+
+  /**
+   * Materializes the book in the wire format for display and serialization
+   * @param limit Maximum number of levels per side
+   */
+  toOrderBookData(limit?: number): OrderBookData {
+    const toTuples = (levels: BookLevel[]): PriceLevelTuple[] =>
+      levels.map((level) =>
+        level.venueSize === undefined ? [level.rawPrice, level.rawSize] : [level.rawPrice, level.rawSize, level.venueSize]
+      );
+
+    return {
+      timestamp: this.timestamp,
+      exchange: this.exchange,
+      symbol: this.symbol,
+      action: 'snapshot',
+      asks: toTuples(this.sides.asks.slice(limit)),
+      bids: toTuples(this.sides.bids.slice(limit))
+    };
+  }
+}
+
+export type OrderBookSource = OrderBookData | LocalOrderBook;
+
+const convertedBooks = new WeakMap<OrderBookData, LocalOrderBook>();
+
+/**
+ * Returns a LocalOrderBook for either input form. Raw OrderBookData snapshots are
+ * indexed once and cached, so several models reading the same message share the
+ * sorted structure. A missing book yields an empty one.
+ * @param source LocalOrderBook or raw snapshot
+ * @returns Indexed order book
+ */
+export function toLocalOrderBook(source: OrderBookSource): LocalOrderBook {
+  if (source instanceof LocalOrderBook) {
+    return source;
+  }
+  if (!source) {
+    return new LocalOrderBook();
+  }
+
+  let book = convertedBooks.get(source);
+  if (!book) {
+    book = LocalOrderBook.fromOrderBookData(source);
+    convertedBooks.set(source, book);
+  }
+  return book;
+}
@@ -0,0 +1,194 @@
+import { OrderBookData } from './types';
+
+export interface RecordedBook {
+  /** Session the record belongs to */
+  sessionId: string;
+  /** Feed adapter id the message arrived on */
+  source: string;
+  /** Local receive time in epoch milliseconds */
+  receivedAt: number;
+  data: OrderBookData;
+}
+
+export interface RecordingSession {
+  sessionId: string;
+  startedAt: number;
+  count: number;
+}
+
+const DB_NAME = 'goquant-recordings';
+const STORE_NAME = 'books';
+const FLUSH_INTERVAL_MS = 1000;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { autoIncrement: true });
+      store.createIndex('sessionId', 'sessionId');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Serializes records as newline-delimited JSON, one book per line
+ * @param records Recorded books in receive order
+ * @returns NDJSON text
+ */
+export function toNDJSON(records: RecordedBook[]): string {
+  return records.map((record) => JSON.stringify(record)).join('\n') + '\n';
+}
+
+/**
+ * Parses an NDJSON recording, skipping blank lines
+ * @param text NDJSON text as produced by toNDJSON
+ * @returns Records sorted by receive time
+ */
+export function parseNDJSON(text: string): RecordedBook[] {
+  return text
+    .split('\n')
+    .filter((line) => line.trim().length > 0)
+    .map((line, index) => {
+      try {
+        return JSON.parse(line) as RecordedBook;
+      } catch (error) {
+        throw new Error(`Invalid recording at line ${index + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    })
+    .sort((a, b) => a.receivedAt - b.receivedAt);
+}
+
+/**
+ * Records every normalized book message with its receive timestamp. Records are
+ * kept in memory for NDJSON export and written to IndexedDB in batches so a
+ * session survives a page reload.
+ */
+export class OrderBookRecorder {
+  private records: RecordedBook[] = [];
+  private pending: RecordedBook[] = [];
+  private sessionId: string | null = null;
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private db: Promise<IDBDatabase> | null = null;
+
+  start(): string {
+    this.stop();
+    this.sessionId = new Date().toISOString();
+    this.records = [];
+    this.flushTimer = setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+    return this.sessionId;
+  }
+
+  stop(): void {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.flush();
+    this.sessionId = null;
+  }
+
+  isRecording(): boolean {
+    return this.sessionId !== null;
+  }
+
+  /**
+   * Appends a message to the current session; ignored when not recording
+   * @param source Feed adapter id the message arrived on
+   * @param data Normalized book message
+   */
+  record(source: string, data: OrderBookData): void {
+    if (!this.sessionId) return;
+
+    const record: RecordedBook = {
+      sessionId: this.sessionId,
+      source,
+      receivedAt: Date.now(),
+      data
+    };
+    this.records.push(record);
+    this.pending.push(record);
+  }
+
+  getRecords(): RecordedBook[] {
+    return this.records;
+  }
+
+  /**
+   * Triggers a browser download of the last session as NDJSON
+   */
+  download(): void {
+    if (this.records.length === 0) return;
+
+    const blob = new Blob([toNDJSON(this.records)], { type: 'application/x-ndjson' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `orderbook-${this.records[0].sessionId.replace(/[:.]/g, '-')}.ndjson`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Lists sessions stored in IndexedDB, newest first
+   */
+  async listSessions(): Promise<RecordingSession[]> {
+    const db = await this.getDatabase();
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+    const records = await requestToPromise(store.getAll() as IDBRequest<RecordedBook[]>);
+
+    const sessions = new Map<string, RecordingSession>();
+    for (const record of records) {
+      const session = sessions.get(record.sessionId);
+      if (session) {
+        session.count++;
+      } else {
+        sessions.set(record.sessionId, { sessionId: record.sessionId, startedAt: record.receivedAt, count: 1 });
+      }
+    }
+    return [...sessions.values()].sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  /**
+   * Loads one stored session from IndexedDB
+   * @param sessionId Session to load
+   * @returns Records sorted by receive time
+   */
+  async loadSession(sessionId: string): Promise<RecordedBook[]> {
+    const db = await this.getDatabase();
+    const index = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index('sessionId');
+    const records = await requestToPromise(index.getAll(sessionId) as IDBRequest<RecordedBook[]>);
+    return records.sort((a, b) => a.receivedAt - b.receivedAt);
+  }
+
+  private getDatabase(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase();
+    }
+    return this.db;
+  }
+
+  private flush(): void {
+    if (this.pending.length === 0 || typeof indexedDB === 'undefined') return;
+
+    const batch = this.pending;
+    this.pending = [];
+    this.getDatabase()
+      .then((db) => {
+        const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+        for (const record of batch) {
+          store.add(record);
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to persist order book recording:', error);
+      });
+  }
+}
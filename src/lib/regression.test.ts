@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import {
+  classificationStats,
+  fitLinearRegression,
+  fitLogisticRegression,
+  fitQuantileRegression,
+  solveLinearSystem
+} from './regression';
+
+describe('solveLinearSystem', () => {
+  it('pivots past a zero on the diagonal', () => {
+    const solution = solveLinearSystem([[0, 1], [1, 0]], [2, 3]);
+
+    expect(solution[0]).toBeCloseTo(3, 12);
+    expect(solution[1]).toBeCloseTo(2, 12);
+  });
+
+  it('rejects singular systems', () => {
+    expect(() => solveLinearSystem([[1, 2], [2, 4]], [1, 2])).toThrow('singular');
+  });
+});
+
+describe('fitLinearRegression', () => {
+  it('recovers exact coefficients', () => {
+    const features = [[0, 1], [1, 0], [2, 3], [3, 1], [4, 2], [5, 5]];
+    const fit = fitLinearRegression(features, features.map(([a, b]) => 1 + 2 * a - 3 * b));
+
+    [1, 2, -3].forEach((coefficient, i) => expect(fit.coefficients[i]).toBeCloseTo(coefficient, 9));
+    expect(fit.r2).toBeCloseTo(1, 12);
+    expect(fit.rmse).toBeCloseTo(0, 9);
+  });
+
+  it('reports textbook standard errors and fit statistics', () => {
+    const fit = fitLinearRegression([[0], [1], [2], [3], [4]], [1, 3, 2, 5, 4]);
+
+    expect(fit.coefficients[0]).toBeCloseTo(1.4, 12);
+    expect(fit.coefficients[1]).toBeCloseTo(0.8, 12);
+    // s² = 3.6 / 3 over Sxx = 10 and x̄ = 2
+    expect(fit.standardErrors![0]).toBeCloseTo(Math.sqrt(1.2 * (1 / 5 + 4 / 10)), 12);
+    expect(fit.standardErrors![1]).toBeCloseTo(Math.sqrt(1.2 / 10), 12);
+    expect(fit.r2).toBeCloseTo(0.64, 12);
+    expect(fit.adjustedR2).toBeCloseTo(0.52, 12);
+    expect(fit.rmse).toBeCloseTo(Math.sqrt(3.6 / 5), 12);
+    expect(fit.mae).toBeCloseTo(4 / 5, 12);
+    expect(fit.observations).toBe(5);
+  });
+
+  it('needs more observations than coefficients and varying features', () => {
+    expect(() => fitLinearRegression([[1], [2]], [1, 2])).toThrow('Need more than 2 observations');
+    expect(() => fitLinearRegression([[1, 2], [2, 4], [3, 6], [4, 8]], [1, 2, 3, 4])).toThrow('collinear');
+  });
+});
+
+describe('fitQuantileRegression', () => {
+  const features = Array.from({ length: 11 }, (_, i) => [i]);
+  // On the line y = x except for one large outlier
+  const target = features.map(([x]) => (x === 7 ? 100 : x));
+
+  it('fits the median line through an outlier that drags least squares', () => {
+    const median = fitQuantileRegression(features, target, 0.5);
+    const ols = fitLinearRegression(features, target);
+
+    expect(median.coefficients[0]).toBeCloseTo(0, 3);
+    expect(median.coefficients[1]).toBeCloseTo(1, 3);
+    expect(Math.abs(ols.coefficients[1] - 1)).toBeGreaterThan(1);
+    // Check loss of 93 / 2 against 123 / 2 around the sample median of 5
+    expect(median.r2).toBeCloseTo(1 - 93 / 123, 6);
+  });
+
+  it('rejects quantiles outside (0, 1)', () => {
+    expect(() => fitQuantileRegression(features, target, 1)).toThrow('Quantile must be between 0 and 1');
+  });
+});
+
+describe('classificationStats', () => {
+  it('scores probabilities by log loss, Brier score and accuracy', () => {
+    const stats = classificationStats([0.9, 0.2], [1, 0]);
+
+    expect(stats.logLoss).toBeCloseTo(-(Math.log(0.9) + Math.log(0.8)) / 2, 12);
+    expect(stats.brier).toBeCloseTo(0.025, 12);
+    expect(stats.accuracy).toBe(1);
+    expect(classificationStats([], []).observations).toBe(0);
+  });
+});
+
+describe('fitLogisticRegression', () => {
+  it('recovers the coefficients behind fractional outcomes', () => {
+    const features = [-3, -2, -1, 0, 1, 2, 3].map((x) => [x]);
+    const target = features.map(([x]) => 1 / (1 + Math.exp(-(0.5 + 1.5 * x))));
+    const fit = fitLogisticRegression(features, target, 0);
+
+    expect(fit.coefficients[0]).toBeCloseTo(0.5, 6);
+    expect(fit.coefficients[1]).toBeCloseTo(1.5, 6);
+    expect(fit.iterations).toBeLessThan(50);
+  });
+
+  it('stays finite on perfectly separated classes', () => {
+    const features = [[-2], [-1], [1], [2]];
+    const fit = fitLogisticRegression(features, [0, 0, 1, 1]);
+
+    expect(Number.isFinite(fit.coefficients[1])).toBe(true);
+    expect(fit.coefficients[1]).toBeGreaterThan(0);
+    expect(fit.stats.accuracy).toBe(1);
+  });
+
+  it('needs more observations than coefficients', () => {
+    expect(() => fitLogisticRegression([[1], [2]], [0, 1])).toThrow('Need more than 2 observations');
+  });
+});
@@ -0,0 +1,271 @@
+// Small dense regression toolkit used by the model calibrations
+
+export interface RegressionFit {
+  /** Intercept followed by one coefficient per feature column */
+  coefficients: number[];
+  /** Standard error per coefficient (ordinary least squares only) */
+  standardErrors?: number[];
+  /** Coefficient of determination; pseudo-R² (Koenker-Machado) for quantile fits */
+  r2: number;
+  adjustedR2: number;
+  rmse: number;
+  mae: number;
+  observations: number;
+}
+
+/**
+ * Solves A x = b by Gaussian elimination with partial pivoting
+ * @param matrix Square matrix (not modified)
+ * @param vector Right-hand side
+ * @returns Solution vector
+ * @throws Error if the system is singular
+ */
+export function solveLinearSystem(matrix: number[][], vector: number[]): number[] {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) {
+      throw new Error('Regression design matrix is singular; features are constant or collinear');
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+}
+
+/** Prepends the intercept column */
+const withIntercept = (features: number[][]): number[][] => features.map((row) => [1, ...row]);
+
+const predictRow = (row: number[], coefficients: number[]): number =>
+  row.reduce((sum, value, i) => sum + value * coefficients[i], 0);
+
+/**
+ * Weighted normal equations (X'WX) b = X'Wy
+ */
+function weightedLeastSquares(design: number[][], target: number[], weights: number[]): { coefficients: number[]; xtwx: number[][] } {
+  const p = design[0].length;
+  const xtwx = Array.from({ length: p }, () => new Array<number>(p).fill(0));
+  const xtwy = new Array<number>(p).fill(0);
+
+  design.forEach((row, i) => {
+    const w = weights[i];
+    for (let j = 0; j < p; j++) {
+      xtwy[j] += w * row[j] * target[i];
+      for (let k = j; k < p; k++) xtwx[j][k] += w * row[j] * row[k];
+    }
+  });
+  for (let j = 0; j < p; j++) {
+    for (let k = 0; k < j; k++) xtwx[j][k] = xtwx[k][j];
+  }
+
+  return { coefficients: solveLinearSystem(xtwx, xtwy), xtwx };
+}
+
+function errorStats(design: number[][], target: number[], coefficients: number[]) {
+  const residuals = design.map((row, i) => target[i] - predictRow(row, coefficients));
+  const n = target.length;
+  return {
+    residuals,
+    rmse: Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / n),
+    mae: residuals.reduce((sum, r) => sum + Math.abs(r), 0) / n
+  };
+}
+
+const adjust = (r2: number, n: number, p: number): number => (n - p > 0 ? 1 - ((1 - r2) * (n - 1)) / (n - p) : r2);
+
+/**
+ * Ordinary least squares fit with an intercept
+ * @param features One row of feature values per observation
+ * @param target Observed values
+ * @returns Coefficients (intercept first), standard errors and fit statistics
+ * @throws Error if there are fewer observations than coefficients
+ */
+export function fitLinearRegression(features: number[][], target: number[]): RegressionFit {
+  const design = withIntercept(features);
+  const n = target.length;
+  const p = design[0]?.length ?? 1;
+  if (n <= p) {
+    throw new Error(`Need more than ${p} observations to fit ${p} coefficients, got ${n}`);
+  }
+
+  const { coefficients, xtwx } = weightedLeastSquares(design, target, new Array<number>(n).fill(1));
+  const { residuals, rmse, mae } = errorStats(design, target, coefficients);
+
+  const mean = target.reduce((sum, y) => sum + y, 0) / n;
+  const totalSS = target.reduce((sum, y) => sum + (y - mean) ** 2, 0);
+  const residualSS = residuals.reduce((sum, r) => sum + r * r, 0);
+  const r2 = totalSS > 0 ? 1 - residualSS / totalSS : 0;
+
+  // Var(b) = s² (X'X)^-1, solved one unit vector at a time
+  const s2 = residualSS / (n - p);
+  const standardErrors = coefficients.map((_, j) => {
+    const unit = coefficients.map((__, k) => (k === j ? 1 : 0));
+    return Math.sqrt(Math.max(0, s2 * solveLinearSystem(xtwx, unit)[j]));
+  });
+
+  return { coefficients, standardErrors, r2, adjustedR2: adjust(r2, n, p), rmse, mae, observations: n };
+}
+
+const checkLoss = (residuals: number[], quantile: number): number =>
+  residuals.reduce((sum, r) => sum + (r >= 0 ? quantile * r : (quantile - 1) * r), 0);
+
+/**
+ * Linear quantile regression by iteratively reweighted least squares
+ * @param features One row of feature values per observation
+ * @param target Observed values
+ * @param quantile Quantile to fit, between 0 and 1 (0.5 is median regression)
+ * @param iterations Maximum reweighting passes
+ * @returns Coefficients (intercept first) and fit statistics
+ */
+export function fitQuantileRegression(
+  features: number[][],
+  target: number[],
+  quantile: number,
+  iterations: number = 100
+): RegressionFit {
+  if (quantile <= 0 || quantile >= 1) {
+    throw new Error(`Quantile must be between 0 and 1, got ${quantile}`);
+  }
+
+  const design = withIntercept(features);
+  const n = target.length;
+  const p = design[0]?.length ?? 1;
+  if (n <= p) {
+    throw new Error(`Need more than ${p} observations to fit ${p} coefficients, got ${n}`);
+  }
+
+  // Start from the least-squares solution
+  let coefficients = weightedLeastSquares(design, target, new Array<number>(n).fill(1)).coefficients;
+  const epsilon = 1e-8;
+
+  for (let i = 0; i < iterations; i++) {
+    const weights = design.map((row, k) => {
+      const residual = target[k] - predictRow(row, coefficients);
+      return (residual >= 0 ? quantile : 1 - quantile) / Math.max(Math.abs(residual), epsilon);
+    });
+    const next = weightedLeastSquares(design, target, weights).coefficients;
+    const change = next.reduce((max, value, k) => Math.max(max, Math.abs(value - coefficients[k])), 0);
+    coefficients = next;
+    if (change < 1e-10) break;
+  }
+
+  const { residuals, rmse, mae } = errorStats(design, target, coefficients);
+
+  // Compare against the intercept-only model, which is the sample quantile
+  const sorted = [...target].sort((a, b) => a - b);
+  const sampleQuantile = sorted[Math.min(n - 1, Math.floor(quantile * n))];
+  const baseline = checkLoss(target.map((y) => y - sampleQuantile), quantile);
+  const r2 = baseline > 0 ? 1 - checkLoss(residuals, quantile) / baseline : 0;
+
+  return { coefficients, r2, adjustedR2: adjust(r2, n, p), rmse, mae, observations: n };
+}
+
+export interface ClassificationStats {
+  /** Mean cross-entropy of the predicted probabilities */
+  logLoss: number;
+  /** Mean squared error of the predicted probabilities */
+  brier: number;
+  /** Share of observations on the right side of 0.5 */
+  accuracy: number;
+  observations: number;
+}
+
+export interface LogisticFit {
+  /** Intercept followed by one coefficient per feature column */
+  coefficients: number[];
+  stats: ClassificationStats;
+  iterations: number;
+}
+
+const sigmoid = (z: number): number => 1 / (1 + Math.exp(-z));
+
+/**
+ * Scores predicted probabilities against observed outcomes; outcomes may be
+ * fractions (e.g. the share of an order that filled as maker)
+ */
+export function classificationStats(predicted: number[], observed: number[]): ClassificationStats {
+  const n = observed.length;
+  if (n === 0) return { logLoss: 0, brier: 0, accuracy: 0, observations: 0 };
+
+  const clamp = (p: number) => Math.min(1 - 1e-12, Math.max(1e-12, p));
+  let logLoss = 0;
+  let brier = 0;
+  let correct = 0;
+  for (let i = 0; i < n; i++) {
+    const p = clamp(predicted[i]);
+    const y = observed[i];
+    logLoss -= y * Math.log(p) + (1 - y) * Math.log(1 - p);
+    brier += (predicted[i] - y) ** 2;
+    if ((predicted[i] >= 0.5) === (y >= 0.5)) correct++;
+  }
+  return { logLoss: logLoss / n, brier: brier / n, accuracy: correct / n, observations: n };
+}
+
+/**
+ * Logistic regression with an intercept by Newton-Raphson (IRLS). A small ridge
+ * penalty on the slopes keeps the fit finite when a feature separates the
+ * classes perfectly or does not vary.
+ * @param features One row of feature values per observation
+ * @param target Outcomes between 0 and 1
+ * @param ridge L2 penalty on the slopes (not the intercept)
+ * @param iterations Maximum Newton steps
+ * @returns Coefficients (intercept first) and in-sample statistics
+ * @throws Error if there are fewer observations than coefficients
+ */
+export function fitLogisticRegression(
+  features: number[][],
+  target: number[],
+  ridge: number = 1e-3,
+  iterations: number = 50
+): LogisticFit {
+  const design = withIntercept(features);
+  const n = target.length;
+  const p = design[0]?.length ?? 1;
+  if (n <= p) {
+    throw new Error(`Need more than ${p} observations to fit ${p} coefficients, got ${n}`);
+  }
+
+  let coefficients = new Array<number>(p).fill(0);
+  let iteration = 0;
+  while (iteration < iterations) {
+    iteration++;
+    const hessian = Array.from({ length: p }, () => new Array<number>(p).fill(0));
+    const gradient = coefficients.map((value, j) => (j > 0 ? -ridge * n * value : 0));
+
+    design.forEach((row, i) => {
+      const probability = sigmoid(predictRow(row, coefficients));
+      const weight = Math.max(probability * (1 - probability), 1e-10);
+      for (let j = 0; j < p; j++) {
+        gradient[j] += (target[i] - probability) * row[j];
+        for (let k = j; k < p; k++) hessian[j][k] += weight * row[j] * row[k];
+      }
+    });
+    for (let j = 0; j < p; j++) {
+      if (j > 0) hessian[j][j] += ridge * n;
+      for (let k = 0; k < j; k++) hessian[j][k] = hessian[k][j];
+    }
+
+    const step = solveLinearSystem(hessian, gradient);
+    coefficients = coefficients.map((value, j) => value + step[j]);
+    if (step.reduce((max, value) => Math.max(max, Math.abs(value)), 0) < 1e-8) break;
+  }
+
+  const predicted = design.map((row) => sigmoid(predictRow(row, coefficients)));
+  return { coefficients, stats: classificationStats(predicted, target), iterations: iteration };
+}
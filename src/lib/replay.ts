@@ -0,0 +1,135 @@
+import { OrderBookData } from './types';
+import { RecordedBook } from './recorder';
+
+/** Playback speed multiplier; 'step' advances only on step() */
+export type ReplaySpeed = number | 'step';
+
+/**
+ * Plays a recording back through the same onMessage/onConnect/onError contract
+ * as OrderBookWebSocket. Inter-message gaps are taken from the recorded receive
+ * times and divided by the speed, so a replay at any speed delivers the same
+ * messages in the same order.
+ */
+export class OrderBookReplay {
+  private position = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private isConnected = false;
+  private speed: ReplaySpeed;
+  private onMessageCallback: (data: OrderBookData, record: RecordedBook) => void;
+  private onConnectCallback: () => void;
+  private onErrorCallback: (error: Event) => void;
+  private onEndCallback?: () => void;
+
+  constructor(
+    private readonly records: RecordedBook[],
+    onMessage: (data: OrderBookData, record: RecordedBook) => void,
+    onConnect: () => void,
+    onError: (error: Event) => void,
+    speed: ReplaySpeed = 1,
+    onEnd?: () => void
+  ) {
+    this.onMessageCallback = onMessage;
+    this.onConnectCallback = onConnect;
+    this.onErrorCallback = onError;
+    this.speed = speed;
+    this.onEndCallback = onEnd;
+  }
+
+  connect(): void {
+    if (this.records.length === 0) {
+      this.onErrorCallback(new ErrorEvent('error', { message: 'Recording contains no order books' }));
+      return;
+    }
+
+    this.isConnected = true;
+    this.onConnectCallback();
+    this.scheduleNext();
+  }
+
+  disconnect(): void {
+    this.clearTimer();
+    this.isConnected = false;
+  }
+
+  /**
+   * Changes the playback speed, taking effect from the next message
+   * @param speed Multiplier (e.g. 1, 5) or 'step'
+   */
+  setSpeed(speed: ReplaySpeed): void {
+    this.speed = speed;
+    if (this.isConnected) {
+      this.clearTimer();
+      this.scheduleNext();
+    }
+  }
+
+  getSpeed(): ReplaySpeed {
+    return this.speed;
+  }
+
+  /**
+   * Delivers exactly one message, regardless of speed
+   * @returns false if the recording is exhausted
+   */
+  step(): boolean {
+    if (!this.isConnected || this.position >= this.records.length) return false;
+    this.emit();
+    return true;
+  }
+
+  /**
+   * Rewinds to the first message without changing speed
+   */
+  restart(): void {
+    this.clearTimer();
+    this.position = 0;
+    if (this.isConnected) this.scheduleNext();
+  }
+
+  getProgress(): { position: number; total: number } {
+    return { position: this.position, total: this.records.length };
+  }
+
+  isConnectedStatus(): boolean {
+    return this.isConnected;
+  }
+
+  private emit(): void {
+    const record = this.records[this.position++];
+    try {
+      this.onMessageCallback(record.data, record);
+    } catch (error) {
+      this.onErrorCallback(new ErrorEvent('error', {
+        error,
+        message: `Failed to replay message: ${error instanceof Error ? error.message : 'Unknown error'}`
+      }));
+    }
+
+    if (this.position >= this.records.length) {
+      this.clearTimer();
+      this.onEndCallback?.();
+    }
+  }
+
+  private scheduleNext(): void {
+    if (this.speed === 'step' || this.position >= this.records.length) return;
+
+    const previous = this.records[this.position - 1];
+    const next = this.records[this.position];
+    const gap = previous ? Math.max(0, next.receivedAt - previous.receivedAt) : 0;
+    const speed = this.speed > 0 ? this.speed : 1;
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.emit();
+      this.scheduleNext();
+    }, gap / speed);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
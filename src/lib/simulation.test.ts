@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { runSimulation } from './simulation';
+import { LocalOrderBook } from './orderBook';
+import { SimulationParameters } from './types';
+
+const parameters: SimulationParameters = {
+  exchange: 'OKX',
+  asset: 'BTC-USDT-SWAP',
+  side: 'buy',
+  orderType: 'market',
+  quantity: 10000,
+  volatility: 2,
+  volatilityMode: 'manual',
+  volatilityEstimator: 'two-scale',
+  annualizationDays: 365,
+  feeTier: 'VIP 0',
+  timeInForce: 'GTC',
+  fillHorizon: 60,
+  impactModel: 'almgren-chriss',
+  holdingPeriodHours: 0,
+  leverage: 10,
+  marginMode: 'isolated',
+  accountEquity: 10000
+};
+
+const book = LocalOrderBook.fromOrderBookData({
+  timestamp: '2024-06-03T10:20:00.000Z',
+  exchange: 'OKX',
+  symbol: 'BTC-USDT-SWAP',
+  asks: [['67000.1', '2'], ['67000.5', '3'], ['67001', '5']],
+  bids: [['67000', '0.5'], ['66999.5', '3'], ['66999', '5']]
+});
+
+describe('runSimulation', () => {
+  it('charges market orders the full taker rate', () => {
+    for (const side of ['buy', 'sell'] as const) {
+      const results = runSimulation(book, { ...parameters, side });
+      expect(results.makerTakerProportion).toBe(0);
+      expect(results.feeQuote?.taker).toBeGreaterThan(0);
+      expect(results.expectedFees).toBeCloseTo(parameters.quantity * results.feeQuote!.taker, 10);
+    }
+  });
+});
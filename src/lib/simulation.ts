@@ -0,0 +1,206 @@
+import {
+  FundingProjection,
+  FundingRateData,
+  ImpactEstimate,
+  MarginEstimate,
+  MicrostructureSignals,
+  SimulationParameters,
+  SimulationResults
+} from './types';
+import { LocalOrderBook, bookSideFor } from './orderBook';
+import {
+  calculateSlippage,
+  getSlippageModel,
+  calculateFees,
+  calculateMakerTakerProportion,
+  getMakerTakerModel,
+  calculateNetCost
+} from './marketModels';
+import { walkTheBook } from './marketMetrics';
+import { estimateLimitOrder } from './limitOrders';
+import { impactModels } from './impactModels';
+import { impactParameterCache } from './impactCalibration';
+import { FeeMarket, resolveFeeRates } from './feeSchedules';
+import { getFeedAdapter } from './feedAdapters';
+import { productTypeOf } from './instruments';
+import { projectFunding } from './funding';
+import { estimateMargin, marginRulesFor } from './margin';
+
+/**
+ * Venue and product whose fee schedule applies to the order
+ */
+const feeMarketFor = (parameters: SimulationParameters): FeeMarket => ({
+  exchange: getFeedAdapter(parameters.exchange).venue,
+  product: productTypeOf(parameters.asset),
+  payInToken: parameters.payFeesInToken
+});
+
+/**
+ * Funding over the holding period, for perpetuals only
+ */
+const fundingFor = (
+  parameters: SimulationParameters,
+  notional: number,
+  funding?: FundingRateData
+): FundingProjection | undefined =>
+  productTypeOf(parameters.asset) === 'perp'
+    ? projectFunding(notional, parameters.side, parameters.holdingPeriodHours, funding, parameters.fundingRate)
+    : undefined;
+
+/**
+ * Margin and liquidation estimate at the simulated fill, for derivatives only
+ */
+const marginFor = (
+  book: LocalOrderBook,
+  parameters: SimulationParameters,
+  notional: number,
+  entryPrice: number,
+  fees: number,
+  slippage: number
+): MarginEstimate | undefined =>
+  productTypeOf(parameters.asset) !== 'spot'
+    ? estimateMargin(parameters, marginRulesFor(getFeedAdapter(parameters.exchange).venue), notional, entryPrice, book.midPrice(), fees, slippage)
+    : undefined;
+
+/**
+ * Evaluates every impact model for the same order
+ * @returns The impact under the selected model and the full comparison
+ */
+function estimateImpact(
+  book: LocalOrderBook,
+  parameters: SimulationParameters,
+  quantity: number
+): { marketImpact: number; impactByModel: ImpactEstimate[] } {
+  const context = {
+    book,
+    exchange: parameters.exchange,
+    quantity,
+    side: parameters.side,
+    volatility: parameters.volatility,
+    averageDailyVolume: parameters.averageDailyVolume
+  };
+  const impactByModel = impactModels.map((model) => ({
+    model: model.id,
+    label: model.label,
+    impact: quantity > 0 ? model.estimate(context) : 0
+  }));
+  const selected = impactByModel.find((estimate) => estimate.model === parameters.impactModel) ?? impactByModel[0];
+  return { marketImpact: selected.impact, impactByModel };
+}
+
+/**
+ * Runs every cost model for one order against the current book
+ * @param book Live or replayed order book (must be ready)
+ * @param parameters Simulation inputs
+ * @param funding Latest funding state for the instrument, if the feed publishes it
+ * @param signals Microstructure signals for the book, used as model features
+ * @returns Cost estimate including the time spent computing it
+ */
+export function runSimulation(
+  book: LocalOrderBook,
+  parameters: SimulationParameters,
+  funding?: FundingRateData,
+  signals?: MicrostructureSignals
+): SimulationResults {
+  const startTime = performance.now();
+  const { quantity, feeTier, volatility, side } = parameters;
+  const referencePrice = book.levelAt(bookSideFor(side), 0)?.price ?? 0;
+  for (const model of impactModels) {
+    model.observe?.(book, parameters.exchange);
+  }
+
+  if (parameters.orderType === 'limit') {
+    return runLimitSimulation(book, parameters, referencePrice, startTime, funding, signals);
+  }
+
+  const slippage = calculateSlippage(book, quantity, side, volatility, signals);
+  // Market orders always take liquidity, so they pay the taker rate on the whole notional
+  const makerTakerProportion = 0;
+  const feeMarket = feeMarketFor(parameters);
+  const fees = calculateFees(feeTier, quantity, referencePrice, makerTakerProportion, feeMarket);
+  const { marketImpact, impactByModel } = estimateImpact(book, parameters, quantity);
+  const fundingProjection = fundingFor(parameters, quantity, funding);
+  const expectedFunding = fundingProjection?.total ?? 0;
+  const netCost = calculateNetCost(slippage, fees, marketImpact, quantity, referencePrice) + expectedFunding;
+  const execution = walkTheBook(book, quantity, side);
+  const margin = marginFor(book, parameters, execution.filledQuantity, execution.averagePrice, fees, slippage);
+
+  return {
+    side,
+    expectedSlippage: slippage,
+    expectedFees: fees,
+    expectedMarketImpact: marketImpact,
+    expectedFunding,
+    netCost,
+    makerTakerProportion,
+    internalLatency: performance.now() - startTime,
+    execution,
+    slippageModel: getSlippageModel()?.version,
+    makerTakerModel: getMakerTakerModel()?.version,
+    feeQuote: resolveFeeRates(feeMarket, feeTier),
+    funding: fundingProjection,
+    margin,
+    impactByModel,
+    impactParameters: impactParameterCache.get(parameters.exchange, book.symbol)
+  };
+}
+
+/**
+ * Limit orders only pay slippage and impact on the marketable part; the resting
+ * part pays maker fees on whatever is expected to fill plus adverse selection.
+ * A trained maker/taker classifier replaces the marketable/resting fee split
+ */
+function runLimitSimulation(
+  book: LocalOrderBook,
+  parameters: SimulationParameters,
+  referencePrice: number,
+  startTime: number,
+  funding?: FundingRateData,
+  signals?: MicrostructureSignals
+): SimulationResults {
+  const { feeTier, volatility, side } = parameters;
+  const limitOrder = estimateLimitOrder(book, parameters);
+  const marketable = limitOrder.marketableQuantity;
+  const restingFilled = limitOrder.restingQuantity * limitOrder.restingFillProbability;
+  const filled = marketable + restingFilled;
+
+  const slippage = marketable > 0 ? calculateSlippage(book, marketable, side, volatility, signals) : 0;
+  const { marketImpact, impactByModel } = estimateImpact(book, parameters, marketable);
+  const makerTakerProportion = getMakerTakerModel()
+    ? calculateMakerTakerProportion(book, parameters.quantity, side, parameters, signals)
+    : filled > 0 ? restingFilled / filled : 0;
+  const feeMarket = feeMarketFor(parameters);
+  const fees = calculateFees(feeTier, filled, referencePrice, makerTakerProportion, feeMarket);
+  // Only the part expected to fill is held and pays funding
+  const fundingProjection = fundingFor(parameters, filled, funding);
+  const expectedFunding = fundingProjection?.total ?? 0;
+  const netCost =
+    calculateNetCost(slippage, fees, marketImpact, marketable, referencePrice) + limitOrder.adverseSelectionCost + expectedFunding;
+  const execution = walkTheBook(book, marketable, side);
+  // Marketable part fills at the walked price, the resting part at the limit
+  const entrySize =
+    (execution.averagePrice > 0 ? execution.filledQuantity / execution.averagePrice : 0) +
+    (limitOrder.limitPrice > 0 ? restingFilled / limitOrder.limitPrice : 0);
+  const entryNotional = execution.filledQuantity + restingFilled;
+  const margin = marginFor(book, parameters, entryNotional, entrySize > 0 ? entryNotional / entrySize : 0, fees, slippage);
+
+  return {
+    side,
+    expectedSlippage: slippage,
+    expectedFees: fees,
+    expectedMarketImpact: marketImpact,
+    expectedFunding,
+    netCost,
+    makerTakerProportion,
+    internalLatency: performance.now() - startTime,
+    limitOrder,
+    execution,
+    slippageModel: getSlippageModel()?.version,
+    makerTakerModel: getMakerTakerModel()?.version,
+    feeQuote: resolveFeeRates(feeMarket, feeTier),
+    funding: fundingProjection,
+    margin,
+    impactByModel,
+    impactParameters: impactParameterCache.get(parameters.exchange, book.symbol)
+  };
+}
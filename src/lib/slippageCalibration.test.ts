@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BookSample,
+  buildSlippageDataset,
+  calibrateSlippageModel,
+  parseSlippageModel,
+  predictSlippage,
+  slippageFeatures
+} from './slippageCalibration';
+import { OrderBookData } from './types';
+
+// Touch sizes and depth change from book to book so that the size features vary
+const bookAt = (i: number): OrderBookData => ({
+  timestamp: new Date(i * 1000).toISOString(),
+  exchange: 'okx',
+  symbol: 'BTC-USDT-SWAP',
+  asks: [['101', String(1 + (i % 3))], ['102', String(2 + (i % 5))], ['103', '50']],
+  bids: [['99', String(1 + (i % 4))], ['98', String(2 + (i % 2))], ['97', '50']]
+});
+
+const records: BookSample[] = Array.from({ length: 40 }, (_, i) => ({ source: 'okx', receivedAt: i * 1000, data: bookAt(i) }));
+
+describe('slippageFeatures', () => {
+  it('signs the imbalance so that a thin executed side is positive', () => {
+    const buy = slippageFeatures(bookAt(0), 101, 'buy', 2)!;
+    const sell = slippageFeatures(bookAt(0), 101, 'sell', 2)!;
+
+    expect(buy.spreadBps).toBeCloseTo(200, 9);
+    expect(buy.sizeToDepth).toBeCloseTo(1 / 53, 12);
+    expect(sell.imbalance).toBeCloseTo(-buy.imbalance, 12);
+    expect(buy.volatility).toBe(2);
+  });
+});
+
+describe('buildSlippageDataset', () => {
+  it('skips orders the book cannot fill and samples every Nth book', () => {
+    const dataset = buildSlippageDataset(records, { quantities: [100, 1e7], sides: ['buy'], stride: 2 });
+
+    // The first book has no volatility yet
+    expect(dataset.books).toBe(20);
+    expect(dataset.target).toHaveLength(20);
+    expect(dataset.from).toBe(1000);
+  });
+});
+
+describe('calibrateSlippageModel', () => {
+  it('pins features that never vary to zero', () => {
+    const model = calibrateSlippageModel(records, { quantities: [100, 300, 1000] });
+
+    expect(model.excludedFeatures).toContain('spreadBps');
+    expect(model.coefficients.spreadBps).toBe(0);
+    expect(model.stats.observations).toBe(39 * 3 * 2);
+    expect(model.version).toMatch(/^slippage-linear-\d{8}T\d{6}Z$/);
+    expect(parseSlippageModel(JSON.parse(JSON.stringify(model)))).toEqual(model);
+  });
+});
+
+describe('predictSlippage', () => {
+  it('floors predictions at zero', () => {
+    const model = calibrateSlippageModel(records, { quantities: [100, 300, 1000] });
+    const features = slippageFeatures(bookAt(0), 100, 'buy', 0)!;
+
+    expect(predictSlippage({ ...model, intercept: -1000 }, features)).toBe(0);
+  });
+});
+
+describe('parseSlippageModel', () => {
+  const model = calibrateSlippageModel(records, { quantities: [100, 300, 1000] });
+
+  it('gives microstructure features missing from older models no weight', () => {
+    const { micropriceBps: _dropped, ...coefficients } = model.coefficients;
+    const parsed = parseSlippageModel({ ...model, coefficients });
+
+    expect(parsed.coefficients.micropriceBps).toBe(0);
+  });
+
+  it('rejects other schemas and missing coefficients', () => {
+    expect(() => parseSlippageModel({ ...model, schema: 2 })).toThrow('Unsupported slippage model schema');
+    const { sizeToDepth: _dropped, ...coefficients } = model.coefficients;
+    expect(() => parseSlippageModel({ ...model, coefficients })).toThrow('missing the sizeToDepth coefficient');
+  });
+});
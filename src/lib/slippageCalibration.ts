@@ -0,0 +1,266 @@
+import { MicrostructureSignals, OrderBookData, OrderSide } from './types';
+import { LocalOrderBook, OrderBookSource, bookSideFor, toLocalOrderBook } from './orderBook';
+import { TouchSnapshot, calculateMarketMetrics, touchOf, walkTheBook } from './marketMetrics';
+import { microstructureFeatureNames, microstructureFeatures, microstructureSignals } from './microstructure';
+import { RegressionFit, fitLinearRegression, fitQuantileRegression } from './regression';
+import { realizedVolatility } from './statistics';
+
+export const SLIPPAGE_MODEL_SCHEMA = 1;
+
+// Order matters: coefficients are stored in this order after the intercept
+export const slippageFeatureNames = ['sizeToDepth', 'spreadBps', 'imbalance', 'volatility', ...microstructureFeatureNames] as const;
+
+export type SlippageFeatureName = typeof slippageFeatureNames[number];
+export type SlippageFeatures = Record<SlippageFeatureName, number>;
+
+export interface SlippageModel {
+  schema: typeof SLIPPAGE_MODEL_SCHEMA;
+  /** Unique identifier of this fit, e.g. slippage-quantile-q90-20261019T101500Z */
+  version: string;
+  kind: 'linear' | 'quantile';
+  /** Fitted quantile for quantile models */
+  quantile?: number;
+  /** ISO timestamp of the fit */
+  fittedAt: string;
+  intercept: number;
+  coefficients: SlippageFeatures;
+  standardErrors?: { intercept: number } & SlippageFeatures;
+  stats: Omit<RegressionFit, 'coefficients' | 'standardErrors'>;
+  /** Features left out because they did not vary in the training data */
+  excludedFeatures: SlippageFeatureName[];
+  /** What the model was trained on */
+  training: {
+    symbols: string[];
+    quantities: number[];
+    books: number;
+    from: number;
+    to: number;
+  };
+}
+
+/** Minimal shape of a recorded book; RecordedBook satisfies it */
+export interface BookSample {
+  source: string;
+  receivedAt: number;
+  data: OrderBookData;
+}
+
+export interface CalibrationOptions {
+  kind?: 'linear' | 'quantile';
+  /** Quantile to fit when kind is 'quantile' */
+  quantile?: number;
+  /** Order sizes in quote currency to simulate against every sampled book */
+  quantities?: number[];
+  sides?: OrderSide[];
+  /** Use every Nth book per symbol */
+  stride?: number;
+  /** Mid-price samples in the realized volatility window */
+  volatilityWindow?: number;
+}
+
+export interface SlippageDataset {
+  features: SlippageFeatures[];
+  /** Realized walk-the-book slippage, in percent */
+  target: number[];
+  symbols: string[];
+  books: number;
+  from: number;
+  to: number;
+}
+
+const SECONDS_PER_DAY = 86400;
+const defaultQuantities = [100, 1000, 10000, 50000, 100000];
+
+/**
+ * Extracts the regression features for one order against the current book
+ * @param orderBook Current order book state
+ * @param quantity Order quantity in quote currency
+ * @param side Order side; buys walk the asks, sells walk the bids
+ * @param volatility Recent volatility as a daily percentage
+ * @param signals Microstructure signals for the book; computed without OFI when unset
+ * @returns Feature values, or null if the executed side is empty
+ */
+export function slippageFeatures(
+  orderBook: OrderBookSource,
+  quantity: number,
+  side: OrderSide,
+  volatility: number,
+  signals?: MicrostructureSignals
+): SlippageFeatures | null {
+  const book = toLocalOrderBook(orderBook);
+  const bookSide = bookSideFor(side);
+  const touch = book.levelAt(bookSide, 0);
+  const mid = book.midPrice();
+  if (!touch || !mid) return null;
+
+  const metrics = calculateMarketMetrics(book);
+  const imbalance = metrics.imbalance.toNumber();
+
+  return {
+    sizeToDepth: quantity / touch.price / (book.cumulativeSize(bookSide, 10) || 1),
+    spreadBps: (book.spread() / mid) * 10000,
+    // Signed so that a thin executed side is positive for both buys and sells
+    imbalance: side === 'buy' ? imbalance : -imbalance,
+    volatility,
+    ...microstructureFeatures(book, side, signals ?? microstructureSignals(book))
+  };
+}
+
+/**
+ * Evaluates a fitted model
+ * @returns Predicted slippage in percent, floored at zero
+ */
+export function predictSlippage(model: SlippageModel, features: SlippageFeatures): number {
+  const value = slippageFeatureNames.reduce(
+    (sum, name) => sum + model.coefficients[name] * features[name],
+    model.intercept
+  );
+  return Math.max(0, value);
+}
+
+/**
+ * Rebuilds each recorded stream and turns it into regression observations: the
+ * target is the slippage a walk of the book would have realized at that moment
+ * @param records Recorded books in receive order
+ * @param options Sizes, sides, sampling stride and volatility window
+ * @returns Feature rows and targets; books the order would exhaust are skipped
+ */
+export function buildSlippageDataset(records: BookSample[], options: CalibrationOptions = {}): SlippageDataset {
+  const quantities = options.quantities ?? defaultQuantities;
+  const sides = options.sides ?? ['buy', 'sell'];
+  const stride = Math.max(1, options.stride ?? 1);
+  const window = Math.max(2, options.volatilityWindow ?? 20);
+
+  const streams = new Map<string, {
+    book: LocalOrderBook;
+    mids: { time: number; price: number }[];
+    touch: TouchSnapshot | null;
+    count: number;
+  }>();
+  const dataset: SlippageDataset = { features: [], target: [], symbols: [], books: 0, from: Infinity, to: -Infinity };
+
+  for (const record of records) {
+    const key = `${record.source}:${record.data.symbol}`;
+    let stream = streams.get(key);
+    if (!stream) {
+      stream = { book: new LocalOrderBook(), mids: [], touch: null, count: 0 };
+      streams.set(key, stream);
+    }
+    if (!stream.book.apply(record.data) || !stream.book.isReady()) continue;
+
+    // OFI compares consecutive books, so signals are taken on every book, sampled or not
+    const signals = microstructureSignals(stream.book, stream.touch);
+    stream.touch = touchOf(stream.book);
+
+    stream.mids.push({ time: record.receivedAt, price: stream.book.midPrice() });
+    if (stream.mids.length > window) stream.mids.shift();
+    if (stream.mids.length < 2 || stream.count++ % stride !== 0) continue;
+
+    const volatility = realizedVolatility(stream.mids, SECONDS_PER_DAY);
+    dataset.books++;
+    dataset.from = Math.min(dataset.from, record.receivedAt);
+    dataset.to = Math.max(dataset.to, record.receivedAt);
+    if (!dataset.symbols.includes(record.data.symbol)) dataset.symbols.push(record.data.symbol);
+
+    for (const side of sides) {
+      for (const quantity of quantities) {
+        const execution = walkTheBook(stream.book, quantity, side);
+        if (execution.unfilledQuantity > 0) continue;
+
+        const features = slippageFeatures(stream.book, quantity, side, volatility, signals);
+        if (!features) continue;
+        dataset.features.push(features);
+        dataset.target.push(execution.slippage);
+      }
+    }
+  }
+
+  return dataset;
+}
+
+const compactTimestamp = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+
+/**
+ * Fits a slippage model on recorded order book history
+ * @param records Recorded books in receive order
+ * @param options Model kind, quantile and dataset options
+ * @returns Versioned model with goodness-of-fit statistics
+ * @throws Error if the recording yields too few observations
+ */
+export function calibrateSlippageModel(records: BookSample[], options: CalibrationOptions = {}): SlippageModel {
+  const kind = options.kind ?? 'linear';
+  const quantile = options.quantile ?? 0.9;
+  const dataset = buildSlippageDataset(records, options);
+
+  // A feature that never varies (e.g. a fixed spread on a synthetic feed) is
+  // collinear with the intercept; leave it out and pin its coefficient to zero
+  const fitted = slippageFeatureNames.filter((name) => {
+    const values = dataset.features.map((features) => features[name]);
+    const min = values.reduce((a, b) => Math.min(a, b), Infinity);
+    const max = values.reduce((a, b) => Math.max(a, b), -Infinity);
+    return max - min > 1e-12;
+  });
+  const excludedFeatures = slippageFeatureNames.filter((name) => !fitted.includes(name));
+  const rows = dataset.features.map((features) => fitted.map((name) => features[name]));
+
+  const fit = kind === 'quantile'
+    ? fitQuantileRegression(rows, dataset.target, quantile)
+    : fitLinearRegression(rows, dataset.target);
+
+  const [intercept, ...slopes] = fit.coefficients;
+  const byFeature = (values: number[]) =>
+    Object.fromEntries(
+      slippageFeatureNames.map((name) => [name, fitted.includes(name) ? values[fitted.indexOf(name)] : 0])
+    ) as SlippageFeatures;
+
+  const fittedAt = new Date();
+  const { standardErrors, r2, adjustedR2, rmse, mae, observations } = fit;
+
+  return {
+    schema: SLIPPAGE_MODEL_SCHEMA,
+    version: `slippage-${kind}${kind === 'quantile' ? `-q${Math.round(quantile * 100)}` : ''}-${compactTimestamp(fittedAt)}`,
+    kind,
+    quantile: kind === 'quantile' ? quantile : undefined,
+    fittedAt: fittedAt.toISOString(),
+    intercept,
+    coefficients: byFeature(slopes),
+    standardErrors: standardErrors
+      ? { intercept: standardErrors[0], ...byFeature(standardErrors.slice(1)) }
+      : undefined,
+    stats: { r2, adjustedR2, rmse, mae, observations },
+    excludedFeatures,
+    training: {
+      symbols: dataset.symbols,
+      quantities: options.quantities ?? defaultQuantities,
+      books: dataset.books,
+      from: dataset.from,
+      to: dataset.to
+    }
+  };
+}
+
+/**
+ * Validates a model read from JSON
+ * @param value Parsed JSON
+ * @returns The model
+ * @throws Error if the schema or fields do not match
+ */
+export function parseSlippageModel(value: unknown): SlippageModel {
+  const model = value as SlippageModel;
+  if (!model || model.schema !== SLIPPAGE_MODEL_SCHEMA) {
+    throw new Error(`Unsupported slippage model schema, expected ${SLIPPAGE_MODEL_SCHEMA}`);
+  }
+  if (typeof model.version !== 'string' || typeof model.intercept !== 'number') {
+    throw new Error('Slippage model is missing its version or intercept');
+  }
+  for (const name of slippageFeatureNames) {
+    // Models fitted before the microstructure features give them no weight
+    if (model.coefficients && model.coefficients[name] === undefined && (microstructureFeatureNames as readonly string[]).includes(name)) {
+      model.coefficients[name] = 0;
+    }
+    if (typeof model.coefficients?.[name] !== 'number') {
+      throw new Error(`Slippage model is missing the ${name} coefficient`);
+    }
+  }
+  return model;
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { binanceAdapter, okxAdapter } from './feedAdapters';
+import { RouterVenue, consolidateBooks, routeOrder } from './smartRouter';
+
+// BTC-USDT-SWAP on OKX is 0.01 BTC per contract, so 100 contracts is 1 BTC
+const okxBook = okxAdapter.parseMessage(JSON.stringify({
+  arg: { channel: 'books', instId: 'BTC-USDT-SWAP' },
+  action: 'snapshot',
+  data: [{ asks: [['67000', '100', '0', '3'], ['67010', '100', '0', '2']], bids: [['66990', '100', '0', '4']], ts: '1717410000000' }]
+}))!;
+
+const binanceBook = binanceAdapter.parseMessage(JSON.stringify({
+  e: 'depthUpdate',
+  E: 1717410000000,
+  s: 'BTCUSDT',
+  a: [['67000.00', '1.000'], ['67020.00', '1.000']],
+  b: [['66990.00', '1.000']]
+}))!;
+
+const venues: RouterVenue[] = [
+  { exchange: 'OKX-V5', label: 'OKX (native v5)', book: okxBook, takerFee: 0.0005 },
+  { exchange: 'Binance', label: 'Binance', book: binanceBook, takerFee: 0.0005 }
+];
+
+describe('consolidateBooks', () => {
+  it('merges venues in base units, best fee-inclusive price first', () => {
+    expect(consolidateBooks(venues, 'buy').map(({ exchange, price, size }) => ({ exchange, price, size }))).toEqual([
+      { exchange: 'OKX-V5', price: 67000, size: 1 },
+      { exchange: 'Binance', price: 67000, size: 1 },
+      { exchange: 'OKX-V5', price: 67010, size: 1 },
+      { exchange: 'Binance', price: 67020, size: 1 }
+    ]);
+  });
+});
+
+describe('routeOrder', () => {
+  it('splits equal-priced liquidity across an OKX contract book and a Binance base book', () => {
+    const result = routeOrder(venues, 134000, 'buy', 'OKX-V5');
+
+    expect(result.filledQuantity).toBeCloseTo(134000, 6);
+    expect(result.filledSize).toBeCloseTo(2, 9);
+    const sizes = Object.fromEntries(result.allocations.map((allocation) => [allocation.exchange, allocation.size]));
+    expect(sizes['OKX-V5']).toBeCloseTo(1, 9);
+    expect(sizes['Binance']).toBeCloseTo(1, 9);
+    for (const allocation of result.allocations) {
+      expect(allocation.averagePrice).toBeCloseTo(67000, 6);
+      expect(allocation.fees).toBeCloseTo(67000 * 0.0005, 6);
+    }
+  });
+
+  it('measures savings against the default venue walking its own book', () => {
+    const result = routeOrder(venues, 134000, 'buy', 'OKX-V5');
+
+    // Alone, OKX fills the second BTC at 67010 instead of 67000
+    expect(result.baseline.size).toBeCloseTo(1 + 67000 / 67010, 9);
+    expect(result.baseline.levelsConsumed).toBe(2);
+    expect(result.savings).toBeGreaterThan(0);
+    expect(result.savingsBps).toBeCloseTo(((result.baseline.allInPrice - result.allInPrice) / result.baseline.allInPrice) * 10000, 9);
+  });
+
+  it('takes the best bids first on sells and reports what the book cannot absorb', () => {
+    const result = routeOrder(venues, 200000, 'sell', 'Binance');
+
+    expect(result.filledSize).toBeCloseTo(2, 9);
+    expect(result.filledQuantity).toBeCloseTo(2 * 66990, 6);
+    expect(result.baseline.unfilledQuantity).toBeCloseTo(200000 - 66990, 6);
+  });
+});
@@ -0,0 +1,186 @@
+import { OrderSide } from './types';
+import { OrderBookSource, bookSideFor, toLocalOrderBook } from './orderBook';
+import { feedAdapters, getFeedAdapter } from './feedAdapters';
+
+export interface RouterVenue {
+  /** Feed adapter id */
+  exchange: string;
+  label: string;
+  book: OrderBookSource;
+  /** Taker fee as a fraction of notional; negative is a rebate */
+  takerFee: number;
+}
+
+export interface ConsolidatedLevel {
+  exchange: string;
+  price: number;
+  /** Price including the venue's taker fee */
+  effectivePrice: number;
+  /** Base size */
+  size: number;
+}
+
+export interface VenueAllocation {
+  exchange: string;
+  label: string;
+  /** Quote notional routed to the venue, before fees */
+  quantity: number;
+  /** Base size filled */
+  size: number;
+  averagePrice: number;
+  fees: number;
+  levelsConsumed: number;
+}
+
+export interface RoutingResult {
+  side: OrderSide;
+  requestedQuantity: number;
+  /** Notional the consolidated book could absorb */
+  filledQuantity: number;
+  filledSize: number;
+  /** Spent on buys or received on sells, fees included */
+  allInCost: number;
+  /** allInCost per unit of base */
+  allInPrice: number;
+  allocations: VenueAllocation[];
+  /** Same order executed entirely on the default venue */
+  baseline: VenueAllocation & { unfilledQuantity: number; allInPrice: number };
+  /** Improvement over the default venue on the routed size, in quote currency */
+  savings: number;
+  savingsBps: number;
+}
+
+/**
+ * One feed per venue for routing: the selected feed for its own venue and the
+ * first listed feed for every other venue (the local mock server only when it
+ * is the selected feed)
+ * @param selected Selected feed adapter id
+ * @returns Feed adapter ids, selected first
+ */
+export function routingExchanges(selected: string): string[] {
+  const selectedAdapter = getFeedAdapter(selected);
+  const exchanges = [selectedAdapter.id];
+  const venues = new Set([selectedAdapter.venue]);
+  for (const adapter of feedAdapters) {
+    if (venues.has(adapter.venue) || adapter.id === 'Mock') continue;
+    venues.add(adapter.venue);
+    exchanges.push(adapter.id);
+  }
+  return exchanges;
+}
+
+/**
+ * Merges one side of several venues' books into a single ladder ordered by
+ * fee-inclusive price, best first
+ * @param venues Books and taker fees per venue
+ * @param side Order side; buys take the asks, sells the bids
+ */
+export function consolidateBooks(venues: RouterVenue[], side: OrderSide): ConsolidatedLevel[] {
+  const bookSide = bookSideFor(side);
+  const levels: ConsolidatedLevel[] = [];
+  for (const venue of venues) {
+    const book = toLocalOrderBook(venue.book);
+    // Buyers pay the fee on top of the price, sellers receive the price net of it
+    const feeFactor = side === 'buy' ? 1 + venue.takerFee : 1 - venue.takerFee;
+    for (const level of book.getLevels(bookSide)) {
+      levels.push({ exchange: venue.exchange, price: level.price, effectivePrice: level.price * feeFactor, size: level.size });
+    }
+  }
+  return levels.sort((a, b) => (side === 'buy' ? a.effectivePrice - b.effectivePrice : b.effectivePrice - a.effectivePrice));
+}
+
+/**
+ * Fills a quote quantity from a fee-adjusted ladder, best effective price first
+ * @returns Per-venue fills and the notional left over when the ladder runs out
+ */
+function fillLadder(
+  levels: ConsolidatedLevel[],
+  venues: RouterVenue[],
+  quantity: number
+): { allocations: VenueAllocation[]; unfilled: number } {
+  const allocations = new Map<string, VenueAllocation>(
+    venues.map((venue) => [venue.exchange, {
+      exchange: venue.exchange,
+      label: venue.label,
+      quantity: 0,
+      size: 0,
+      averagePrice: 0,
+      fees: 0,
+      levelsConsumed: 0
+    }])
+  );
+  const fees = new Map(venues.map((venue) => [venue.exchange, venue.takerFee]));
+
+  let remaining = Math.max(quantity, 0);
+  for (const level of levels) {
+    if (remaining <= 0) break;
+    const notional = Math.min(remaining, level.price * level.size);
+    const allocation = allocations.get(level.exchange);
+    if (!allocation || notional <= 0) continue;
+
+    allocation.quantity += notional;
+    allocation.size += notional / level.price;
+    allocation.fees += notional * (fees.get(level.exchange) ?? 0);
+    allocation.levelsConsumed++;
+    remaining -= notional;
+  }
+
+  for (const allocation of allocations.values()) {
+    allocation.averagePrice = allocation.size > 0 ? allocation.quantity / allocation.size : 0;
+  }
+  return { allocations: [...allocations.values()], unfilled: remaining };
+}
+
+const allInOf = (side: OrderSide, allocations: VenueAllocation[]) =>
+  allocations.reduce((sum, allocation) => sum + allocation.quantity + (side === 'buy' ? allocation.fees : -allocation.fees), 0);
+
+/**
+ * Splits an order across venues at the lowest fee-inclusive cost by walking the
+ * consolidated book, and compares it with executing on the default venue alone.
+ * Books are taken as shown; hidden liquidity and latency between venues are ignored.
+ * @param venues Books and taker fees per venue for the same instrument
+ * @param quantity Order quantity in quote currency, before fees
+ * @param side Order side
+ * @param defaultExchange Feed adapter id of the venue to compare against
+ * @returns Allocation per venue, totals and savings versus the default venue
+ */
+export function routeOrder(venues: RouterVenue[], quantity: number, side: OrderSide, defaultExchange: string): RoutingResult {
+  const routed = fillLadder(consolidateBooks(venues, side), venues, quantity);
+  const filledQuantity = quantity - routed.unfilled;
+  const filledSize = routed.allocations.reduce((sum, allocation) => sum + allocation.size, 0);
+  const allInCost = allInOf(side, routed.allocations);
+  const allInPrice = filledSize > 0 ? allInCost / filledSize : 0;
+
+  const defaultVenue = venues.find((venue) => venue.exchange === defaultExchange);
+  const single = defaultVenue
+    ? fillLadder(consolidateBooks([defaultVenue], side), [defaultVenue], quantity)
+    : { allocations: [], unfilled: quantity };
+  const baselineAllocation = single.allocations[0] ?? {
+    exchange: defaultExchange,
+    label: getFeedAdapter(defaultExchange).label,
+    quantity: 0,
+    size: 0,
+    averagePrice: 0,
+    fees: 0,
+    levelsConsumed: 0
+  };
+  const baselineAllIn = allInOf(side, [baselineAllocation]);
+  const baselineAllInPrice = baselineAllocation.size > 0 ? baselineAllIn / baselineAllocation.size : 0;
+
+  // Compare all-in prices on the routed size so partial fills stay comparable
+  const direction = side === 'buy' ? 1 : -1;
+  const savings = baselineAllInPrice > 0 ? direction * (baselineAllInPrice - allInPrice) * filledSize : 0;
+
+  return {
+    side,
+    requestedQuantity: quantity,
+    filledQuantity,
+    filledSize,
+    allInCost,
+    allInPrice,
+    allocations: routed.allocations,
+    baseline: { ...baselineAllocation, unfilledQuantity: single.unfilled, allInPrice: baselineAllInPrice },
+    savings,
+    savingsBps: baselineAllInPrice > 0 ? ((direction * (baselineAllInPrice - allInPrice)) / baselineAllInPrice) * 10000 : 0
+  };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { describe as describeSample, histogram, normalCdf, realizedVolatility } from './statistics';
+
+describe('describe', () => {
+  it('computes moments, median and range', () => {
+    const stats = describeSample([4, 1, 10, 3, 2]);
+
+    expect(stats.mean).toBe(4);
+    expect(stats.median).toBe(3);
+    expect(stats.stdDev).toBeCloseTo(Math.sqrt(50 / 4), 12);
+    // Population moments: m2 = 10, m3 = 36, m4 = 278.8
+    expect(stats.skewness).toBeCloseTo(36 / 10 ** 1.5, 12);
+    expect(stats.kurtosis).toBeCloseTo(2.788 - 3, 12);
+    expect([stats.min, stats.max, stats.count]).toEqual([1, 10, 5]);
+  });
+
+  it('averages the middle pair and gives a constant sample no shape', () => {
+    expect(describeSample([5, 1, 3, 7]).median).toBe(4);
+    expect(describeSample([2, 2, 2])).toMatchObject({ stdDev: 0, skewness: 0, kurtosis: 0 });
+    expect(describeSample([])).toMatchObject({ mean: 0, count: 0 });
+  });
+});
+
+describe('histogram', () => {
+  it('counts values in equal-width bins with the maximum in the last bin', () => {
+    expect(histogram([0, 1, 2, 3, 4], 2)).toEqual([
+      { lower: 0, upper: 2, count: 2 },
+      { lower: 2, upper: 4, count: 3 }
+    ]);
+  });
+
+  it('collapses a constant sample into one bin', () => {
+    expect(histogram([3, 3], 10)).toEqual([{ lower: 3, upper: 3, count: 2 }]);
+    expect(histogram([], 10)).toEqual([]);
+  });
+});
+
+describe('normalCdf', () => {
+  it('matches tabulated values', () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 7);
+    expect(normalCdf(1.96)).toBeCloseTo(0.9750021, 6);
+    expect(normalCdf(-1)).toBeCloseTo(0.1586553, 6);
+  });
+});
+
+describe('realizedVolatility', () => {
+  it('scales the sum of squared log returns to the period', () => {
+    const samples = [
+      { time: 0, price: 100 },
+      { time: 30000, price: 100 * Math.exp(0.001) },
+      { time: 60000, price: 100 }
+    ];
+
+    expect(realizedVolatility(samples, 86400)).toBeCloseTo(Math.sqrt((2e-6 / 60) * 86400) * 100, 9);
+    expect(realizedVolatility(samples.slice(0, 1), 86400)).toBe(0);
+  });
+});
@@ -0,0 +1,92 @@
+import { HistogramBin, PriceStatistics } from './types';
+
+/**
+ * Standard normal cumulative distribution function
+ * (Abramowitz-Stegun 7.1.26, absolute error below 1.5e-7)
+ * @param x Standard score
+ * @returns P(Z <= x)
+ */
+export function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t *
+    Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Realized volatility of log returns between irregularly spaced samples
+ * @param samples Prices with epoch-millisecond times, oldest first
+ * @param periodSeconds Length of the period to scale to (86400 for daily)
+ * @returns Volatility over one period as a percentage, 0 with too little data
+ */
+export function realizedVolatility(samples: { time: number; price: number }[], periodSeconds: number): number {
+  if (samples.length < 2) return 0;
+
+  let sumSquares = 0;
+  for (let i = 1; i < samples.length; i++) {
+    sumSquares += Math.log(samples[i].price / samples[i - 1].price) ** 2;
+  }
+  const seconds = (samples[samples.length - 1].time - samples[0].time) / 1000;
+  return seconds > 0 ? Math.sqrt((sumSquares / seconds) * periodSeconds) * 100 : 0;
+}
+
+/**
+ * Summary statistics of a sample
+ * @param values Observations in any order
+ * @returns Moments, median and range; all zero for an empty sample
+ */
+export function describe(values: number[]): PriceStatistics {
+  const count = values.length;
+  if (count === 0) {
+    return { mean: 0, median: 0, stdDev: 0, skewness: 0, kurtosis: 0, min: 0, max: 0, count };
+  }
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / count;
+  let m2 = 0;
+  let m3 = 0;
+  let m4 = 0;
+  for (const value of values) {
+    const deviation = value - mean;
+    m2 += deviation ** 2;
+    m3 += deviation ** 3;
+    m4 += deviation ** 4;
+  }
+  m2 /= count;
+  m3 /= count;
+  m4 /= count;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(count / 2);
+  return {
+    mean,
+    median: count % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle],
+    stdDev: count > 1 ? Math.sqrt((m2 * count) / (count - 1)) : 0,
+    // Population moments; a constant sample has no shape
+    skewness: m2 > 0 ? m3 / m2 ** 1.5 : 0,
+    kurtosis: m2 > 0 ? m4 / m2 ** 2 - 3 : 0,
+    min: sorted[0],
+    max: sorted[count - 1],
+    count
+  };
+}
+
+/**
+ * Counts observations in equal-width bins spanning the sample range
+ * @param values Observations
+ * @param bins Number of bins
+ * @returns Bins from low to high; a single bin when every value is equal
+ */
+export function histogram(values: number[], bins: number): HistogramBin[] {
+  if (values.length === 0) return [];
+  const min = values.reduce((a, b) => Math.min(a, b), Infinity);
+  const max = values.reduce((a, b) => Math.max(a, b), -Infinity);
+  if (max === min) return [{ lower: min, upper: max, count: values.length }];
+
+  const width = (max - min) / bins;
+  const result = Array.from({ length: bins }, (_, i) => ({ lower: min + i * width, upper: min + (i + 1) * width, count: 0 }));
+  for (const value of values) {
+    // The maximum belongs to the last bin
+    result[Math.min(bins - 1, Math.floor((value - min) / width))].count++;
+  }
+  return result;
+}
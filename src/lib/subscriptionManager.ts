@@ -0,0 +1,89 @@
+import { FundingRateData, IntegrityEvent } from './types';
+import { LocalOrderBook } from './orderBook';
+import { MarketDataPool, marketDataPool } from './connectionPool';
+
+export interface SubscriptionTarget {
+  exchange: string;
+  symbol: string;
+}
+
+export interface SubscriptionCallbacks {
+  /** Called after every message that leaves the book in a usable state */
+  onBook: (book: LocalOrderBook, target: SubscriptionTarget) => void;
+  onConnect: () => void;
+  onError: (error: Event) => void;
+  onIntegrityEvent: (event: IntegrityEvent) => void;
+  /** Called when the target changes and again once its first book arrives */
+  onSwitching: (target: SubscriptionTarget | null) => void;
+}
+
+/**
+ * Owns the simulator's primary instrument subscription. Changing the exchange
+ * or asset moves the subscription within the shared connection pool, which
+ * re-targets or tears down the underlying socket as needed.
+ */
+export class SubscriptionManager {
+  private target: SubscriptionTarget | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private switching = false;
+
+  constructor(
+    private readonly callbacks: SubscriptionCallbacks,
+    private readonly pool: MarketDataPool = marketDataPool
+  ) {}
+
+  /**
+   * Subscribes to an instrument, replacing the current subscription
+   * @param exchange Feed adapter id (SimulationParameters.exchange)
+   * @param symbol Instrument in canonical form
+   */
+  subscribe(exchange: string, symbol: string): void {
+    if (this.target && this.target.exchange === exchange && this.target.symbol === symbol) {
+      return;
+    }
+
+    const isInitial = this.target === null;
+    const target = { exchange, symbol };
+    this.target = target;
+
+    if (!isInitial) {
+      this.switching = true;
+      this.callbacks.onSwitching(target);
+    }
+
+    // Subscribe before releasing the old instrument so a shared socket stays open
+    const previousUnsubscribe = this.unsubscribe;
+    this.unsubscribe = this.pool.subscribe(exchange, symbol, {
+      onBook: (book) => {
+        if (this.target !== target) return;
+        if (this.switching) {
+          this.switching = false;
+          this.callbacks.onSwitching(null);
+        }
+        this.callbacks.onBook(book, target);
+      },
+      onConnect: this.callbacks.onConnect,
+      onError: this.callbacks.onError,
+      onIntegrityEvent: this.callbacks.onIntegrityEvent
+    });
+    previousUnsubscribe?.();
+  }
+
+  getBook(): LocalOrderBook | undefined {
+    return this.target ? this.pool.getBook(this.target.exchange, this.target.symbol) : undefined;
+  }
+
+  getFunding(): FundingRateData | undefined {
+    return this.target ? this.pool.getFunding(this.target.exchange, this.target.symbol) : undefined;
+  }
+
+  getTarget(): SubscriptionTarget | null {
+    return this.target;
+  }
+
+  close(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.target = null;
+  }
+}
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { TcaHistoryPoint, TcaInput, analyzeExecution, fillsFromAlgoReport, parseFills } from './tca';
+import { AlgoExecutionReport } from './executionAlgos';
+
+const arrivalTime = Date.UTC(2024, 5, 3, 10, 0, 0);
+
+const point = (seconds: number, bestBid: number, bestAsk: number, volume?: number, vwap?: number): TcaHistoryPoint => ({
+  timestamp: new Date(arrivalTime + seconds * 1000),
+  bestBid,
+  bestAsk,
+  volume,
+  vwap
+});
+
+// Buy 30,000 of quote into a 99/101 book; 200 fills, the rest goes unfilled
+const input: TcaInput = {
+  symbol: 'BTC-USDT-SWAP',
+  exchange: 'OKX',
+  side: 'buy',
+  quantity: 30000,
+  source: 'test',
+  arrival: {
+    timestamp: new Date(arrivalTime).toISOString(),
+    exchange: 'okx',
+    symbol: 'BTC-USDT-SWAP',
+    asks: [['101', '100'], ['102', '100']],
+    bids: [['99', '100']]
+  },
+  arrivalTime,
+  decisionPrice: 99,
+  fills: [
+    { time: arrivalTime + 10000, price: 102, size: 1, fee: 0.1 },
+    { time: arrivalTime, price: 101, size: 1 }
+  ],
+  history: [point(5, 100, 102), point(20, 101, 103)],
+  feeRate: 0.001,
+  volatility: 2
+};
+
+const component = (report: ReturnType<typeof analyzeExecution>, id: string) =>
+  report.components.find((entry) => entry.id === id)!.amount;
+
+describe('analyzeExecution', () => {
+  it('splits cost against the decision price into delay, spread, impact, timing, fees and opportunity', () => {
+    const report = analyzeExecution(input);
+
+    expect(report.arrivalPrice).toBe(100);
+    expect(report.closePrice).toBe(102);
+    expect(report.averagePrice).toBe(101.5);
+    expect(report.fills.map((fill) => fill.mid)).toEqual([100, 101]);
+    expect(component(report, 'delay')).toBeCloseTo(2, 9);
+    expect(component(report, 'spread')).toBeCloseTo(2, 9);
+    expect(component(report, 'impact')).toBeCloseTo(0, 9);
+    expect(component(report, 'timing')).toBeCloseTo(1, 9);
+    // The first fill has no fee and pays the fee rate on 101
+    expect(component(report, 'fees')).toBeCloseTo(0.201, 9);
+    // 29,797 unfilled is 297.97 units at arrival, marked from 99 to 102
+    expect(component(report, 'opportunity')).toBeCloseTo(297.97 * 3, 6);
+    // The fill-by-fill decomposition adds up to the fill cost against the decision price
+    expect(report.total - component(report, 'fees') - component(report, 'opportunity')).toBeCloseTo(203 - 2 * 99, 9);
+    expect(report.totalBps).toBeCloseTo((report.total / 30000) * 10000, 9);
+  });
+
+  it('benchmarks against the interval VWAP when the history carries volume', () => {
+    const report = analyzeExecution({
+      ...input,
+      history: [point(5, 100, 102, 2, 100), point(8, 100, 102, 2, 102), point(30, 101, 103, 10, 90)]
+    });
+    const vwap = report.benchmarks.find((benchmark) => benchmark.id === 'vwap')!;
+
+    expect(report.vwapSource).toBe('interval');
+    expect(vwap.label).toBe('Interval VWAP');
+    // The point after the last fill is outside the interval
+    expect(vwap.price).toBeCloseTo(101, 9);
+    expect(vwap.amount).toBeCloseTo(2 * 0.5, 9);
+  });
+
+  it('falls back to the arrival book VWAP and says so', () => {
+    const report = analyzeExecution(input);
+    const vwap = report.benchmarks.find((benchmark) => benchmark.id === 'vwap')!;
+
+    expect(report.vwapSource).toBe('arrival-book');
+    expect(vwap.label).toBe('Arrival book VWAP');
+    expect(vwap.price).toBeCloseTo(101.5, 9);
+  });
+
+  it('rejects an arrival snapshot without both sides', () => {
+    expect(() => analyzeExecution({ ...input, arrival: { ...input.arrival, bids: [] } })).toThrow(
+      'Arrival snapshot has no two-sided book'
+    );
+  });
+});
+
+describe('parseFills', () => {
+  it('reads CSV with ISO or epoch times and sorts by time', () => {
+    const fills = parseFills('time,price,size,fee\n2024-06-03T10:00:01.000Z,101,0.5,\n1717408800000,100.5,0.25,0.01\n');
+
+    expect(fills).toEqual([
+      { time: 1717408800000, price: 100.5, size: 0.25, fee: 0.01 },
+      { time: 1717408801000, price: 101, size: 0.5, fee: undefined }
+    ]);
+  });
+
+  it('reads a JSON array', () => {
+    expect(parseFills('[{"time":1,"price":"101","size":2}]')).toEqual([{ time: 1, price: 101, size: 2, fee: undefined }]);
+  });
+
+  it('names the first invalid row', () => {
+    expect(() => parseFills('time,price,size\n1,101,1\n2,abc,1')).toThrow('Invalid fill at row 2');
+  });
+});
+
+describe('fillsFromAlgoReport', () => {
+  it('turns filled child orders into absolute-time fills', () => {
+    const slice = { index: 0, scheduledAt: 0, executedAt: 0, quantity: 100, filledQuantity: 100, filledSize: 1, averagePrice: 100, slippage: 0, shortfall: 0 };
+    const report = {
+      startedAt: arrivalTime,
+      slices: [slice, { ...slice, index: 1, executedAt: 30, filledQuantity: 0, filledSize: 0 }, { ...slice, index: 2, executedAt: 60, averagePrice: 101 }]
+    } as unknown as AlgoExecutionReport;
+
+    expect(fillsFromAlgoReport(report)).toEqual([
+      { time: arrivalTime, price: 100, size: 1 },
+      { time: arrivalTime + 60000, price: 101, size: 1 }
+    ]);
+  });
+});
@@ -0,0 +1,397 @@
+import { OrderBookData, OrderSide, TimeSeriesData } from './types';
+import { bookSideFor, toLocalOrderBook } from './orderBook';
+import { calculateVWAP } from './marketMetrics';
+import { realizedVolatility } from './statistics';
+import { AlgoExecutionReport } from './executionAlgos';
+
+export const TCA_REPORT_SCHEMA = 1;
+
+const SECONDS_PER_DAY = 86400;
+
+export interface TcaFill {
+  /** Epoch milliseconds */
+  time: number;
+  price: number;
+  /** Base size */
+  size: number;
+  /** Fee paid in quote currency; the input's fee rate is applied when unset */
+  fee?: number;
+}
+
+/** Market state over the analysis window; TimeSeriesData satisfies it */
+export type TcaHistoryPoint = Pick<TimeSeriesData, 'timestamp' | 'bestBid' | 'bestAsk' | 'volume' | 'vwap'>;
+
+export interface TcaInput {
+  symbol: string;
+  exchange: string;
+  side: OrderSide;
+  /** Parent order in quote currency */
+  quantity: number;
+  /** Where the fills came from, e.g. the algorithm that produced them */
+  source: string;
+  /** Book the order arrived into */
+  arrival: OrderBookData;
+  /** Epoch milliseconds of arrival */
+  arrivalTime: number;
+  /** Mid when the decision to trade was made; the arrival mid when unset */
+  decisionPrice?: number;
+  fills: TcaFill[];
+  history: TcaHistoryPoint[];
+  /** Fee rate for fills that carry no fee, as a fraction of notional */
+  feeRate?: number;
+  /** Daily volatility in percent for timing risk; realized from the history when unset */
+  volatility?: number;
+}
+
+export type TcaComponentId = 'delay' | 'spread' | 'impact' | 'timing' | 'fees' | 'opportunity';
+
+export interface TcaCostComponent {
+  id: TcaComponentId;
+  label: string;
+  /** Cost in quote currency; negative is a gain */
+  amount: number;
+  /** Cost in basis points of the parent notional */
+  bps: number;
+}
+
+export interface TcaBenchmark {
+  id: 'arrival' | 'vwap' | 'close';
+  label: string;
+  price: number;
+  /** Average fill versus the benchmark in quote currency; positive is a cost */
+  amount: number;
+  bps: number;
+}
+
+export interface TcaReportFill extends TcaFill {
+  /** Mid at the fill time */
+  mid: number;
+  /** Fill versus that mid, in basis points; positive is a cost */
+  slippageBps: number;
+}
+
+export interface TcaReport {
+  schema: number;
+  generatedAt: string;
+  symbol: string;
+  exchange: string;
+  side: OrderSide;
+  source: string;
+  quantity: number;
+  filledQuantity: number;
+  filledSize: number;
+  averagePrice: number;
+  arrivalTime: string;
+  decisionPrice: number;
+  arrivalPrice: number;
+  /** Quoted spread at arrival, in basis points of the mid */
+  arrivalSpreadBps: number;
+  closePrice: number;
+  /** Where the VWAP benchmark came from */
+  vwapSource: 'interval' | 'arrival-book';
+  components: TcaCostComponent[];
+  /** Implementation shortfall against the decision price; sum of the components */
+  total: number;
+  totalBps: number;
+  /** Standard deviation of the timing cost given the fill schedule, in quote currency */
+  timingRisk: number;
+  /** Daily volatility used for timing risk, as a percentage */
+  volatility: number;
+  benchmarks: TcaBenchmark[];
+  fills: TcaReportFill[];
+}
+
+const componentLabels: Record<TcaComponentId, string> = {
+  delay: 'Delay cost',
+  spread: 'Spread cost',
+  impact: 'Market impact',
+  timing: 'Timing cost',
+  fees: 'Fees',
+  opportunity: 'Opportunity cost'
+};
+
+/**
+ * Touch in force at a time: the last history point at or before it, or the
+ * arrival book before the history starts
+ */
+function touchAt(history: TcaHistoryPoint[], time: number, arrival: { bid: number; ask: number }): { bid: number; ask: number } {
+  let touch = arrival;
+  for (const point of history) {
+    if (point.timestamp.getTime() > time) break;
+    touch = { bid: point.bestBid, ask: point.bestAsk };
+  }
+  return touch;
+}
+
+/**
+ * Decomposes the cost of an executed order Perold-style against the decision
+ * price: delay (decision to arrival), then per fill the market move since
+ * arrival (timing), half the spread and the remainder beyond the touch
+ * (impact), plus fees and the opportunity cost of the unfilled part marked at
+ * the close. Average fill price is also compared with arrival, interval VWAP
+ * and close benchmarks.
+ * @param input Arrival snapshot, fills and market history
+ * @returns Report ready for JSON or HTML rendering
+ */
+export function analyzeExecution(input: TcaInput): TcaReport {
+  const { side, quantity } = input;
+  const direction = side === 'buy' ? 1 : -1;
+  const book = toLocalOrderBook(input.arrival);
+  const arrivalBid = book.bestBid()?.price ?? 0;
+  const arrivalAsk = book.bestAsk()?.price ?? 0;
+  const arrivalPrice = book.midPrice();
+  if (!(arrivalPrice > 0)) {
+    throw new Error('Arrival snapshot has no two-sided book');
+  }
+  const decisionPrice = input.decisionPrice ?? arrivalPrice;
+
+  const fills = [...input.fills].filter((fill) => fill.size > 0 && fill.price > 0).sort((a, b) => a.time - b.time);
+  const history = [...input.history].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const arrivalTouch = { bid: arrivalBid, ask: arrivalAsk };
+
+  let filledSize = 0;
+  let filledQuantity = 0;
+  let spread = 0;
+  let impact = 0;
+  let timing = 0;
+  let fees = 0;
+  const reportFills: TcaReportFill[] = fills.map((fill) => {
+    const touch = touchAt(history, fill.time, arrivalTouch);
+    const mid = (touch.bid + touch.ask) / 2;
+    const halfSpread = Math.max(0, (touch.ask - touch.bid) / 2);
+    const beyondMid = direction * (fill.price - mid) * fill.size;
+    const fee = fill.fee ?? fill.price * fill.size * (input.feeRate ?? 0);
+
+    filledSize += fill.size;
+    filledQuantity += fill.price * fill.size;
+    timing += direction * (mid - arrivalPrice) * fill.size;
+    // A fill inside the spread only pays what it paid beyond the mid
+    const spreadPaid = Math.min(halfSpread * fill.size, Math.max(0, beyondMid));
+    spread += spreadPaid;
+    impact += beyondMid - spreadPaid;
+    fees += fee;
+    return { ...fill, fee, mid, slippageBps: mid > 0 ? (direction * (fill.price - mid) / mid) * 10000 : 0 };
+  });
+
+  const averagePrice = filledSize > 0 ? filledQuantity / filledSize : 0;
+  const lastFillTime = fills.length > 0 ? fills[fills.length - 1].time : input.arrivalTime;
+  const lastPoint = history[history.length - 1];
+  const closeTouch = lastPoint && lastPoint.timestamp.getTime() >= lastFillTime
+    ? { bid: lastPoint.bestBid, ask: lastPoint.bestAsk }
+    : touchAt(history, lastFillTime, arrivalTouch);
+  const closePrice = (closeTouch.bid + closeTouch.ask) / 2;
+
+  // Unfilled notional is valued at arrival and marked to the close
+  const unfilledSize = Math.max(0, quantity - filledQuantity) / arrivalPrice;
+  const delay = direction * (arrivalPrice - decisionPrice) * filledSize;
+  const opportunity = direction * (closePrice - decisionPrice) * unfilledSize;
+
+  // Interval VWAP from the history's traded volume, else the arrival book's depth VWAP
+  let volume = 0;
+  let notional = 0;
+  for (const point of history) {
+    const time = point.timestamp.getTime();
+    if (time < input.arrivalTime || time > lastFillTime || !point.volume || !point.vwap) continue;
+    volume += point.volume;
+    notional += point.volume * point.vwap;
+  }
+  const vwapSource = volume > 0 ? 'interval' : 'arrival-book';
+  const vwapPrice = volume > 0 ? notional / volume : calculateVWAP(book, bookSideFor(side)).toNumber();
+
+  // Variance of the mark on the part not yet filled, fill by fill
+  const volatility = input.volatility ?? realizedVolatility(
+    history.map((point) => ({ time: point.timestamp.getTime(), price: (point.bestBid + point.bestAsk) / 2 })),
+    SECONDS_PER_DAY
+  );
+  const sigma = volatility / 100;
+  let variance = 0;
+  let holding = filledSize;
+  let previousTime = input.arrivalTime;
+  for (const fill of fills) {
+    const days = Math.max(0, fill.time - previousTime) / 1000 / SECONDS_PER_DAY;
+    variance += (holding * arrivalPrice) ** 2 * sigma ** 2 * days;
+    holding -= fill.size;
+    previousTime = fill.time;
+  }
+
+  const toBps = (amount: number) => (quantity > 0 ? (amount / quantity) * 10000 : 0);
+  const amounts: Record<TcaComponentId, number> = { delay, spread, impact, timing, fees, opportunity };
+  const components = (Object.keys(amounts) as TcaComponentId[]).map((id) => ({
+    id,
+    label: componentLabels[id],
+    amount: amounts[id],
+    bps: toBps(amounts[id])
+  }));
+  const total = components.reduce((sum, component) => sum + component.amount, 0);
+
+  const benchmark = (id: TcaBenchmark['id'], label: string, price: number): TcaBenchmark => {
+    const amount = filledSize > 0 && price > 0 ? direction * (averagePrice - price) * filledSize : 0;
+    return { id, label, price, amount, bps: filledSize > 0 && price > 0 ? ((direction * (averagePrice - price)) / price) * 10000 : 0 };
+  };
+
+  return {
+    schema: TCA_REPORT_SCHEMA,
+    generatedAt: new Date().toISOString(),
+    symbol: input.symbol,
+    exchange: input.exchange,
+    side,
+    source: input.source,
+    quantity,
+    filledQuantity,
+    filledSize,
+    averagePrice,
+    arrivalTime: new Date(input.arrivalTime).toISOString(),
+    decisionPrice,
+    arrivalPrice,
+    arrivalSpreadBps: ((arrivalAsk - arrivalBid) / arrivalPrice) * 10000,
+    closePrice,
+    vwapSource,
+    components,
+    total,
+    totalBps: toBps(total),
+    timingRisk: Math.sqrt(variance),
+    volatility,
+    benchmarks: [
+      benchmark('arrival', 'Arrival mid', arrivalPrice),
+      benchmark('vwap', vwapSource === 'interval' ? 'Interval VWAP' : 'Arrival book VWAP', vwapPrice),
+      benchmark('close', 'Close mid', closePrice)
+    ],
+    fills: reportFills
+  };
+}
+
+/**
+ * Child fills of an execution-algorithm run, as absolute-time TCA fills
+ */
+export function fillsFromAlgoReport(report: AlgoExecutionReport): TcaFill[] {
+  return report.slices
+    .filter((slice) => slice.filledSize > 0)
+    .map((slice) => ({
+      time: report.startedAt + slice.executedAt * 1000,
+      price: slice.averagePrice,
+      size: slice.filledSize
+    }));
+}
+
+/**
+ * Parses imported fills, either a JSON array of {time, price, size, fee?} or CSV
+ * with a header naming those columns. Times may be epoch milliseconds or ISO strings.
+ * @param text File contents
+ * @returns Fills sorted by time
+ */
+export function parseFills(text: string): TcaFill[] {
+  const trimmed = text.trim();
+  let rows: Record<string, unknown>[];
+  if (trimmed.startsWith('[')) {
+    rows = JSON.parse(trimmed);
+  } else {
+    const [header, ...lines] = trimmed.split(/\r?\n/).filter((line) => line.trim().length > 0);
+    const columns = (header ?? '').split(',').map((column) => column.trim().toLowerCase());
+    rows = lines.map((line) => {
+      const values = line.split(',');
+      return Object.fromEntries(columns.map((column, i) => [column, values[i]?.trim()]));
+    });
+  }
+
+  const toTime = (value: unknown) => (typeof value === 'number' || /^\d+$/.test(String(value)) ? Number(value) : Date.parse(String(value)));
+  return rows
+    .map((row, index) => {
+      const fill: TcaFill = {
+        time: toTime(row.time),
+        price: Number(row.price),
+        size: Number(row.size),
+        fee: row.fee === undefined || row.fee === '' ? undefined : Number(row.fee)
+      };
+      if (!Number.isFinite(fill.time) || !(fill.price > 0) || !(fill.size > 0) || (fill.fee !== undefined && !Number.isFinite(fill.fee))) {
+        throw new Error(`Invalid fill at row ${index + 1}: expected time, price, size and optional fee`);
+      }
+      return fill;
+    })
+    .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * @returns The report as indented JSON
+ */
+export function toTcaJson(report: TcaReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char] ?? char);
+
+const formatAmount = (value: number) =>
+  value.toLocaleString('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatPrice = (value: number) => value.toLocaleString('en-US', { maximumSignificantDigits: 10 });
+
+/**
+ * Renders a self-contained, printable HTML report
+ * @param report Output of analyzeExecution
+ * @returns Complete HTML document
+ */
+export function renderTcaHtml(report: TcaReport): string {
+  const row = (cells: string[]) => `<tr>${cells.map((cell) => `<td>${cell}</td>`).join('')}</tr>`;
+  const title = `TCA ${escapeHtml(report.symbol)} ${report.side.toUpperCase()} on ${escapeHtml(report.exchange)}`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+  body { font-family: -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; color: #111; margin: 2rem; }
+  h1 { font-size: 1.4rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1.1rem; margin-top: 1.5rem; border-bottom: 1px solid #ccc; padding-bottom: 0.25rem; }
+  .meta { color: #555; font-size: 0.85rem; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.85rem; }
+  td, th { padding: 0.3rem 0.5rem; border-bottom: 1px solid #eee; text-align: right; }
+  td:first-child, th:first-child { text-align: left; }
+  tr.total td { font-weight: bold; border-top: 2px solid #333; }
+  @media print { body { margin: 0.5in; } h2 { break-after: avoid; } tr { break-inside: avoid; } }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<div class="meta">${escapeHtml(report.source)} · arrival ${escapeHtml(report.arrivalTime)} · generated ${escapeHtml(report.generatedAt)}</div>
+
+<h2>Summary</h2>
+<table>
+${row(['Parent order', formatAmount(report.quantity)])}
+${row(['Filled', `${formatAmount(report.filledQuantity)} (${report.fills.length} fills, ${report.filledSize.toPrecision(6)} units)`])}
+${row(['Average price', formatPrice(report.averagePrice)])}
+${row(['Decision price', formatPrice(report.decisionPrice)])}
+${row(['Arrival mid', `${formatPrice(report.arrivalPrice)} (spread ${report.arrivalSpreadBps.toFixed(2)} bps)`])}
+${row(['Close mid', formatPrice(report.closePrice)])}
+${row(['Timing risk (1σ)', `${formatAmount(report.timingRisk)} at ${report.volatility.toFixed(2)}% daily volatility`])}
+</table>
+
+<h2>Cost Decomposition</h2>
+<table>
+<tr><th>Component</th><th>Amount</th><th>bps</th></tr>
+${report.components.map((component) => row([component.label, formatAmount(component.amount), component.bps.toFixed(2)])).join('\n')}
+<tr class="total"><td>Implementation shortfall</td><td>${formatAmount(report.total)}</td><td>${report.totalBps.toFixed(2)}</td></tr>
+</table>
+
+<h2>Benchmarks</h2>
+<table>
+<tr><th>Benchmark</th><th>Price</th><th>Cost</th><th>bps</th></tr>
+${report.benchmarks.map((benchmark) => row([benchmark.label, formatPrice(benchmark.price), formatAmount(benchmark.amount), benchmark.bps.toFixed(2)])).join('\n')}
+</table>
+
+<h2>Fills</h2>
+<table>
+<tr><th>Time</th><th>Price</th><th>Size</th><th>Mid</th><th>vs mid (bps)</th><th>Fee</th></tr>
+${report.fills.map((fill) => row([
+    new Date(fill.time).toISOString(),
+    formatPrice(fill.price),
+    fill.size.toPrecision(6),
+    formatPrice(fill.mid),
+    fill.slippageBps.toFixed(2),
+    formatAmount(fill.fee ?? 0)
+  ])).join('\n')}
+</table>
+</body>
+</html>
+`;
+}
@@ -5,34 +5,188 @@ export interface OrderBookEntry {
   size: string;
 }
 
+/**
+ * Price and size in base units. Venues that quote contracts add the size as
+ * received, which their checksums are computed over.
+ */
+export type PriceLevelTuple = [price: string, size: string, venueSize?: string];
+
 export interface OrderBookData {
   timestamp: string;
   exchange: string;
   symbol: string;
-  asks: [string, string][];
-  bids: [string, string][];
+  action?: 'snapshot' | 'update';
+  asks: PriceLevelTuple[];
+  bids: PriceLevelTuple[];
+  seqId?: number;
+  prevSeqId?: number;
+  checksum?: number;
 }
 
+export type OrderSide = 'buy' | 'sell';
+
+export type TimeInForce = 'GTC' | 'IOC' | 'FOK' | 'POST_ONLY';
+
+export type ImpactModelId = 'almgren-chriss' | 'square-root' | 'kyle' | 'obizhaeva-wang';
+
+export type ProductType = 'spot' | 'perp' | 'futures';
+
+export type MarginMode = 'cross' | 'isolated';
+
+export type VolatilityEstimator = 'close-to-close' | 'parkinson' | 'garman-klass' | 'ewma' | 'two-scale';
+
+export type VolatilityMode = 'manual' | 'auto';
+
 export interface SimulationParameters {
   exchange: string;
   asset: string;
+  side: OrderSide;
   orderType: 'market' | 'limit';
   quantity: number;
+  /** Daily volatility in percent; replaced by the selected estimator in auto mode */
   volatility: number;
+  volatilityMode: VolatilityMode;
+  volatilityEstimator: VolatilityEstimator;
+  /** Days per year used to annualize volatility (365 for markets that never close) */
+  annualizationDays: number;
   feeTier: string;
+  /** Limit price; joins the touch on the order's own side when unset */
+  limitPrice?: number;
+  timeInForce: TimeInForce;
+  /** Horizon in seconds over which a resting limit order may fill */
+  fillHorizon: number;
+  impactModel: ImpactModelId;
+  /** Average daily volume in quote currency, used by the square-root impact model */
+  averageDailyVolume?: number;
+  /** Pay fees in the venue's token to get its discount, where the schedule offers one */
+  payFeesInToken?: boolean;
+  /** Hours the position is held after the fill, for perpetual funding */
+  holdingPeriodHours: number;
+  /** Funding rate per interval, in percent; overrides the feed's rate when set */
+  fundingRate?: number;
+  /** Leverage applied to derivatives orders */
+  leverage: number;
+  marginMode: MarginMode;
+  /** Account equity in quote currency; backs the position in cross margin */
+  accountEquity: number;
 }
 
 export interface SimulationResults {
+  side: OrderSide;
   expectedSlippage: number;
   expectedFees: number;
   expectedMarketImpact: number;
+  /** Projected funding paid (negative if received) over the holding period, in quote currency */
+  expectedFunding: number;
   netCost: number;
   makerTakerProportion: number;
   internalLatency: number;
   vwap?: Decimal;
   twap?: Decimal;
+  /** Average resting size per price bucket over the recent book history */
   volumeProfile?: VolumeProfile[];
+  /** Rolling statistics of the mid price */
   priceStats?: PriceStatistics;
+  /** Rolling statistics of the spread, in bps of the mid */
+  spreadStats?: PriceStatistics;
+  priceHistogram?: HistogramBin[];
+  spreadHistogram?: HistogramBin[];
+  limitOrder?: LimitOrderEstimate;
+  execution?: ExecutionEstimate;
+  /** Version of the calibrated slippage model used, if any */
+  slippageModel?: string;
+  /** Version of the trained maker/taker classifier used, if any */
+  makerTakerModel?: string;
+  /** Fee rates the fees were computed with */
+  feeQuote?: FeeQuote;
+  /** Funding cash flows behind expectedFunding, for perpetuals */
+  funding?: FundingProjection;
+  /** Margin requirements and liquidation estimate, for derivatives */
+  margin?: MarginEstimate;
+  /** Market impact of the same order under every impact model, as percentages */
+  impactByModel?: ImpactEstimate[];
+  /** Calibrated Almgren-Chriss coefficients used, or undefined for the default constants */
+  impactParameters?: CalibratedImpactParameters;
+}
+
+/** Coefficients of the one-shot Almgren-Chriss impact form */
+export interface ImpactCoefficients {
+  /** Permanent impact per base unit, as a fraction of price */
+  eta: number;
+  /** Temporary impact per squared base unit and unit of volatility */
+  gamma: number;
+}
+
+export interface CalibratedImpactParameters extends ImpactCoefficients {
+  /** Feed adapter id the samples came from */
+  exchange: string;
+  symbol: string;
+  /** Epoch milliseconds of the calibration */
+  calibratedAt: number;
+  /** Book samples in the window */
+  samples: number;
+  /** Span of the window in seconds */
+  windowSeconds: number;
+  /** What the permanent coefficient was regressed on */
+  permanentSource: 'trades' | 'order-flow';
+}
+
+export interface ImpactEstimate {
+  model: ImpactModelId;
+  label: string;
+  impact: number;
+}
+
+export interface LevelFill {
+  price: number;
+  /** Base size taken from the level */
+  size: number;
+  /** Quote value taken from the level */
+  notional: number;
+}
+
+/** Deterministic fill of an order against the visible book, level by level */
+export interface ExecutionEstimate {
+  side: OrderSide;
+  /** Quote quantity requested */
+  requestedQuantity: number;
+  /** Quote quantity the visible book can absorb */
+  filledQuantity: number;
+  /** Quote quantity left over when the book is too thin (0 when fully filled) */
+  unfilledQuantity: number;
+  /** Base size received or delivered */
+  filledSize: number;
+  /** Best price on the executed side before the order */
+  touchPrice: number;
+  /** Volume-weighted fill price over the filled part (0 if nothing filled) */
+  averagePrice: number;
+  /** Price of the deepest level touched */
+  worstPrice: number;
+  levelsConsumed: number;
+  /** Average price versus the touch, as a percentage; positive is a cost */
+  slippage: number;
+  fills: LevelFill[];
+}
+
+export interface LimitOrderEstimate {
+  limitPrice: number;
+  timeInForce: TimeInForce;
+  /** Quote quantity executed immediately against the opposite side */
+  marketableQuantity: number;
+  /** Quote quantity left resting on the order's own side */
+  restingQuantity: number;
+  /** Base size queued ahead of the resting order at or better than its price */
+  queueAhead: number;
+  /** Probability that the resting portion fills within the horizon */
+  restingFillProbability: number;
+  /** Expected filled fraction of the whole order (0-1) */
+  expectedFillRatio: number;
+  /** Expected seconds until the resting portion fills (Infinity if it cannot) */
+  expectedTimeToFill: number;
+  /** Expected loss on resting fills from the price moving through the order (quote currency) */
+  adverseSelectionCost: number;
+  /** Set when the exchange would reject or cancel the order outright */
+  rejectedReason?: string;
 }
 
 export interface TimeSeriesData {
@@ -43,8 +197,11 @@ export interface TimeSeriesData {
   netCost: number;
   bestAsk: number;
   bestBid: number;
+  /** Base size the touch implies traded since the previous point */
   volume?: number;
+  /** Average price of that volume, or the mid when there was none */
   vwap?: number;
+  signals?: MicrostructureSignals;
 }
 
 export interface VolumeProfile {
@@ -58,14 +215,121 @@ export interface PriceStatistics {
   median: number;
   stdDev: number;
   skewness: number;
+  /** Excess kurtosis; 0 for a normal distribution */
   kurtosis: number;
   min: number;
   max: number;
+  /** Samples in the window */
+  count: number;
+}
+
+export interface HistogramBin {
+  lower: number;
+  upper: number;
+  count: number;
+}
+
+export interface IntegrityEvent {
+  type: 'sequence-gap' | 'checksum-mismatch';
+  exchange: string;
+  symbol: string;
+  message: string;
+  timestamp: Date;
 }
 
 export interface MarketMetrics {
   spread: Decimal;
   depth: Decimal;
   imbalance: Decimal;
-  volatility: Decimal;
-}
\ No newline at end of file
+  /** Spread as a percentage of the mid */
+  relativeSpread: Decimal;
+}
+
+/** Order book signals computed on every tick from consecutive books */
+export interface MicrostructureSignals {
+  /** Order-flow imbalance at the touch since the previous book, in base units; positive is net buying */
+  ofi: number;
+  /** Touch prices weighted by the opposite side's size */
+  microprice: number;
+  /** Microprice less the mid, in bps of the mid */
+  micropriceBps: number;
+  /** Bid-minus-ask share of depth over the first levels, weighted towards the touch (-1 to 1) */
+  weightedImbalance: number;
+  /** Bid-minus-ask steepness of cumulative depth against distance from the mid (-1 to 1) */
+  pressureSlope: number;
+  /** κ in size ≈ A·exp(-κ·distance), distance in bps from the mid; higher means depth thins faster */
+  depthDecay: number;
+}
+
+/** Effective maker and taker rates for one account on one market */
+export interface FeeQuote {
+  exchange: string;
+  product: ProductType;
+  tier: string;
+  /** Version of the fee schedule the rates come from */
+  version: string;
+  /** Rates as fractions of notional after discounts and rebates; negative is a rebate */
+  maker: number;
+  taker: number;
+  /** Set when the requested schedule or tier was not found and a fallback was used */
+  warning?: string;
+}
+
+/** Latest funding state of a perpetual as pushed by the venue */
+export interface FundingRateData {
+  timestamp: string;
+  exchange: string;
+  symbol: string;
+  /** Rate settled at nextFundingTime, as a fraction of position notional */
+  fundingRate: number;
+  /** Venue's estimate for the settlement after that, when published */
+  predictedRate?: number;
+  /** Epoch milliseconds of the next settlement */
+  nextFundingTime: number;
+  /** Hours between settlements, when the venue reports it */
+  intervalHours?: number;
+}
+
+export interface FundingPayment {
+  /** Epoch milliseconds of the settlement */
+  time: number;
+  /** Rate applied, as a fraction of notional */
+  rate: number;
+  /** Paid by the position (negative if received), in quote currency */
+  amount: number;
+}
+
+export interface FundingProjection {
+  /** Where the rates came from */
+  source: 'feed' | 'manual' | 'none';
+  currentRate: number;
+  predictedRate: number;
+  nextFundingTime: number;
+  intervalHours: number;
+  holdingPeriodHours: number;
+  payments: FundingPayment[];
+  total: number;
+}
+
+/** Margin on a linear derivatives position opened at the simulated fill */
+export interface MarginEstimate {
+  marginMode: MarginMode;
+  leverage: number;
+  /** Position notional in quote currency */
+  notional: number;
+  /** Volume-weighted fill price */
+  entryPrice: number;
+  /** Mid price the position is marked at */
+  markPrice: number;
+  initialMargin: number;
+  maintenanceMargin: number;
+  /** Maintenance margin as a fraction of notional */
+  maintenanceMarginRate: number;
+  /** Margin balance backing the position after opening fees */
+  collateral: number;
+  /** Mark price at which the position is liquidated (0 if it cannot be) */
+  liquidationPrice: number;
+  /** Adverse mark move to liquidation, as a percentage of the mark price */
+  distanceToLiquidation: number;
+  warnings: string[];
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import {
+  PriceSample,
+  appendPriceSample,
+  effectiveVolatility,
+  estimateVolatilities,
+  estimateVolatility,
+  toPriceBars,
+  volatilityDefaults
+} from './volatility';
+import { SimulationParameters } from './types';
+
+const start = Date.UTC(2024, 5, 3, 10, 0, 0);
+
+// One sample per 10-second bar, alternating log returns of +r and -r
+const alternating = (bars: number, r: number): PriceSample[] =>
+  Array.from({ length: bars }, (_, i) => ({ time: start + i * 10000, price: 100 * Math.exp(i % 2 === 0 ? 0 : r) }));
+
+const dailyFromBarVariance = (variance: number) => Math.sqrt((variance / 10) * 86400) * 100;
+
+describe('toPriceBars', () => {
+  it('builds OHLC bars and carries the close through empty intervals', () => {
+    const bars = toPriceBars([
+      { time: start, price: 100 },
+      { time: start + 4000, price: 103 },
+      { time: start + 9000, price: 101 },
+      { time: start + 31000, price: 99 }
+    ]);
+
+    expect(bars.map(({ open, high, low, close }) => [open, high, low, close])).toEqual([
+      [100, 103, 100, 101],
+      [101, 101, 101, 101],
+      [101, 101, 101, 101],
+      [101, 101, 99, 99]
+    ]);
+    expect(bars[3].time).toBe(start + 30000);
+  });
+});
+
+describe('appendPriceSample', () => {
+  it('keeps only the estimation window', () => {
+    const history: PriceSample[] = [];
+    for (let second = 0; second <= 1000; second += 100) appendPriceSample(history, { time: start + second * 1000, price: 100 });
+
+    expect(history[0].time).toBe(start + (1000 - volatilityDefaults.windowSeconds) * 1000);
+    expect(history).toHaveLength(10);
+  });
+});
+
+describe('estimateVolatility', () => {
+  it('needs a minimum number of bars', () => {
+    expect(estimateVolatility(alternating(volatilityDefaults.minBars - 1, 0.001), 'close-to-close')).toBeNull();
+    expect(estimateVolatility(alternating(volatilityDefaults.minBars, 0.001), 'close-to-close')).not.toBeNull();
+  });
+
+  it('scales bar return variance to a daily and annualized percentage', () => {
+    const r = 0.001;
+    // 20 returns alternating +r and -r have zero mean
+    const estimate = estimateVolatility(alternating(21, r), 'close-to-close', 252)!;
+
+    expect(estimate.daily).toBeCloseTo(dailyFromBarVariance((20 * r * r) / 19), 9);
+    expect(estimate.annualized).toBeCloseTo(estimate.daily * Math.sqrt(252), 9);
+    expect(estimate.samples).toBe(21);
+  });
+
+  it('reads the high-low range in the Parkinson estimator', () => {
+    const h = 0.002;
+    // Each bar opens and closes at 100 and touches 100 * e^h in between
+    const samples = Array.from({ length: 10 }, (_, i) => [
+      { time: start + i * 10000, price: 100 },
+      { time: start + i * 10000 + 3000, price: 100 * Math.exp(h) },
+      { time: start + i * 10000 + 6000, price: 100 }
+    ]).flat();
+
+    const parkinson = estimateVolatility(samples, 'parkinson')!;
+    const garmanKlass = estimateVolatility(samples, 'garman-klass')!;
+    expect(parkinson.daily).toBeCloseTo(dailyFromBarVariance((h * h) / (4 * Math.LN2)), 9);
+    expect(garmanKlass.daily).toBeCloseTo(dailyFromBarVariance(0.5 * h * h), 9);
+    // No bar-to-bar moves at all
+    expect(estimateVolatility(samples, 'close-to-close')!.daily).toBe(0);
+  });
+
+  it('sees through bid-ask bounce with the two-scale estimator', () => {
+    let seed = 7;
+    const uniform = () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return (seed + 1) / 2147483649;
+    };
+    const gaussian = () => Math.sqrt(-2 * Math.log(uniform())) * Math.cos(2 * Math.PI * uniform());
+
+    // Efficient log price random walk, observed through independent noise four times its step
+    const step = 1e-4;
+    const noise = 4e-4;
+    let efficient = Math.log(100);
+    const samples: PriceSample[] = [];
+    for (let i = 0; i < 3600; i++) {
+      efficient += step * gaussian();
+      samples.push({ time: start + i * 250, price: Math.exp(efficient + noise * gaussian()) });
+    }
+
+    const seconds = (samples[samples.length - 1].time - samples[0].time) / 1000;
+    const trueDaily = Math.sqrt(((samples.length - 1) * step * step / seconds) * 86400) * 100;
+    const naive = samples.slice(1).reduce((sum, sample, i) => sum + Math.log(sample.price / samples[i].price) ** 2, 0);
+    const naiveDaily = Math.sqrt((naive / seconds) * 86400) * 100;
+    const twoScale = estimateVolatility(samples, 'two-scale')!;
+
+    expect(naiveDaily).toBeGreaterThan(3 * trueDaily);
+    expect(Math.abs(twoScale.daily - trueDaily) / trueDaily).toBeLessThan(0.25);
+  });
+});
+
+describe('estimateVolatilities', () => {
+  it('returns every estimator in order', () => {
+    expect(estimateVolatilities(alternating(30, 0.001), 365).map((estimate) => estimate.estimator)).toEqual([
+      'close-to-close',
+      'parkinson',
+      'garman-klass',
+      'ewma',
+      'two-scale'
+    ]);
+    expect(estimateVolatilities([], 365)).toEqual([]);
+  });
+});
+
+describe('effectiveVolatility', () => {
+  const parameters = { volatility: 2, volatilityMode: 'auto', volatilityEstimator: 'ewma' } as SimulationParameters;
+  const estimates = estimateVolatilities(alternating(30, 0.001), 365);
+
+  it('uses the selected estimate in auto mode and the manual value otherwise', () => {
+    expect(effectiveVolatility(parameters, estimates)).toBe(estimates[3].daily);
+    expect(effectiveVolatility({ ...parameters, volatilityMode: 'manual' }, estimates)).toBe(2);
+    expect(effectiveVolatility(parameters, [])).toBe(2);
+  });
+});
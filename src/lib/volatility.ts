@@ -0,0 +1,209 @@
+import { SimulationParameters, VolatilityEstimator } from './types';
+
+export interface PriceSample {
+  /** Epoch milliseconds */
+  time: number;
+  price: number;
+}
+
+export interface PriceBar {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export interface VolatilityEstimate {
+  estimator: VolatilityEstimator;
+  /** Daily volatility as a percentage */
+  daily: number;
+  /** Annualized on the requested basis, as a percentage */
+  annualized: number;
+  /** Mid-price samples behind the estimate */
+  samples: number;
+}
+
+export const volatilityEstimators: { id: VolatilityEstimator; label: string; description: string }[] = [
+  { id: 'close-to-close', label: 'Close-to-close', description: 'Standard deviation of bar close returns' },
+  { id: 'parkinson', label: 'Parkinson', description: 'Bar high-low ranges' },
+  { id: 'garman-klass', label: 'Garman-Klass', description: 'Bar open, high, low and close' },
+  { id: 'ewma', label: 'EWMA', description: 'Exponentially weighted bar returns, recent bars count most' },
+  { id: 'two-scale', label: 'Two-scale RV', description: 'Realized variance of every mid update, corrected for bid-ask bounce' }
+];
+
+export const annualizationBases: { days: number; label: string }[] = [
+  { days: 365, label: '365 days (24/7)' },
+  { days: 252, label: '252 trading days' }
+];
+
+export const volatilityDefaults = {
+  // Mid-price history kept for the estimators
+  windowSeconds: 900,
+  // Cap on the history so fast replays stay cheap to estimate over
+  maxSamples: 5000,
+  // Bar length for the range and return estimators
+  barSeconds: 10,
+  // RiskMetrics decay per bar
+  ewmaLambda: 0.94,
+  // Fewer bars than this give no estimate
+  minBars: 5
+};
+
+const secondsPerDay = 86400;
+
+/**
+ * Appends a mid-price sample and drops samples older than the estimation
+ * window, in place
+ */
+export function appendPriceSample(history: PriceSample[], sample: PriceSample): void {
+  history.push(sample);
+  const cutoff = sample.time - volatilityDefaults.windowSeconds * 1000;
+  let stale = 0;
+  while (stale < history.length && history[stale].time < cutoff) stale++;
+  stale = Math.max(stale, history.length - volatilityDefaults.maxSamples);
+  if (stale > 0) history.splice(0, stale);
+}
+
+/**
+ * Groups mid-price samples into fixed-length bars. Intervals without a sample
+ * repeat the previous close so every bar covers the same time.
+ * @param samples Prices with epoch-millisecond times, oldest first
+ * @param barSeconds Bar length in seconds
+ */
+export function toPriceBars(samples: PriceSample[], barSeconds: number = volatilityDefaults.barSeconds): PriceBar[] {
+  if (samples.length === 0) return [];
+  const barMs = barSeconds * 1000;
+  const start = Math.floor(samples[0].time / barMs) * barMs;
+  const bars: PriceBar[] = [];
+
+  for (const sample of samples) {
+    const index = Math.floor((sample.time - start) / barMs);
+    while (bars.length <= index) {
+      const close = bars.length > 0 ? bars[bars.length - 1].close : sample.price;
+      bars.push({ time: start + bars.length * barMs, open: close, high: close, low: close, close });
+    }
+    const bar = bars[index];
+    bar.high = Math.max(bar.high, sample.price);
+    bar.low = Math.min(bar.low, sample.price);
+    bar.close = sample.price;
+  }
+  return bars;
+}
+
+const logReturns = (prices: number[]): number[] =>
+  prices.slice(1).map((price, i) => Math.log(price / prices[i]));
+
+/** Sample variance of close-to-close bar returns */
+function closeToCloseVariance(bars: PriceBar[]): number {
+  const returns = logReturns(bars.map((bar) => bar.close));
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  return returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+}
+
+/** Parkinson (1980): mean squared log range over 4 ln 2 */
+function parkinsonVariance(bars: PriceBar[]): number {
+  return bars.reduce((sum, bar) => sum + Math.log(bar.high / bar.low) ** 2, 0) / (4 * Math.LN2 * bars.length);
+}
+
+/** Garman-Klass (1980): range term less the open-to-close drift term */
+function garmanKlassVariance(bars: PriceBar[]): number {
+  return bars.reduce(
+    (sum, bar) => sum + 0.5 * Math.log(bar.high / bar.low) ** 2 - (2 * Math.LN2 - 1) * Math.log(bar.close / bar.open) ** 2,
+    0
+  ) / bars.length;
+}
+
+/** RiskMetrics-style EWMA of squared bar returns, seeded with their mean */
+function ewmaVariance(bars: PriceBar[], lambda: number): number {
+  const returns = logReturns(bars.map((bar) => bar.close));
+  let variance = returns.reduce((sum, r) => sum + r * r, 0) / returns.length;
+  for (const r of returns) {
+    variance = lambda * variance + (1 - lambda) * r * r;
+  }
+  return variance;
+}
+
+/**
+ * Two-scale realized variance (Zhang, Mykland and Aït-Sahalia, 2005): the
+ * average realized variance over K offset subgrids, less the noise the
+ * all-updates realized variance measures, with the small-sample adjustment
+ * @returns Variance over the whole sample
+ */
+function twoScaleVariance(samples: PriceSample[]): number {
+  const prices = samples.map((sample) => sample.price);
+  const n = prices.length - 1;
+  const k = Math.min(Math.max(2, Math.round(n ** (2 / 3))), Math.floor(n / 2));
+  if (k < 2) return 0;
+
+  const all = logReturns(prices).reduce((sum, r) => sum + r * r, 0);
+  let slow = 0;
+  for (let i = k; i < prices.length; i++) {
+    slow += Math.log(prices[i] / prices[i - k]) ** 2;
+  }
+  slow /= k;
+
+  const nBar = (n - k + 1) / k;
+  const variance = (slow - (nBar / n) * all) / (1 - nBar / n);
+  // Noise can swamp the signal in short samples; fall back to the sparse subgrid average, which it biases least
+  return variance > 0 ? variance : slow;
+}
+
+/**
+ * Estimates volatility from mid-price history
+ * @param samples Mid prices with epoch-millisecond times, oldest first
+ * @param estimator Estimator to apply
+ * @param annualizationDays Days per year for the annualized figure
+ * @returns Daily and annualized volatility, or null with too little history
+ */
+export function estimateVolatility(
+  samples: PriceSample[],
+  estimator: VolatilityEstimator,
+  annualizationDays: number = annualizationBases[0].days
+): VolatilityEstimate | null {
+  const { barSeconds, ewmaLambda, minBars } = volatilityDefaults;
+  const bars = toPriceBars(samples, barSeconds);
+  if (bars.length < minBars) return null;
+
+  let variancePerSecond: number;
+  if (estimator === 'two-scale') {
+    const seconds = (samples[samples.length - 1].time - samples[0].time) / 1000;
+    if (seconds <= 0) return null;
+    variancePerSecond = twoScaleVariance(samples) / seconds;
+  } else {
+    const perBar = {
+      'close-to-close': closeToCloseVariance,
+      parkinson: parkinsonVariance,
+      'garman-klass': garmanKlassVariance,
+      ewma: (priceBars: PriceBar[]) => ewmaVariance(priceBars, ewmaLambda)
+    }[estimator](bars);
+    variancePerSecond = Math.max(perBar, 0) / barSeconds;
+  }
+
+  const daily = Math.sqrt(variancePerSecond * secondsPerDay) * 100;
+  return {
+    estimator,
+    daily,
+    annualized: daily * Math.sqrt(annualizationDays),
+    samples: samples.length
+  };
+}
+
+/**
+ * Runs every estimator over the same history
+ * @returns Estimates in the order of volatilityEstimators, skipping any without enough data
+ */
+export function estimateVolatilities(samples: PriceSample[], annualizationDays: number): VolatilityEstimate[] {
+  return volatilityEstimators
+    .map(({ id }) => estimateVolatility(samples, id, annualizationDays))
+    .filter((estimate): estimate is VolatilityEstimate => estimate !== null);
+}
+
+/**
+ * Daily volatility the simulation should use: the selected estimate in auto
+ * mode once there is enough history, otherwise the manual input
+ */
+export function effectiveVolatility(parameters: SimulationParameters, estimates: VolatilityEstimate[]): number {
+  if (parameters.volatilityMode !== 'auto') return parameters.volatility;
+  return estimates.find((estimate) => estimate.estimator === parameters.volatilityEstimator)?.daily ?? parameters.volatility;
+}
@@ -1,4 +1,5 @@
-import { OrderBookData } from "./types";
+import { FundingRateData, OrderBookData } from "./types";
+import { FeedAdapter } from "./feedAdapters";
 
 export class OrderBookWebSocket {
   private ws: WebSocket | null = null;
@@ -6,27 +7,37 @@ export class OrderBookWebSocket {
   private maxReconnectAttempts = 10;
   private reconnectDelay = 1000;
   private url: string;
+  private adapter: FeedAdapter;
+  private symbols: Set<string>;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   private onMessageCallback: (data: OrderBookData) => void;
   private onConnectCallback: () => void;
   private onErrorCallback: (error: Event) => void;
+  private onFundingCallback?: (data: FundingRateData) => void;
   private isConnected = false;
   private intentionalClose = false;
 
   constructor(
-    url: string,
+    adapter: FeedAdapter,
+    symbol: string,
     onMessage: (data: OrderBookData) => void,
     onConnect: () => void,
-    onError: (error: Event) => void
+    onError: (error: Event) => void,
+    onFunding?: (data: FundingRateData) => void
   ) {
-    this.url = url;
+    this.adapter = adapter;
+    this.symbols = new Set([symbol]);
+    this.url = adapter.getUrl(symbol);
     this.onMessageCallback = onMessage;
     this.onConnectCallback = onConnect;
     this.onErrorCallback = onError;
+    this.onFundingCallback = onFunding;
   }
 
   connect(): void {
     try {
-      console.log("Connecting to WebSocket...");
+      console.log(`Connecting to ${this.adapter.label} WebSocket...`);
       this.intentionalClose = false;
       this.ws = new WebSocket(this.url);
 
@@ -34,13 +45,22 @@ export class OrderBookWebSocket {
         console.log("WebSocket connected!");
         this.isConnected = true;
         this.reconnectAttempts = 0;
+        for (const symbol of this.symbols) {
+          this.send(this.adapter.getSubscribeMessages(symbol));
+        }
+        this.startHeartbeat();
         this.onConnectCallback();
       };
 
       this.ws.onmessage = (event) => {
         try {
-          const data: OrderBookData = JSON.parse(event.data);
-          this.onMessageCallback(data);
+          const data = this.adapter.parseMessage(event.data);
+          if (data) {
+            this.onMessageCallback(data);
+          } else if (this.onFundingCallback && this.adapter.parseFunding) {
+            const funding = this.adapter.parseFunding(event.data);
+            if (funding) this.onFundingCallback(funding);
+          }
         } catch (error) {
           console.error("Error parsing message:", error);
           const errorEvent = new ErrorEvent('error', {
@@ -69,6 +89,7 @@ export class OrderBookWebSocket {
         const closeReason = this.getCloseReason(event);
         console.log(`WebSocket closed: ${closeReason}`);
         this.isConnected = false;
+        this.stopHeartbeat();
         
         if (!this.intentionalClose) {
           // Create an error event for unexpected closures
@@ -133,15 +154,99 @@ export class OrderBookWebSocket {
     return `Code: ${event.code}, Reason: ${reason}`;
   }
 
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    const heartbeat = this.adapter.heartbeat;
+    if (!heartbeat) return;
+
+    this.heartbeatTimer = setInterval(() => {
+      if (this.ws?.readyState === WebSocket.OPEN) {
+        this.ws.send(heartbeat.message);
+      }
+    }, heartbeat.intervalMs);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
   disconnect(): void {
+    this.stopHeartbeat();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
     if (this.ws) {
       this.intentionalClose = true;
+      // Detach handlers so a late close or message from this socket cannot
+      // reach a connection opened afterwards
+      this.ws.onopen = null;
+      this.ws.onmessage = null;
+      this.ws.onerror = null;
+      this.ws.onclose = null;
       this.ws.close();
       this.ws = null;
       this.isConnected = false;
     }
   }
 
+  private send(messages: string[]): void {
+    if (this.ws?.readyState !== WebSocket.OPEN) return;
+    for (const message of messages) {
+      this.ws.send(message);
+    }
+  }
+
+  /**
+   * Adds an instrument to a multiplexed connection. It is subscribed now if the
+   * socket is open, otherwise on the next (re)connect.
+   * @param symbol Instrument in canonical form
+   */
+  addSymbol(symbol: string): void {
+    if (this.symbols.has(symbol)) return;
+    if (!this.adapter.multiplexed) {
+      throw new Error(`${this.adapter.label} does not support multiple instruments per connection`);
+    }
+    this.symbols.add(symbol);
+    this.send(this.adapter.getSubscribeMessages(symbol));
+  }
+
+  /**
+   * Removes an instrument from the connection
+   * @param symbol Instrument in canonical form
+   */
+  removeSymbol(symbol: string): void {
+    if (!this.symbols.delete(symbol)) return;
+    this.send(this.adapter.getUnsubscribeMessages(symbol));
+  }
+
+  getSymbols(): string[] {
+    return [...this.symbols];
+  }
+
+  /**
+   * Requests a fresh snapshot after an integrity failure. Venues with a
+   * subscribe handshake are resubscribed on the open socket; snapshot-per-URL
+   * feeds are reconnected.
+   * @param symbol Instrument to resync
+   */
+  resync(symbol: string): void {
+    const subscribe = this.adapter.getSubscribeMessages(symbol);
+    if (this.ws && this.ws.readyState === WebSocket.OPEN && subscribe.length > 0) {
+      console.log(`Resubscribing to ${symbol} for a fresh snapshot`);
+      this.send(this.adapter.getUnsubscribeMessages(symbol));
+      this.send(subscribe);
+      return;
+    }
+
+    console.log(`Reconnecting to ${symbol} for a fresh snapshot`);
+    this.disconnect();
+    this.connect();
+  }
+
   private reconnect(): void {
     if (this.reconnectAttempts < this.maxReconnectAttempts && !this.intentionalClose) {
       this.reconnectAttempts++;
@@ -152,7 +257,8 @@ export class OrderBookWebSocket {
       
       console.log(`Attempting to reconnect in ${delay}ms (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
       
-      setTimeout(() => {
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
         if (!this.intentionalClose) {
           console.log(`Reconnecting... (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
           this.connect();
@@ -1,100 +1,139 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import Header from '@/components/Header';
 import InputPanel from '@/components/InputPanel';
 import OutputPanel from '@/components/OutputPanel';
-import { OrderBookWebSocket } from '@/lib/websocket';
-import { OrderBookData, SimulationParameters, SimulationResults, TimeSeriesData } from '@/lib/types';
-import { 
-  calculateSlippage, 
-  calculateFees, 
-  calculateMarketImpact, 
-  calculateMakerTakerProportion,
-  calculateNetCost
-} from '@/lib/marketModels';
+import DataSourcePanel, { DataSourceMode } from '@/components/DataSourcePanel';
+import CalibrationPanel from '@/components/CalibrationPanel';
+import MakerTakerPanel from '@/components/MakerTakerPanel';
+import { LocalOrderBook } from '@/lib/orderBook';
+import { getFeedAdapter } from '@/lib/feedAdapters';
+import { SubscriptionManager, SubscriptionTarget } from '@/lib/subscriptionManager';
+import {
+  IntegrityEvent,
+  MicrostructureSignals,
+  OrderBookData,
+  SimulationParameters,
+  SimulationResults,
+  TimeSeriesData
+} from '@/lib/types';
+import { runSimulation } from '@/lib/simulation';
+import { TouchSnapshot, impliedVolume, touchOf } from '@/lib/marketMetrics';
+import { microstructureSignals } from '@/lib/microstructure';
+import { RollingMarketStatistics } from '@/lib/marketStatistics';
+import { AlgoExecutionReport } from '@/lib/executionAlgos';
+import { PriceSample, VolatilityEstimate, appendPriceSample, effectiveVolatility, estimateVolatilities } from '@/lib/volatility';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { AlertCircle } from 'lucide-react';
+import { AlertCircle, ShieldAlert } from 'lucide-react';
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from '@/components/ui/resizable';
 
+// Levels per side copied out of the local book for rendering
+const displayDepth = 25;
+
+// Shown until the first book of an instrument arrives
+const emptyResults: SimulationResults = {
+  side: 'buy',
+  expectedSlippage: 0,
+  expectedFees: 0,
+  expectedMarketImpact: 0,
+  expectedFunding: 0,
+  netCost: 0,
+  makerTakerProportion: 0,
+  internalLatency: 0
+};
+
 const Index: React.FC = () => {
   const [orderBookData, setOrderBookData] = useState<OrderBookData | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [lastUpdated, setLastUpdated] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [integrityEvent, setIntegrityEvent] = useState<IntegrityEvent | null>(null);
+  const [integrityEventCount, setIntegrityEventCount] = useState(0);
   const [parameters, setParameters] = useState<SimulationParameters>({
     exchange: 'OKX',
     asset: 'BTC-USDT-SWAP',
+    side: 'buy',
     orderType: 'market',
     quantity: 100,
     volatility: 2.0,
-    feeTier: 'VIP 0'
+    volatilityMode: 'manual',
+    volatilityEstimator: 'two-scale',
+    annualizationDays: 365,
+    feeTier: 'VIP 0',
+    timeInForce: 'GTC',
+    fillHorizon: 60,
+    impactModel: 'almgren-chriss',
+    holdingPeriodHours: 8,
+    leverage: 10,
+    marginMode: 'isolated',
+    accountEquity: 10000
   });
   
-  const [results, setResults] = useState<SimulationResults>({
-    expectedSlippage: 0,
-    expectedFees: 0,
-    expectedMarketImpact: 0,
-    netCost: 0,
-    makerTakerProportion: 0,
-    internalLatency: 0
-  });
+  const [results, setResults] = useState<SimulationResults>(emptyResults);
 
+  const [algoReport, setAlgoReport] = useState<AlgoExecutionReport | null>(null);
   const [timeSeriesData, setTimeSeriesData] = useState<TimeSeriesData[]>([]);
-  const [webSocket, setWebSocket] = useState<OrderBookWebSocket | null>(null);
+  const [volatilityEstimates, setVolatilityEstimates] = useState<VolatilityEstimate[]>([]);
+  const midHistoryRef = useRef<PriceSample[]>([]);
+  // Previous touch for order-flow imbalance, and the latest signals for recalculations
+  const touchRef = useRef<TouchSnapshot | null>(null);
+  const signalsRef = useRef<MicrostructureSignals | undefined>(undefined);
+  const statisticsRef = useRef(new RollingMarketStatistics());
+  const [switchingTo, setSwitchingTo] = useState<SubscriptionTarget | null>(null);
+  const managerRef = useRef<SubscriptionManager | null>(null);
+  const parametersRef = useRef(parameters);
+  parametersRef.current = parameters;
 
-  // Initialize WebSocket
+  // Initialize the subscription manager
   useEffect(() => {
-    const wsUrl = 'wss://ws.gomarket-cpp.goquant.io/ws/l2-orderbook/okx/BTC-USDT-SWAP';
-
-    const onMessage = (data: OrderBookData) => {
-      const startTime = performance.now();
-      
-      setOrderBookData(data);
+    const onBook = (book: LocalOrderBook) => {
+      setOrderBookData(book.toOrderBookData(displayDepth));
       setLastUpdated(new Date().toLocaleTimeString());
       
+      // Estimate volatility from the mid-price history for auto mode
+      appendPriceSample(midHistoryRef.current, { time: Date.now(), price: book.midPrice() });
+      const estimates = estimateVolatilities(midHistoryRef.current, parametersRef.current.annualizationDays);
+      setVolatilityEstimates(estimates);
+      
+      const signals = microstructureSignals(book, touchRef.current);
+      const touch = touchOf(book);
+      // Volume implied by the touch since the previous book, for the TCA interval VWAP
+      const traded = touchRef.current && touch ? impliedVolume(touchRef.current, touch) : { size: 0, notional: 0 };
+      touchRef.current = touch;
+      signalsRef.current = signals;
+      
       // Calculate all metrics based on new orderbook data
-      if (data && data.asks && data.asks.length > 0 && data.bids && data.bids.length > 0) {
-        const bestAskPrice = parseFloat(data.asks[0][0]);
-        
-        const slippage = calculateSlippage(data, parameters.quantity);
-        const fees = calculateFees(parameters.feeTier, parameters.quantity, bestAskPrice);
-        const marketImpact = calculateMarketImpact(data, parameters.quantity, parameters.volatility);
-        const makerTakerProportion = calculateMakerTakerProportion(data, parameters.quantity);
-        const netCost = calculateNetCost(slippage, fees, marketImpact, parameters.quantity, bestAskPrice);
-        
-        const endTime = performance.now();
-        const latency = endTime - startTime;
-        
-        const newResults = {
-          expectedSlippage: slippage,
-          expectedFees: fees,
-          expectedMarketImpact: marketImpact,
-          netCost,
-          makerTakerProportion,
-          internalLatency: latency
-        };
-        
-        setResults(newResults);
+      const current = parametersRef.current;
+      const newResults = runSimulation(
+        book,
+        { ...current, volatility: effectiveVolatility(current, estimates) },
+        managerRef.current?.getFunding(),
+        signals
+      );
+      statisticsRef.current.observe(book);
+      setResults({ ...newResults, ...statisticsRef.current.results() });
+      
+      // Update time series data
+      setTimeSeriesData(prev => {
+        const timestamp = new Date();
+        const newData = [
+          ...prev, 
+          {
+            timestamp,
+            slippage: newResults.expectedSlippage,
+            fees: newResults.expectedFees,
+            marketImpact: newResults.expectedMarketImpact,
+            netCost: newResults.netCost,
+            bestAsk: book.bestAsk().price,
+            bestBid: book.bestBid().price,
+            volume: traded.size,
+            vwap: traded.size > 0 ? traded.notional / traded.size : book.midPrice(),
+            signals,
+          }
+        ];
         
-        // Update time series data
-        setTimeSeriesData(prev => {
-          const timestamp = new Date();
-          const newData = [
-            ...prev, 
-            {
-              timestamp,
-              slippage,
-              fees,
-              marketImpact,
-              netCost,
-              bestAsk: bestAskPrice,
-              bestBid: parseFloat(data.bids[0][0]),
-            }
-          ];
-          
-          // Keep only the last 100 data points to avoid memory issues
-          return newData.slice(-100);
-        });
-      }
+        // Keep only the last 100 data points to avoid memory issues
+        return newData.slice(-100);
+      });
     };
     
     const onConnect = () => {
@@ -107,43 +146,78 @@ const Index: React.FC = () => {
       setError('Connection failed. Please check your network connection and VPN settings. Attempting to reconnect...');
     };
     
-    const ws = new OrderBookWebSocket(wsUrl, onMessage, onConnect, onError);
-    ws.connect();
-    setWebSocket(ws);
+    const onIntegrityEvent = (event: IntegrityEvent) => {
+      setIntegrityEvent(event);
+      setIntegrityEventCount(count => count + 1);
+    };
+    
+    const manager = new SubscriptionManager({
+      onBook,
+      onConnect,
+      onError,
+      onIntegrityEvent,
+      onSwitching: setSwitchingTo
+    });
+    managerRef.current = manager;
     
     return () => {
-      if (ws) {
-        ws.disconnect();
-      }
+      manager.close();
+      managerRef.current = null;
     };
   }, []);
   
+  // Re-target the feed whenever the instrument or venue changes
+  useEffect(() => {
+    const manager = managerRef.current;
+    if (!manager) return;
+    
+    const previous = manager.getTarget();
+    if (previous) {
+      // Everything derived from the old instrument's book is now stale
+      setOrderBookData(null);
+      setTimeSeriesData([]);
+      midHistoryRef.current = [];
+      touchRef.current = null;
+      statisticsRef.current.reset();
+      setVolatilityEstimates([]);
+      setResults({ ...emptyResults, side: parametersRef.current.side });
+      setAlgoReport(null);
+    }
+    manager.subscribe(parameters.exchange, parameters.asset);
+  }, [parameters.exchange, parameters.asset]);
+  
+  // Live and replayed histories must not be mixed
+  const handleModeChange = (mode: DataSourceMode) => {
+    setOrderBookData(null);
+    setTimeSeriesData([]);
+    midHistoryRef.current = [];
+    touchRef.current = null;
+    statisticsRef.current.reset();
+    setVolatilityEstimates([]);
+    setResults({ ...emptyResults, side: parametersRef.current.side });
+    setAlgoReport(null);
+  };
+  
+  // The last execution-algo run supplies the VWAP/TWAP benchmarks
+  const displayedResults = useMemo(
+    () => (algoReport ? { ...results, vwap: algoReport.vwap, twap: algoReport.twap } : results),
+    [results, algoReport]
+  );
+
+  // In auto mode the selected estimator replaces the volatility input
+  const volatility = effectiveVolatility(parameters, volatilityEstimates);
+  const effectiveParameters = useMemo(() => ({ ...parameters, volatility }), [parameters, volatility]);
+
   // Recalculate results when parameters change
   useEffect(() => {
-    if (orderBookData && orderBookData.asks && orderBookData.asks.length > 0) {
-      const bestAskPrice = parseFloat(orderBookData.asks[0][0]);
-      
-      const startTime = performance.now();
-      
-      const slippage = calculateSlippage(orderBookData, parameters.quantity);
-      const fees = calculateFees(parameters.feeTier, parameters.quantity, bestAskPrice);
-      const marketImpact = calculateMarketImpact(orderBookData, parameters.quantity, parameters.volatility);
-      const makerTakerProportion = calculateMakerTakerProportion(orderBookData, parameters.quantity);
-      const netCost = calculateNetCost(slippage, fees, marketImpact, parameters.quantity, bestAskPrice);
-      
-      const endTime = performance.now();
-      const latency = endTime - startTime;
-      
+    const book = managerRef.current?.getBook();
+    if (orderBookData && book?.isReady()) {
       setResults({
-        expectedSlippage: slippage,
-        expectedFees: fees,
-        expectedMarketImpact: marketImpact,
-        netCost,
-        makerTakerProportion,
-        internalLatency: latency
+        ...runSimulation(book, effectiveParameters, managerRef.current?.getFunding(), signalsRef.current),
+        ...statisticsRef.current.results()
       });
     }
-  }, [parameters, orderBookData]);
+  }, [effectiveParameters, orderBookData]);
 
   return (
     <div className="min-h-screen flex flex-col bg-darkBg text-lightText">
@@ -159,6 +233,16 @@ const Index: React.FC = () => {
         </Alert>
       )}
       
+      {integrityEvent && (
+        <Alert className="mx-4 mt-4 border-neutral/50 text-neutral [&>svg]:text-neutral">
+          <ShieldAlert className="h-4 w-4" />
+          <AlertDescription>
+            {`${integrityEvent.message} at ${integrityEvent.timestamp.toLocaleTimeString()}. `}
+            {`Book resynchronized from a fresh snapshot (${integrityEventCount} integrity event${integrityEventCount === 1 ? '' : 's'} this session).`}
+          </AlertDescription>
+        </Alert>
+      )}
+      
       <main className="flex-1 p-4">
         <ResizablePanelGroup 
           direction="horizontal" 
@@ -166,11 +250,16 @@ const Index: React.FC = () => {
         >
           {/* Left Panel - Input Parameters */}
           <ResizablePanel defaultSize={40} minSize={30}>
-            <div className="h-full">
+            <div className="h-full overflow-y-auto">
               <InputPanel 
                 parameters={parameters}
                 onParametersChange={setParameters}
-              />
+                volatilityEstimates={volatilityEstimates}
+              >
+                <DataSourcePanel onModeChange={handleModeChange} />
+                <CalibrationPanel />
+                <MakerTakerPanel />
+              </InputPanel>
             </div>
           </ResizablePanel>
           
@@ -180,10 +269,15 @@ const Index: React.FC = () => {
           <ResizablePanel defaultSize={60} minSize={30}>
             <div className="h-full">
               <OutputPanel 
-                results={results}
+                results={displayedResults}
                 lastUpdated={lastUpdated}
                 isConnected={isConnected}
                 orderBookData={orderBookData}
+                parameters={effectiveParameters}
+                timeSeriesData={timeSeriesData}
+                algoReport={algoReport}
+                onAlgoReport={setAlgoReport}
+                switchingTo={switchingTo ? `${switchingTo.symbol} on ${getFeedAdapter(switchingTo.exchange).label}` : null}
               />
             </div>
           </ResizablePanel>